@@ -1,7 +1,7 @@
 
 import React, { useState, useMemo, useCallback, useEffect } from 'react';
 import useLocalStorage from './hooks/useLocalStorage';
-import type { Device, Schedule, ResetHistoryEntry } from './types';
+import type { Device, Schedule, ScheduleTemplate, ResetHistoryEntry, FirmwareHistoryEntry } from './types';
 import Header from './components/Header';
 import DeviceList from './components/DeviceList';
 import DevicePanel from './components/DevicePanel';
@@ -11,14 +11,32 @@ import InstallPrompt from './components/InstallPrompt';
 import SplashScreen from './components/SplashScreen';
 import { PlusIcon } from './components/icons';
 import { useMqttManager, type DeviceMqttState } from './hooks/useMqttManager';
+import { useFirmwareRollout } from './hooks/useFirmwareRollout';
+import { usePingHistory } from './hooks/usePingHistory';
+import { useNotifications } from './hooks/useNotifications';
+import NotificationSettings from './components/NotificationSettings';
+import { useAlerts } from './hooks/useAlerts';
+import AlertsPanel from './components/AlertsPanel';
+import { useWebhooks } from './hooks/useWebhooks';
+import IntegrationsSettings from './components/IntegrationsSettings';
 import MqttContext from './contexts/MqttContext';
+import { addTag } from './services/deviceGroups';
+import { applyFirmwareEvent, deviceFirmwareHistory, type FirmwareEvent, type FirmwareEventContext } from './services/firmwareHistory';
+import { addRebootEvent, pruneRebootLog, type RebootLog } from './services/rebootLog';
+import { isSuppressionEvent, SUPPRESSION_LOG_INTERVAL_MS } from './services/rebootPolicy';
 
 const App: React.FC = () => {
   const [devices, setDevices] = useLocalStorage<Device[]>('devices', []);
   const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(null);
   const [isAddModalOpen, setAddModalOpen] = useState(false);
   const [isMenuOpen, setMenuOpen] = useState(false);
+  const [isNotificationSettingsOpen, setNotificationSettingsOpen] = useState(false);
+  const [isAlertsOpen, setAlertsOpen] = useState(false);
+  const [isIntegrationsOpen, setIntegrationsOpen] = useState(false);
   const [resetHistory, setResetHistory] = useLocalStorage<ResetHistoryEntry[]>('resetHistory', []);
+  const [rebootLog, setRebootLog] = useLocalStorage<RebootLog>('rebootLog', {});
+  const [firmwareHistory, setFirmwareHistory] = useLocalStorage<FirmwareHistoryEntry[]>('firmwareHistory', []);
+  const [scheduleTemplates, setScheduleTemplates] = useLocalStorage<ScheduleTemplate[]>('scheduleTemplates', []);
   const [theme, setTheme] = useLocalStorage<'light' | 'dark'>('theme', 'dark');
   
   // Splash Screen State
@@ -37,12 +55,14 @@ const App: React.FC = () => {
     setTheme(prevTheme => (prevTheme === 'dark' ? 'light' : 'dark'));
   };
 
+  // The reboot log stays: the device's auto-reboot policy still counts those reboots.
   const handleClearHistory = () => {
     setResetHistory([]);
   };
 
   const handleDeviceEvent = useCallback((deviceId: string, eventType: string, timestamp: Date) => {
     const isoTimestamp = timestamp.toISOString();
+    setRebootLog(prev => addRebootEvent(prev, deviceId, eventType, timestamp.getTime()));
     
     // HISTORY DEDUPLICATION:
     setResetHistory(prevHistory => {
@@ -51,8 +71,14 @@ const App: React.FC = () => {
             entry.timestamp === isoTimestamp &&
             entry.eventType === eventType
         );
+        // Held-back auto-reboots repeat on every failed check; one per interval is enough.
+        const repeatedSuppression = isSuppressionEvent(eventType) && prevHistory.some(entry =>
+            entry.deviceId === deviceId &&
+            entry.eventType === eventType &&
+            Math.abs(timestamp.getTime() - new Date(entry.timestamp).getTime()) < SUPPRESSION_LOG_INTERVAL_MS
+        );
         
-        if (exists) {
+        if (exists || repeatedSuppression) {
             return prevHistory;
         }
 
@@ -68,7 +94,7 @@ const App: React.FC = () => {
         };
         return [newEntry, ...prevHistory].slice(0, 100);
     });
-  }, [devices, setResetHistory]);
+  }, [devices, setResetHistory, setRebootLog]);
 
   const handleDeviceSeen = useCallback((deviceId: string, timestamp: Date) => {
     setDevices(prevDevices =>
@@ -81,7 +107,13 @@ const App: React.FC = () => {
   const handleDeviceAction = useCallback((deviceId: string, action: string, timestamp: Date) => {
     setDevices(prevDevices =>
       prevDevices.map(d =>
-        d.device_id === deviceId ? { ...d, lastAction: action, lastActionTime: timestamp.toISOString() } : d
+        d.device_id === deviceId ? {
+          ...d,
+          lastAction: action,
+          lastActionTime: timestamp.toISOString(),
+          ...(action === 'Power Off' ? { isPoweredOff: true } : {}),
+          ...(action === 'Power On' ? { isPoweredOff: false, powerOnAt: undefined } : {}),
+        } : d
       )
     );
   }, [setDevices]);
@@ -94,14 +126,35 @@ const App: React.FC = () => {
     );
   }, [setDevices]);
   
-  const { statuses, publish } = useMqttManager({ 
+  const { pingHistory, recordPing, saveError: pingHistorySaveError } = usePingHistory(devices.map(d => d.device_id));
+
+  const handleFirmwareEvent = useCallback((deviceId: string, event: FirmwareEvent, context: FirmwareEventContext) => {
+    setFirmwareHistory(prev => applyFirmwareEvent(prev, deviceId, event, context));
+  }, [setFirmwareHistory]);
+  
+  const { statuses, commands, sendCommand, queues, queueCommand } = useMqttManager({ 
     devices: devices, 
     onDeviceEvent: handleDeviceEvent,
     onSchedulesCleared: handleSchedulesCleared,
     onDeviceSeen: handleDeviceSeen,
     onDeviceAction: handleDeviceAction,
+    onFirmwareEvent: handleFirmwareEvent,
+    onPingSample: recordPing,
   });
 
+  const { rollout, startRollout, haltRollout, resumeRollout, cancelRollout, dismissRollout } = useFirmwareRollout({ statuses, commands, sendCommand });
+
+  const { preferences: notificationPreferences, setPreferences: setNotificationPreferences, permission: notificationPermission, requestPermission } = useNotifications({
+    devices,
+    statuses,
+    onOpenDevice: setSelectedDeviceId,
+  });
+
+  const { rules: alertRules, setRules: setAlertRules, alerts, clearResolved: clearResolvedAlerts } = useAlerts({ devices, statuses, rebootLog, pingHistory });
+  const activeAlertCount = alerts.filter(a => a.state === 'firing').length;
+
+  const { webhooks, setWebhooks, deliveries: webhookDeliveries, sendTest: sendTestWebhook, retry: retryWebhookDelivery, clearLog: clearWebhookLog } = useWebhooks({ devices, statuses, alerts, alertRules });
+
   const selectedDevice = useMemo(() => {
     return devices.find(d => d.device_id === selectedDeviceId) || null;
   }, [devices, selectedDeviceId]);
@@ -116,6 +169,7 @@ const App: React.FC = () => {
   
   const deleteDevice = (deviceId: string) => {
     setDevices(prevDevices => prevDevices.filter(d => d.device_id !== deviceId));
+    setRebootLog(prev => pruneRebootLog(prev, devices.map(d => d.device_id).filter(id => id !== deviceId)));
     if (selectedDeviceId === deviceId) {
         setSelectedDeviceId(null);
     }
@@ -147,26 +201,34 @@ const App: React.FC = () => {
     );
   };
   
-  // Adds a schedule to ALL devices
-  const handleBulkAddSchedule = (scheduleTemplate: Omit<Schedule, 'id'>) => {
+  // Adds a schedule to each of the given devices; each gets its own copy
+  // (with the id already sent to that device)
+  const handleBulkAddSchedule = (schedulesByDevice: { [deviceId: string]: Schedule }) => {
     setDevices(prevDevices =>
-      prevDevices.map(d => ({
-        ...d,
-        schedules: [...d.schedules, { 
-            ...scheduleTemplate, 
-            id: Date.now().toString() + Math.random().toString(36).substr(2, 9) 
-        }]
-      }))
+      prevDevices.map(d => schedulesByDevice[d.device_id]
+        ? { ...d, schedules: [...d.schedules, schedulesByDevice[d.device_id]] }
+        : d
+      )
     );
   };
 
-  // Clears schedules from ALL devices
-  const handleBulkClearSchedules = () => {
+  // Replaces the full schedule list of several devices at once (template apply/edit)
+  const handleSetDeviceSchedules = (schedulesByDevice: { [deviceId: string]: Schedule[] }) => {
     setDevices(prevDevices =>
-      prevDevices.map(d => ({
-        ...d,
-        schedules: []
-      }))
+      prevDevices.map(d => schedulesByDevice[d.device_id] ? { ...d, schedules: schedulesByDevice[d.device_id] } : d)
+    );
+  };
+
+  // Clears schedules from the given devices
+  const handleBulkClearSchedules = (deviceIds: string[]) => {
+    setDevices(prevDevices =>
+      prevDevices.map(d => deviceIds.includes(d.device_id) ? { ...d, schedules: [] } : d)
+    );
+  };
+
+  const handleTagDevices = (deviceIds: string[], tag: string) => {
+    setDevices(prevDevices =>
+      prevDevices.map(d => deviceIds.includes(d.device_id) ? { ...d, tags: addTag(d.tags, tag) } : d)
     );
   };
 
@@ -174,7 +236,7 @@ const App: React.FC = () => {
   const onlineDevices = Object.values(statuses).filter((s: DeviceMqttState) => s.status === 'online').length;
 
   return (
-    <MqttContext.Provider value={{ statuses, publish }}>
+    <MqttContext.Provider value={{ statuses, commands, sendCommand, queues, queueCommand }}>
       
       {/* Splash Screen - conditionally rendered */}
       {showSplash && <SplashScreen onFinish={() => setShowSplash(false)} />}
@@ -186,19 +248,36 @@ const App: React.FC = () => {
         onClearHistory={handleClearHistory}
         theme={theme}
         onThemeChange={handleThemeChange}
+        onOpenNotifications={() => { setMenuOpen(false); setNotificationSettingsOpen(true); }}
+        onOpenAlerts={() => { setMenuOpen(false); setAlertsOpen(true); }}
+        onOpenIntegrations={() => { setMenuOpen(false); setIntegrationsOpen(true); }}
+        alertCount={activeAlertCount}
       />
       <div className="min-h-screen bg-white dark:bg-gray-900 text-gray-900 dark:text-white flex flex-col transition-colors duration-200">
         <Header 
           title={selectedDevice ? selectedDevice.custom_name : "Remote Rebooter Dashboard"} 
           onBack={selectedDevice ? () => setSelectedDeviceId(null) : undefined}
           onMenuClick={!selectedDevice ? () => setMenuOpen(true) : undefined}
+          alertCount={activeAlertCount}
+          onAlertsClick={() => setAlertsOpen(true)}
         />
+        {pingHistorySaveError && (
+          <div className="px-4 py-2 bg-red-50 dark:bg-red-900/20 border-b border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+            {pingHistorySaveError}
+          </div>
+        )}
         <main className="flex-grow">
           {selectedDevice ? (
             <DevicePanel 
               device={selectedDevice} 
               onUpdateSchedules={updateDeviceSchedules}
               onUpdateConfig={updateDeviceConfig}
+              scheduleTemplates={scheduleTemplates}
+              firmwareHistory={deviceFirmwareHistory(firmwareHistory, selectedDevice.device_id)}
+              pingHistory={pingHistory[selectedDevice.device_id] || []}
+              rebootLog={rebootLog[selectedDevice.device_id]}
+              notificationPreferences={notificationPreferences}
+              onNotificationPreferencesChange={setNotificationPreferences}
             />
           ) : (
             <DeviceList 
@@ -208,11 +287,22 @@ const App: React.FC = () => {
               onRenameDevice={handleRenameDevice}
               onBulkAddSchedule={handleBulkAddSchedule}
               onBulkClearSchedules={handleBulkClearSchedules}
+              scheduleTemplates={scheduleTemplates}
+              onScheduleTemplatesChange={setScheduleTemplates}
+              onSetDeviceSchedules={handleSetDeviceSchedules}
+              onTagDevices={handleTagDevices}
+              rollout={rollout}
+              onStartRollout={startRollout}
+              onHaltRollout={haltRollout}
+              onResumeRollout={resumeRollout}
+              onCancelRollout={cancelRollout}
+              onDismissRollout={dismissRollout}
               totalDevices={totalDevices}
               onlineDevices={onlineDevices}
               onAddDeviceClick={() => setAddModalOpen(true)}
               history={resetHistory}
               statuses={statuses}
+              pingHistory={pingHistory}
             />
           )}
         </main>
@@ -234,6 +324,42 @@ const App: React.FC = () => {
           />
         )}
         
+        {isNotificationSettingsOpen && (
+          <NotificationSettings
+            preferences={notificationPreferences}
+            onPreferencesChange={setNotificationPreferences}
+            permission={notificationPermission}
+            onRequestPermission={requestPermission}
+            devices={devices}
+            onClose={() => setNotificationSettingsOpen(false)}
+          />
+        )}
+
+        {isAlertsOpen && (
+          <AlertsPanel
+            alerts={alerts}
+            rules={alertRules}
+            devices={devices}
+            onRulesChange={setAlertRules}
+            onClearResolved={clearResolvedAlerts}
+            onSelectDevice={deviceId => { setAlertsOpen(false); setSelectedDeviceId(deviceId); }}
+            onClose={() => setAlertsOpen(false)}
+          />
+        )}
+
+        {isIntegrationsOpen && (
+          <IntegrationsSettings
+            webhooks={webhooks}
+            deliveries={webhookDeliveries}
+            devices={devices}
+            onWebhooksChange={setWebhooks}
+            onSendTest={sendTestWebhook}
+            onRetry={retryWebhookDelivery}
+            onClearLog={clearWebhookLog}
+            onClose={() => setIntegrationsOpen(false)}
+          />
+        )}
+
         {/* PWA Install Prompt - Always last to sit on top */}
         <InstallPrompt />
       </div>
@@ -3,6 +3,10 @@ import type { Device, DeviceCredentials } from '../types';
 import { QrCodeIcon, CheckCircleIcon } from './icons';
 import jsQR from 'jsqr';
 import CryptoJS from 'crypto-js';
+import { parseTransport } from '../services/mqttTransport';
+import { isValidTimeZone } from '../services/timezone';
+import { normalizeFirmwareSource } from '../services/firmwareSource';
+import { parseTags } from '../services/deviceGroups';
 
 interface AddDeviceModalProps {
   onClose: () => void;
@@ -257,8 +261,42 @@ const AddDeviceModal: React.FC<AddDeviceModalProps> = ({ onClose, onAddDevice })
         }
       }
 
+      // 4. Optional broker transport (scheme/port/path) for self-hosted brokers
+      const transport = parseTransport(parsedData);
+      const port = Number(parsedData.port);
+      if (transport && !(port > 0 && port <= 65535)) {
+          throw new Error('QR code specifies a transport but no valid port.');
+      }
+
+      // 5. Optional IANA timezone the device's schedules run in
+      const timezone = parsedData.timezone || parsedData.tz;
+      if (timezone !== undefined && (typeof timezone !== 'string' || !isValidTimeZone(timezone))) {
+          throw new Error(`QR code has an unknown timezone "${timezone}".`);
+      }
+
+      // 6. Optional groups, as a list or comma-separated string
+      const tags = Array.isArray(parsedData.tags) ? parseTags(parsedData.tags.join(',')) : typeof parsedData.tags === 'string' ? parseTags(parsedData.tags) : [];
+
+      // 7. Optional firmware source (GitHub repo or manifest URL) and board revision
+      const rawSource = parsedData.firmwareRepo || parsedData.firmware_repo || parsedData.firmwareManifest;
+      const firmwareRepo = rawSource === undefined ? undefined : typeof rawSource === 'string' ? normalizeFirmwareSource(rawSource) : null;
+      if (firmwareRepo === null) {
+          throw new Error(`QR code has an invalid firmware source "${rawSource}".`);
+      }
+      const rawRevision = parsedData.hardwareRevision ?? parsedData.hw;
+      const hardwareRevision = rawRevision === undefined ? undefined : Number(rawRevision);
+      if (hardwareRevision !== undefined && !(Number.isInteger(hardwareRevision) && hardwareRevision >= 0)) {
+          throw new Error(`QR code has an invalid hardware revision "${rawRevision}".`);
+      }
+
       const newDevice: Device = {
         ...credentials,
+        port,
+        transport,
+        timezone,
+        tags: tags.length > 0 ? tags : undefined,
+        firmwareRepo,
+        hardwareRevision,
         custom_name: customName.trim(),
         schedules: [],
         lastAction: initLastAction,
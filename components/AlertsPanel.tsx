@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import type { AlertRecord, AlertRule, AlertRuleKind, Device } from '../types';
+import { AlertIcon, EditIcon, PlusIcon, TrashIcon, XIcon } from './icons';
+import { ALERT_RULE_KINDS, createAlertRule, describeAlertRule, validateAlertRule } from '../services/alertRules';
+import { collectTags } from '../services/deviceGroups';
+
+interface AlertsPanelProps {
+  alerts: AlertRecord[];
+  rules: AlertRule[];
+  devices: Device[];
+  onRulesChange: (rules: AlertRule[]) => void;
+  onClearResolved: () => void;
+  onSelectDevice: (deviceId: string) => void;
+  onClose: () => void;
+}
+
+type Tab = 'active' | 'history' | 'rules';
+
+const inputClass = "w-full bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md px-3 py-1.5 text-sm";
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const formatSpan = (from: string, to?: string) => {
+  const minutes = Math.round(((to ? new Date(to).getTime() : Date.now()) - new Date(from).getTime()) / 60000);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const AlertsPanel: React.FC<AlertsPanelProps> = ({ alerts, rules, devices, onRulesChange, onClearResolved, onSelectDevice, onClose }) => {
+  const firing = alerts.filter(a => a.state === 'firing');
+  const [tab, setTab] = useState<Tab>(rules.length === 0 ? 'rules' : 'active');
+  const [draft, setDraft] = useState<AlertRule | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const tags = collectTags(devices);
+  const ruleName = (ruleId: string) => rules.find(r => r.id === ruleId)?.name || 'Deleted rule';
+  const deviceName = (deviceId: string) => devices.find(d => d.device_id === deviceId)?.custom_name || deviceId;
+
+  const updateDraft = (changes: Partial<AlertRule>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+    setFormError(null);
+  };
+
+  const numberField = (key: 'minutes' | 'count' | 'hours' | 'threshold', label: string) => (
+    <div>
+      <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">{label}</label>
+      <input type="number" min={1} value={draft?.[key] ?? ''} onChange={e => updateDraft({ [key]: parseInt(e.target.value) || 0 })} className={inputClass} />
+    </div>
+  );
+
+  const handleSaveRule = () => {
+    if (!draft) return;
+    const rule = { ...draft, name: draft.name.trim(), version: draft.version?.trim() };
+    const error = validateAlertRule(rule);
+    if (error) {
+      setFormError(error);
+      return;
+    }
+    onRulesChange(rules.some(r => r.id === rule.id) ? rules.map(r => (r.id === rule.id ? rule : r)) : [...rules, rule]);
+    setDraft(null);
+  };
+
+  const handleDeleteRule = (rule: AlertRule) => {
+    if (window.confirm(`Delete the rule "${rule.name}"? Its active alerts will be resolved.`)) {
+      onRulesChange(rules.filter(r => r.id !== rule.id));
+    }
+  };
+
+  const renderAlert = (alert: AlertRecord) => (
+    <li key={alert.id} className="p-3 rounded-md bg-gray-100 dark:bg-gray-700">
+      <div className="flex justify-between items-start gap-2">
+        <button onClick={() => onSelectDevice(alert.deviceId)} className="font-semibold text-left hover:underline truncate">
+          {deviceName(alert.deviceId)}
+        </button>
+        <span className={`text-xs px-2 py-0.5 rounded-full shrink-0 ${alert.state === 'firing' ? 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300' : 'bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-300'}`}>
+          {alert.state === 'firing' ? 'Firing' : 'Resolved'}
+        </span>
+      </div>
+      <p className="text-sm text-gray-700 dark:text-gray-300">{ruleName(alert.ruleId)} · {alert.detail}</p>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+        {alert.resolvedAt
+          ? `${formatTime(alert.firedAt)} – ${formatTime(alert.resolvedAt)} (${formatSpan(alert.firedAt, alert.resolvedAt)})`
+          : `Since ${formatTime(alert.firedAt)} (${formatSpan(alert.firedAt)})`}
+      </p>
+    </li>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md flex flex-col max-h-[80vh] text-gray-900 dark:text-white">
+        <header className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+          <h3 className="text-lg font-bold flex items-center">
+            <AlertIcon className="mr-2" /> Alerts
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-white">
+            <XIcon />
+          </button>
+        </header>
+        <div className="flex border-b border-gray-200 dark:border-gray-700 text-sm">
+          {(['active', 'history', 'rules'] as Tab[]).map(t => (
+            <button
+              key={t}
+              onClick={() => { setTab(t); setDraft(null); }}
+              className={`flex-1 py-2 capitalize ${tab === t ? 'border-b-2 border-blue-600 font-semibold text-blue-600 dark:text-blue-400' : 'text-gray-500 dark:text-gray-400'}`}
+            >
+              {t === 'active' ? `Active (${firing.length})` : t}
+            </button>
+          ))}
+        </div>
+
+        <div className="p-4 overflow-y-auto">
+          {tab === 'active' && (
+            firing.length === 0 ? (
+              <p className="text-center text-gray-500 dark:text-gray-400 py-8">
+                {rules.length === 0 ? 'No alert rules yet. Add one under Rules.' : 'All clear.'}
+              </p>
+            ) : (
+              <ul className="space-y-2">{firing.map(renderAlert)}</ul>
+            )
+          )}
+
+          {tab === 'history' && (
+            alerts.length === 0 ? (
+              <p className="text-center text-gray-500 dark:text-gray-400 py-8">No alerts recorded yet.</p>
+            ) : (
+              <>
+                <ul className="space-y-2">{alerts.map(renderAlert)}</ul>
+                {alerts.some(a => a.state === 'resolved') && (
+                  <button onClick={onClearResolved} className="w-full mt-4 px-4 py-2 text-sm rounded-md bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600">
+                    Clear Resolved
+                  </button>
+                )}
+              </>
+            )
+          )}
+
+          {tab === 'rules' && !draft && (
+            <div className="space-y-2">
+              {rules.map(rule => (
+                <div key={rule.id} className="p-3 border border-gray-200 dark:border-gray-700 rounded-md flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className={`font-semibold truncate ${!rule.enabled ? 'opacity-50' : ''}`}>{rule.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{describeAlertRule(rule)}</p>
+                  </div>
+                  <div className="flex items-center shrink-0">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={() => onRulesChange(rules.map(r => (r.id === rule.id ? { ...r, enabled: !r.enabled } : r)))}
+                      className="h-4 w-4 mr-2 rounded"
+                      aria-label={`Enable ${rule.name}`}
+                    />
+                    <button onClick={() => { setDraft(rule); setFormError(null); }} className="p-1.5 text-gray-500 hover:text-blue-600 dark:text-gray-400" aria-label="Edit rule">
+                      <EditIcon className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleDeleteRule(rule)} className="p-1.5 text-gray-500 hover:text-red-600 dark:text-gray-400" aria-label="Delete rule">
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+              <p className="text-sm font-semibold pt-2">Add a rule</p>
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(ALERT_RULE_KINDS) as AlertRuleKind[]).map(kind => (
+                  <button
+                    key={kind}
+                    onClick={() => { setDraft(createAlertRule(kind)); setFormError(null); }}
+                    className="flex items-center justify-center px-3 py-2 text-sm rounded-md border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  >
+                    <PlusIcon className="w-4 h-4 mr-1" /> {ALERT_RULE_KINDS[kind]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {tab === 'rules' && draft && (
+            <div className="space-y-3">
+              <p className="text-sm font-semibold">{ALERT_RULE_KINDS[draft.kind]}</p>
+              <div>
+                <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Name</label>
+                <input type="text" value={draft.name} onChange={e => updateDraft({ name: e.target.value })} className={inputClass} />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                {draft.kind === 'offline' && numberField('minutes', 'Offline for more than (min)')}
+                {draft.kind === 'reboots' && numberField('count', 'More than (reboots)')}
+                {draft.kind === 'reboots' && numberField('hours', 'Within (hours)')}
+                {draft.kind === 'ping' && numberField('threshold', 'Ping above (ms)')}
+                {draft.kind === 'ping' && numberField('minutes', 'For (min)')}
+                {draft.kind === 'firmware' && (
+                  <div>
+                    <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Older than version</label>
+                    <input type="text" value={draft.version || ''} onChange={e => updateDraft({ version: e.target.value })} placeholder="1.4.0" className={`${inputClass} font-mono`} />
+                  </div>
+                )}
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Devices</label>
+                <select value={draft.tag || ''} onChange={e => updateDraft({ tag: e.target.value || undefined })} className={inputClass}>
+                  <option value="">All devices</option>
+                  {draft.tag && !tags.includes(draft.tag) && <option value={draft.tag}>{draft.tag}</option>}
+                  {tags.map(tag => <option key={tag} value={tag}>Group: {tag}</option>)}
+                </select>
+              </div>
+              {formError && <p className="text-xs text-red-500">{formError}</p>}
+              <div className="flex gap-2 pt-1">
+                <button onClick={() => setDraft(null)} className="flex-1 px-4 py-2 text-sm rounded-md bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600">
+                  Cancel
+                </button>
+                <button onClick={handleSaveRule} className="flex-1 px-4 py-2 text-sm font-semibold rounded-md bg-blue-600 text-white hover:bg-blue-500">
+                  Save Rule
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AlertsPanel;
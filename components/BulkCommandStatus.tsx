@@ -0,0 +1,82 @@
+import React, { useContext, useState } from 'react';
+import type { Device } from '../types';
+import MqttContext from '../contexts/MqttContext';
+import CommandStatus from './CommandStatus';
+import { XIcon } from './icons';
+
+export interface BulkOperation {
+  label: string;
+  commandIds: string[];
+  queued?: number; // offline devices that will receive it on reconnect
+  skipped?: number; // invalid schedules left out of the payloads
+}
+
+interface BulkCommandStatusProps {
+  operation: BulkOperation;
+  devices: Device[];
+  onDismiss: () => void;
+}
+
+const BulkCommandStatus: React.FC<BulkCommandStatusProps> = ({ operation, devices, onDismiss }) => {
+  const { commands } = useContext(MqttContext);
+  const [showDetails, setShowDetails] = useState(false);
+
+  const tracked = operation.commandIds.map(id => commands[id]).filter(Boolean);
+  const count = (state: string) => tracked.filter(c => c.state === state).length;
+  const pending = count('pending');
+  const acknowledged = count('acknowledged');
+  const unconfirmed = count('unconfirmed');
+  const failed = count('failed') + count('timed_out');
+
+  const deviceName = (deviceId: string) => devices.find(d => d.device_id === deviceId)?.custom_name || deviceId;
+
+  return (
+    <div className="mb-6 bg-white dark:bg-gray-800 rounded-lg shadow-md p-4">
+      <div className="flex justify-between items-start">
+        <div>
+          <p className="font-semibold text-gray-900 dark:text-white">{operation.label}</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {tracked.length === 0 ? (operation.queued ? '' : 'No devices were targeted.') : (
+              <>
+                <span className="text-green-600 dark:text-green-400">{acknowledged} confirmed</span>
+                {' · '}
+                {unconfirmed > 0 && <span>{unconfirmed} sent unconfirmed · </span>}
+                <span className="text-blue-600 dark:text-blue-400">{pending} pending</span>
+                {' · '}
+                <span className="text-red-500 dark:text-red-400">{failed} failed</span>
+              </>
+            )}
+            {!!operation.queued && (
+              <span className="text-yellow-600 dark:text-yellow-400">{tracked.length > 0 && ' · '}{operation.queued} queued until online</span>
+            )}
+            {!!operation.skipped && (
+              <span className="text-red-500 dark:text-red-400">{(tracked.length > 0 || !!operation.queued) && ' · '}{operation.skipped} invalid schedule{operation.skipped === 1 ? '' : 's'} not sent</span>
+            )}
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          {tracked.length > 0 && (
+            <button onClick={() => setShowDetails(prev => !prev)} className="text-xs text-blue-600 dark:text-blue-400 hover:underline">
+              {showDetails ? 'Hide' : 'Details'}
+            </button>
+          )}
+          <button onClick={onDismiss} className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-white" aria-label="Dismiss">
+            <XIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+      {showDetails && (
+        <ul className="mt-3 space-y-1 max-h-48 overflow-y-auto">
+          {tracked.map(command => (
+            <li key={command.id} className="flex justify-between items-center text-sm">
+              <span className="truncate mr-2 text-gray-700 dark:text-gray-300">{deviceName(command.deviceId)}</span>
+              <CommandStatus command={command} successText="Confirmed" className="shrink-0" />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default BulkCommandStatus;
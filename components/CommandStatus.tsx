@@ -0,0 +1,50 @@
+import React from 'react';
+import type { TrackedCommand } from '../services/commandTracker';
+import { ClockIcon, CheckCircleIcon } from './icons';
+
+interface CommandStatusProps {
+  command: TrackedCommand | null;
+  successText?: string;
+  className?: string;
+}
+
+const CommandStatus: React.FC<CommandStatusProps> = ({ command, successText = 'Confirmed by device', className = '' }) => {
+  if (!command) return null;
+
+  if (command.state === 'pending') {
+    const retrying = command.attempts > 1 ? ` (attempt ${command.attempts}/${command.policy.maxAttempts})` : '';
+    return (
+      <p className={`text-xs text-blue-600 dark:text-blue-400 flex items-center ${className}`}>
+        <ClockIcon className="w-3.5 h-3.5 mr-1 animate-spin" />
+        Waiting for device{retrying}...
+      </p>
+    );
+  }
+
+  if (command.state === 'acknowledged') {
+    return (
+      <p className={`text-xs text-green-600 dark:text-green-400 flex items-center ${className}`}>
+        <CheckCircleIcon className="w-3.5 h-3.5 mr-1" />
+        {successText}
+      </p>
+    );
+  }
+
+  if (command.state === 'unconfirmed') {
+    return (
+      <p className={`text-xs text-gray-500 dark:text-gray-400 flex items-center ${className}`}>
+        <CheckCircleIcon className="w-3.5 h-3.5 mr-1" />
+        Sent (this firmware does not confirm)
+      </p>
+    );
+  }
+
+  const label = command.state === 'timed_out' ? 'Timed out' : 'Failed';
+  return (
+    <p className={`text-xs text-red-500 dark:text-red-400 ${className}`}>
+      {label}: {command.error || 'Unknown error.'}
+    </p>
+  );
+};
+
+export default CommandStatus;
@@ -5,6 +5,7 @@ interface ConfirmModalProps {
   isOpen: boolean;
   title: string;
   message: string;
+  details?: string[]; // e.g. the devices an action will affect
   confirmLabel?: string;
   cancelLabel?: string;
   onConfirm: () => void;
@@ -16,6 +17,7 @@ const ConfirmModal: React.FC<ConfirmModalProps> = ({
   isOpen,
   title,
   message,
+  details,
   confirmLabel = "Confirm",
   cancelLabel = "Cancel",
   onConfirm,
@@ -59,6 +61,11 @@ const ConfirmModal: React.FC<ConfirmModalProps> = ({
         <p className="text-gray-600 dark:text-gray-300 mb-6 leading-relaxed">
           {message}
         </p>
+        {details && details.length > 0 && (
+          <ul className="-mt-3 mb-6 max-h-40 overflow-y-auto rounded-lg bg-gray-50 dark:bg-gray-900/50 border border-gray-200 dark:border-gray-700 px-3 py-2 text-sm text-gray-700 dark:text-gray-300 space-y-0.5">
+            {details.map((detail, i) => <li key={i} className="truncate">{detail}</li>)}
+          </ul>
+        )}
         
         <div className="flex justify-end space-x-3">
           <button
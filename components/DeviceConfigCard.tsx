@@ -0,0 +1,208 @@
+import React, { useState, useEffect } from 'react';
+import type { DeviceConfig } from '../types';
+import type { TrackedCommand } from '../services/commandTracker';
+import { DEVICE_CONFIG_LABELS, diffDeviceConfig, formatConfigValue, validateDeviceConfig } from '../services/deviceConfig';
+import type { PolicyStatus } from '../services/rebootPolicy';
+import { SUPPRESS_LABELS } from '../services/rebootPolicy';
+import CommandStatus from './CommandStatus';
+import { SettingsIcon } from './icons';
+
+interface DeviceConfigCardProps {
+  config: DeviceConfig; // the app's values
+  reportedConfig?: Partial<DeviceConfig> | null; // last config/state from the device
+  saveCommand: TrackedCommand | null;
+  readCommand: TrackedCommand | null;
+  canRead: boolean;
+  policy: PolicyStatus; // what the policy would do right now
+  timezone?: string; // quiet hours are in the device's timezone
+  onSave: (config: DeviceConfig) => void; // stores and publishes
+  onAdopt: (config: DeviceConfig) => void; // stores only
+  onRead: () => void;
+}
+
+const inputClass = "w-full bg-white dark:bg-gray-600 border border-gray-300 dark:border-gray-500 rounded-md px-3 py-2 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const DeviceConfigCard: React.FC<DeviceConfigCardProps> = ({ config, reportedConfig, saveCommand, readCommand, canRead, policy, timezone, onSave, onAdopt, onRead }) => {
+  const [draft, setDraft] = useState<DeviceConfig>(config);
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow saved values (another device selected, or device values adopted).
+  const configKey = JSON.stringify(config);
+  useEffect(() => {
+    setDraft(config);
+    setError(null);
+  }, [configKey]);
+
+  const isDirty = JSON.stringify(draft) !== configKey;
+  // While a save is in flight the last report still shows the old values.
+  const showComparison = !!reportedConfig && saveCommand?.state !== 'pending';
+  const mismatches = reportedConfig ? diffDeviceConfig(config, reportedConfig) : [];
+
+  const update = <K extends keyof DeviceConfig>(key: K, value: DeviceConfig[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+    setError(null);
+  };
+
+  const save = (next: DeviceConfig) => {
+    const validation = validateDeviceConfig(next);
+    if (validation) {
+      setError(validation);
+      return;
+    }
+    onSave({ ...next, pingTarget: next.pingTarget.trim() });
+  };
+
+  // The toggle takes effect right away, like before; the other fields wait for Save.
+  const handleToggle = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const next = { ...draft, autoPingReboot: e.target.checked };
+    setDraft(next);
+    save(next);
+  };
+
+  const formatTime = (ms: number) => new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const nextAction = policy.action === 'disabled' ? 'Auto-reboot is off'
+    : policy.action === 'suppressed' ? `Held back: ${SUPPRESS_LABELS[policy.suppressedBy!]}${policy.suppressedBy === 'cooldown' && policy.cooldownUntil ? ` until ${formatTime(policy.cooldownUntil)}` : ''}`
+    : policy.action === 'power_cycle' ? `Next: power cycle for ${config.powerCycleMinutes} min`
+    : 'Next: reboot';
+
+  const adoptDeviceValues = () => {
+    if (reportedConfig) onAdopt({ ...config, ...reportedConfig });
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-4">
+      <h3 className="text-lg font-bold flex items-center mb-4 text-gray-800 dark:text-white">
+        <SettingsIcon className="mr-2" /> Auto-Reboot by Ping configuration
+      </h3>
+      <div className="bg-gray-50 dark:bg-gray-700/50 p-4 rounded-md space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="font-semibold text-sm text-gray-700 dark:text-gray-200">Reboot on High Ping</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">Automatically reboot if ping exceeds threshold.</p>
+            <CommandStatus command={saveCommand} successText="Settings applied on device" className="mt-1" />
+          </div>
+          <label className="relative inline-flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.autoPingReboot}
+              onChange={handleToggle}
+              className="sr-only peer"
+            />
+            <div className="w-11 h-6 bg-gray-200 dark:bg-gray-600 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+          </label>
+        </div>
+
+        <div className={`grid grid-cols-2 gap-3 ${!draft.autoPingReboot ? 'opacity-50' : ''}`}>
+          <div>
+            <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">{DEVICE_CONFIG_LABELS.pingThreshold}</label>
+            <input type="number" min={10} value={draft.pingThreshold} onChange={e => update('pingThreshold', parseInt(e.target.value) || 0)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">{DEVICE_CONFIG_LABELS.pingTarget}</label>
+            <input type="text" value={draft.pingTarget} onChange={e => update('pingTarget', e.target.value)} placeholder="8.8.8.8" className={`${inputClass} font-mono`} />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">{DEVICE_CONFIG_LABELS.rebootCooldownMinutes}</label>
+            <input type="number" min={0} value={draft.rebootCooldownMinutes} onChange={e => update('rebootCooldownMinutes', parseInt(e.target.value) || 0)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">{DEVICE_CONFIG_LABELS.maxRebootsPerDay}</label>
+            <input type="number" min={1} value={draft.maxRebootsPerDay} onChange={e => update('maxRebootsPerDay', parseInt(e.target.value) || 0)} className={inputClass} />
+          </div>
+        </div>
+
+        <div className={`${!draft.autoPingReboot ? 'opacity-50' : ''}`}>
+          <p className="font-semibold text-sm text-gray-700 dark:text-gray-200 mb-2">Policy</p>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">{DEVICE_CONFIG_LABELS.failuresBeforeReboot}</label>
+              <input type="number" min={1} value={draft.failuresBeforeReboot} onChange={e => update('failuresBeforeReboot', parseInt(e.target.value) || 0)} className={inputClass} />
+            </div>
+            <div />
+            <div>
+              <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">{DEVICE_CONFIG_LABELS.quietHoursStart}</label>
+              <input type="time" value={draft.quietHoursStart} onChange={e => update('quietHoursStart', e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">{DEVICE_CONFIG_LABELS.quietHoursEnd}</label>
+              <input type="time" value={draft.quietHoursEnd} onChange={e => update('quietHoursEnd', e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">{DEVICE_CONFIG_LABELS.escalateAfterReboots}</label>
+              <input type="number" min={0} value={draft.escalateAfterReboots} onChange={e => update('escalateAfterReboots', parseInt(e.target.value) || 0)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">{DEVICE_CONFIG_LABELS.powerCycleMinutes}</label>
+              <input type="number" min={1} value={draft.powerCycleMinutes} disabled={draft.escalateAfterReboots === 0} onChange={e => update('powerCycleMinutes', parseInt(e.target.value) || 0)} className={`${inputClass} disabled:opacity-50`} />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+            No auto-reboots during quiet hours ({timezone || 'device time'}). Set "Power cycle after reboots" to 0 to never escalate.
+          </p>
+        </div>
+
+        <div className="text-xs text-gray-600 dark:text-gray-300 flex flex-wrap gap-x-4 gap-y-1 border-t border-gray-200 dark:border-gray-600 pt-3">
+          <span className="font-semibold">{nextAction}</span>
+          <span>Last 24h: {policy.rebootsToday}/{config.maxRebootsPerDay}</span>
+          {policy.streak > 0 && <span>In a row: {policy.streak}{config.escalateAfterReboots > 0 ? `/${config.escalateAfterReboots}` : ''}</span>}
+        </div>
+
+        {error && <p className="text-xs text-red-500">{error}</p>}
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => save(draft)}
+            disabled={!isDirty}
+            className="flex-1 px-4 py-2 rounded-md text-sm font-semibold bg-blue-600 text-white hover:bg-blue-500 shadow-sm transition-colors disabled:opacity-50"
+          >
+            Save & Send
+          </button>
+          <button
+            onClick={onRead}
+            disabled={!canRead || readCommand?.state === 'pending'}
+            className="flex-1 px-4 py-2 rounded-md text-sm border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+          >
+            Read from Device
+          </button>
+        </div>
+        <CommandStatus command={readCommand} successText="Device settings received" />
+
+        {showComparison && (mismatches.length === 0 ? (
+          <p className="text-xs text-green-600 dark:text-green-400">Device settings match the app.</p>
+        ) : (
+          <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md text-sm text-yellow-800 dark:text-yellow-200">
+            <p className="font-semibold mb-2">Device settings differ from the app</p>
+            <div className="grid grid-cols-3 gap-x-2 text-xs">
+              <span className="font-bold uppercase opacity-70">Setting</span>
+              <span className="font-bold uppercase opacity-70">App</span>
+              <span className="font-bold uppercase opacity-70">Device</span>
+              {mismatches.map(m => (
+                <React.Fragment key={m.key}>
+                  <span>{DEVICE_CONFIG_LABELS[m.key]}</span>
+                  <span className="font-mono">{formatConfigValue(m.local)}</span>
+                  <span className="font-mono">{formatConfigValue(m.device)}</span>
+                </React.Fragment>
+              ))}
+            </div>
+            <div className="flex gap-2 mt-3">
+              <button
+                onClick={adoptDeviceValues}
+                className="flex-1 px-3 py-1.5 text-xs font-semibold rounded-md bg-white dark:bg-gray-800 border border-yellow-300 dark:border-yellow-700 hover:bg-yellow-100 dark:hover:bg-gray-700"
+              >
+                Use Device Values
+              </button>
+              <button
+                onClick={() => onSave(config)}
+                className="flex-1 px-3 py-1.5 text-xs font-semibold rounded-md bg-blue-600 text-white hover:bg-blue-500"
+              >
+                Push App Values
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DeviceConfigCard;
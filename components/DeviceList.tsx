@@ -1,10 +1,22 @@
 
 import React, { useState, useContext } from 'react';
-import type { Device, ResetHistoryEntry, Schedule } from '../types';
+import type { Device, ResetHistoryEntry, Schedule, ScheduleTemplate } from '../types';
 import DeviceListItem from './DeviceListItem';
 import { PlusIcon, SearchIcon, DownloadIcon, XIcon, CheckCircleIcon, CloudIcon, PowerIcon, ClockIcon, TrashIcon } from './icons';
 import type { DeviceMqttState } from '../hooks/useMqttManager';
 import MqttContext from '../contexts/MqttContext';
+import BulkCommandStatus, { type BulkOperation } from './BulkCommandStatus';
+import ScheduleTemplateLibrary from './ScheduleTemplateLibrary';
+import ConfirmModal from './ConfirmModal';
+import RolloutPanel from './RolloutPanel';
+import { UNTAGGED, collectTags, matchesGroup, normalizeTag } from '../services/deviceGroups';
+import { encodeScheduleSet, createScheduleId } from '../services/scheduleCodec';
+import { createTemplate } from '../services/scheduleTemplates';
+import { weakPingCutoff, recentAveragePing, type PingHistory } from '../services/pingHistory';
+import { resolveDeviceConfig } from '../services/deviceConfig';
+import { groupByFirmwareSource, type FirmwareGroup } from '../services/firmwareSource';
+import { createFirmwareProvider, describeHardwareRange, supportsHardware, type FirmwareRelease, type ReleaseListing } from '../services/firmwareProviders';
+import { DEFAULT_ROLLOUT_SETTINGS, isRolloutActive, type FirmwareRollout, type RolloutSettings } from '../services/firmwareRollout';
 
 interface DeviceListProps {
   devices: Device[];
@@ -12,138 +24,158 @@ interface DeviceListProps {
   onDeleteDevice: (deviceId: string) => void;
   onRenameDevice: (deviceId: string) => void;
   onAddDeviceClick: () => void;
-  onBulkAddSchedule: (schedule: Omit<Schedule, 'id'>) => void;
-  onBulkClearSchedules: () => void;
+  onBulkAddSchedule: (schedulesByDevice: { [deviceId: string]: Schedule }) => void;
+  onBulkClearSchedules: (deviceIds: string[]) => void;
+  onTagDevices: (deviceIds: string[], tag: string) => void;
   totalDevices: number;
   onlineDevices: number;
   history: ResetHistoryEntry[];
   statuses: { [deviceId: string]: DeviceMqttState };
+  pingHistory: PingHistory;
+  scheduleTemplates: ScheduleTemplate[];
+  onScheduleTemplatesChange: (templates: ScheduleTemplate[]) => void;
+  onSetDeviceSchedules: (schedulesByDevice: { [deviceId: string]: Schedule[] }) => void;
+  rollout: FirmwareRollout | null;
+  onStartRollout: (deviceIds: string[], release: FirmwareRelease, settings: RolloutSettings) => void;
+  onHaltRollout: () => void;
+  onResumeRollout: () => void;
+  onCancelRollout: () => void;
+  onDismissRollout: () => void;
 }
 
-const FIRMWARE_REPO = "remoterbooter001/auto_update";
-
 const weekDays = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
 
-// Helper to format schedules for ESP32
-const dayNameToNumber: { [key: string]: number } = {
-    'Sun': 0, 'Mon': 1, 'Tue': 2, 'Wed': 3, 'Thu': 4, 'Fri': 5, 'Sat': 6
-};
-
-const transformSchedulesForMqtt = (schedules: Schedule[]) => {
-    return schedules
-        .filter(s => s.enabled)
-        .map(s => {
-            const [hour, minute] = s.time.split(':').map(Number);
-            const deviceDays = s.days.map(day => dayNameToNumber[day]);
-            const type = s.days.length === 7 ? "daily" : "weekly";
-            
-            let action = "RESET";
-            let duration = 0;
-
-            if (s.action === 'OFF' && s.endTime) {
-                action = "OFF";
-                const [endH, endM] = s.endTime.split(':').map(Number);
-                const startMins = hour * 60 + minute;
-                let endMins = endH * 60 + endM;
-                if (endMins <= startMins) endMins += 1440;
-                duration = endMins - startMins;
-            }
-
-            return {
-                id: s.id,
-                type: type,
-                hour: hour,
-                minute: minute,
-                day_of_month: 0,
-                action: action,
-                duration: duration,
-                days: deviceDays
-            };
-        });
-};
+// A bulk action waiting for the user to confirm the exact devices it will touch
+interface PendingBulkAction {
+  title: string;
+  message: string;
+  devices: Device[];
+  confirmLabel: string;
+  isDestructive?: boolean;
+  run: () => void;
+}
 
-const DeviceList: React.FC<DeviceListProps> = ({ devices, onSelectDevice, onDeleteDevice, onRenameDevice, onAddDeviceClick, onBulkAddSchedule, onBulkClearSchedules, totalDevices, onlineDevices, history, statuses }) => {
+const DeviceList: React.FC<DeviceListProps> = ({ devices, onSelectDevice, onDeleteDevice, onRenameDevice, onAddDeviceClick, onBulkAddSchedule, onBulkClearSchedules, totalDevices, onlineDevices, history, statuses, pingHistory, scheduleTemplates, onScheduleTemplatesChange, onSetDeviceSchedules, onTagDevices, rollout, onStartRollout, onHaltRollout, onResumeRollout, onCancelRollout, onDismissRollout }) => {
   const [searchTerm, setSearchTerm] = useState('');
+  const [groupFilter, setGroupFilter] = useState<string | null>(null);
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [newTag, setNewTag] = useState('');
+  const [pendingBulk, setPendingBulk] = useState<PendingBulkAction | null>(null);
   
   // Modals
   const [isBulkUpdateModalOpen, setBulkUpdateModalOpen] = useState(false);
   const [isBulkScheduleModalOpen, setBulkScheduleModalOpen] = useState(false);
+  const [isLibraryOpen, setLibraryOpen] = useState(false);
   
   // Firmware Update State
-  const [releases, setReleases] = useState<any[]>([]);
-  const [loadingReleases, setLoadingReleases] = useState(false);
+  // Releases per firmware source; undefined while loading, an error message if it failed
+  const [releasesBySource, setReleasesBySource] = useState<{ [source: string]: ReleaseListing | string | undefined }>({});
+  const [rolloutSettings, setRolloutSettings] = useState<RolloutSettings>(DEFAULT_ROLLOUT_SETTINGS);
   
   // Schedule Form State
   const [newTime, setNewTime] = useState('07:00');
   const [newEndTime, setNewEndTime] = useState('19:00');
   const [newAction, setNewAction] = useState<'REBOOT' | 'OFF'>('REBOOT');
   const [newDays, setNewDays] = useState<string[]>([]);
+  const [templateName, setTemplateName] = useState(''); // save the bulk schedule to the library
+  
+  // Delivery state of the last bulk action
+  const [bulkOperation, setBulkOperation] = useState<BulkOperation | null>(null);
   
-  const { publish } = useContext(MqttContext);
+  const { sendCommand, queueCommand } = useContext(MqttContext);
 
+  const tags = collectTags(devices);
   const filteredDevices = devices.filter(device => 
-    device.custom_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    device.device_id.toLowerCase().includes(searchTerm.toLowerCase())
+    matchesGroup(device, groupFilter) && (
+      device.custom_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      device.device_id.toLowerCase().includes(searchTerm.toLowerCase())
+    )
   );
+
+  const isOnline = (device: Device) => statuses[device.device_id]?.status === 'online';
+
+  // Bulk actions only ever touch the selection, or else the devices currently listed.
+  const targetDevices = selectionMode ? devices.filter(d => selectedIds.includes(d.device_id)) : filteredDevices;
+  const targetOnline = targetDevices.filter(isOnline).length;
+  const targetLabel = selectionMode
+    ? `${targetDevices.length} selected`
+    : groupFilter === UNTAGGED ? 'untagged devices'
+    : groupFilter ? `group "${groupFilter}"`
+    : searchTerm ? 'search results'
+    : 'all devices';
   
   const findLastResetTimestamp = (deviceId: string): string | null => {
       const lastEntry = history.find(entry => entry.deviceId === deviceId);
       return lastEntry ? lastEntry.timestamp : null;
   }
 
-  const healthyDevices = Object.values(statuses).filter((s: DeviceMqttState) => 
-    typeof s.ping === 'number' && s.ping < 30
-  ).length;
-  const weakDevices = Object.values(statuses).filter((s: DeviceMqttState) => 
-    typeof s.ping === 'number' && s.ping >= 30
-  ).length;
+  // Judged on the last 15 minutes of reports, so one slow ping doesn't flip a device to weak.
+  const now = Date.now();
+  const networkPing = (deviceId: string) => {
+      const live = statuses[deviceId]?.ping;
+      return recentAveragePing(pingHistory[deviceId], now) ?? (typeof live === 'number' ? live : null);
+  };
+  const reportedPings = devices
+    .map(d => ({ ping: networkPing(d.device_id), cutoff: weakPingCutoff(resolveDeviceConfig(d).pingThreshold) }))
+    .filter((p): p is { ping: number; cutoff: number } => p.ping !== null);
+  const healthyDevices = reportedPings.filter(p => p.ping < p.cutoff).length;
+  const weakDevices = reportedPings.filter(p => p.ping >= p.cutoff).length;
 
   // --- Bulk Firmware Logic ---
-  const fetchReleases = async () => {
-    setLoadingReleases(true);
+  // Each firmware source is updated separately so a build never reaches hardware it wasn't made for.
+  const firmwareGroups = groupByFirmwareSource(targetDevices.filter(isOnline));
+
+  const fetchReleases = async (source: string) => {
     try {
-        const response = await fetch(`https://api.github.com/repos/${FIRMWARE_REPO}/releases`);
-        if (!response.ok) throw new Error("Failed to fetch releases");
-        const data = await response.json();
-        setReleases(Array.isArray(data) ? data : [data]);
-    } catch (e) {
+        const listing = await createFirmwareProvider(source).listReleases();
+        setReleasesBySource(prev => ({ ...prev, [source]: listing }));
+    } catch (e: any) {
         console.error(e);
-        setReleases([]);
-    } finally {
-        setLoadingReleases(false);
+        setReleasesBySource(prev => ({ ...prev, [source]: e.message || 'Failed to fetch releases' }));
     }
   };
 
   const openBulkUpdateModal = () => {
       setBulkUpdateModalOpen(true);
-      fetchReleases();
+      setReleasesBySource({});
+      firmwareGroups.forEach(group => fetchReleases(group.source));
   };
 
-  const handleBulkUpdate = (downloadUrl: string) => {
-      if (confirm(`This will update ALL ${onlineDevices} online devices. Are you sure?`)) {
-          devices.forEach(device => {
-              const status = statuses[device.device_id];
-              if (status && status.status === 'online') {
-                  publish(device.device_id, `${device.device_id}/ota/start`, downloadUrl);
-              }
-          });
-          setBulkUpdateModalOpen(false);
-      }
+  // Updates go out in stages: a canary batch first, then the rest batch by batch.
+  // Devices whose hardware revision the release doesn't support are left out.
+  const handleBulkUpdate = (group: FirmwareGroup, release: FirmwareRelease) => {
+      const targets = group.devices.filter(d => supportsHardware(release, d.hardwareRevision));
+      const excluded = group.devices.length - targets.length;
+      const { canarySize, batchSize } = rolloutSettings;
+      setBulkUpdateModalOpen(false);
+      setPendingBulk({
+          title: 'Bulk Firmware Update',
+          message: `Roll out ${release.version} from ${group.source} to these ${targets.length} online device${targets.length === 1 ? '' : 's'}? ${canarySize} canary device${canarySize === 1 ? '' : 's'} update first, then batches of ${batchSize}. The rollout stops at the first failure.${excluded ? ` ${excluded} device${excluded === 1 ? ' is' : 's are'} left out because of their hardware revision.` : ''}`,
+          devices: targets,
+          confirmLabel: 'Start Rollout',
+          run: () => onStartRollout(targets.map(d => d.device_id), release, rolloutSettings),
+      });
+  };
+
+  const updateRolloutSetting = (key: keyof RolloutSettings, value: string) => {
+      const number = parseInt(value, 10);
+      setRolloutSettings(prev => ({ ...prev, [key]: Number.isNaN(number) ? 1 : Math.max(1, number) }));
   };
 
   // --- Bulk Reboot Logic ---
   const handleBulkReboot = () => {
-      if (confirm(`This will trigger a reboot for ALL ${onlineDevices} online devices. This action cannot be stopped. Are you sure?`)) {
-          let count = 0;
-          devices.forEach(device => {
-              const status = statuses[device.device_id];
-              if (status && status.status === 'online') {
-                  publish(device.device_id, `${device.device_id}/reset`, "1");
-                  count++;
-              }
-          });
-          alert(`Reboot command sent to ${count} devices.`);
-      }
+      const targets = targetDevices.filter(isOnline);
+      setPendingBulk({
+          title: 'Bulk Reboot',
+          message: `Reboot these ${targets.length} online device${targets.length === 1 ? '' : 's'}? This action cannot be stopped.`,
+          devices: targets,
+          confirmLabel: 'Reboot',
+          run: () => {
+              const commandIds = targets.map(device => sendCommand(device.device_id, 'reset', "1"));
+              setBulkOperation({ label: 'Bulk Reboot', commandIds });
+          },
+      });
   };
 
   // --- Bulk Schedule Logic ---
@@ -155,8 +187,15 @@ const DeviceList: React.FC<DeviceListProps> = ({ devices, onSelectDevice, onDele
 
   const handleSaveBulkSchedule = () => {
       if (newTime && newDays.length > 0) {
-          if (confirm(`This will add this schedule to ALL ${devices.length} devices (and push to ${onlineDevices} online devices). Confirm?`)) {
-              
+          const targets = targetDevices;
+          const online = targets.filter(isOnline).length;
+          setPendingBulk({
+            title: 'Bulk Schedule',
+            message: `Add this schedule to these ${targets.length} device${targets.length === 1 ? '' : 's'}? ${online} online will receive it now, the rest when they reconnect.`,
+            devices: targets,
+            confirmLabel: 'Add Schedule',
+            isDestructive: false,
+            run: () => {
               const scheduleTemplate: Omit<Schedule, 'id'> = {
                   time: newTime,
                   days: newDays,
@@ -165,51 +204,94 @@ const DeviceList: React.FC<DeviceListProps> = ({ devices, onSelectDevice, onDele
                   endTime: newAction === 'OFF' ? newEndTime : undefined
               };
 
-              // 1. Send to all online devices immediately
-              devices.forEach(device => {
-                  const status = statuses[device.device_id];
-                  if (status && status.status === 'online') {
-                      // We generate a temp ID for MQTT valid JSON, though it won't match app ID perfectly, 
-                      // it doesn't matter as device only cares about logic.
-                      const newSched = { ...scheduleTemplate, id: Date.now().toString() };
-                      const updatedSchedules = [...device.schedules, newSched];
-                      const mqttPayload = transformSchedulesForMqtt(updatedSchedules);
-                      publish(device.device_id, `${device.device_id}/schedule/set`, JSON.stringify(mqttPayload));
-                  }
+              // Saved templates link every copy so later edits reach these devices too
+              let templateId: string | undefined;
+              if (templateName.trim()) {
+                  const { enabled, ...fields } = scheduleTemplate;
+                  const template = createTemplate(templateName, fields);
+                  onScheduleTemplatesChange([...scheduleTemplates, template]);
+                  templateId = template.id;
+              }
+
+              // 1. Send to online devices immediately, queue for the rest
+              const commandIds: string[] = [];
+              const schedulesByDevice: { [deviceId: string]: Schedule } = {};
+              let queued = 0;
+              let skipped = 0;
+              targets.forEach(device => {
+                  const newSched: Schedule = { ...scheduleTemplate, id: createScheduleId(), templateId };
+                  schedulesByDevice[device.device_id] = newSched;
+                  const updatedSchedules = [...device.schedules, newSched];
+                  const encoded = encodeScheduleSet(updatedSchedules, device.timezone);
+                  skipped += encoded.skipped.length;
+                  const commandId = queueCommand(device.device_id, 'schedule/set', encoded.payload);
+                  if (commandId) commandIds.push(commandId);
+                  else queued++;
               });
+              setBulkOperation({ label: 'Bulk Schedule', commandIds, queued, skipped });
 
               // 2. Update local app state
-              onBulkAddSchedule(scheduleTemplate);
+              onBulkAddSchedule(schedulesByDevice);
               
               setBulkScheduleModalOpen(false);
               // Reset form
               setNewTime('07:00');
               setNewDays([]);
               setNewAction('REBOOT');
-          }
+              setTemplateName('');
+            },
+          });
       } else {
           alert("Please select a time and at least one day.");
       }
   };
 
   const handleBulkClearSchedules = () => {
-      if (confirm(`Are you sure you want to clear ALL schedules from ALL ${devices.length} devices? This cannot be undone.`)) {
-          let count = 0;
-          // 1. Send to all online devices
-          devices.forEach(device => {
-              const status = statuses[device.device_id];
-              if (status && status.status === 'online') {
-                  publish(device.device_id, `${device.device_id}/schedule/clear`, "1");
-                  count++;
-              }
-          });
+      const targets = targetDevices;
+      setPendingBulk({
+          title: 'Clear Schedules',
+          message: `Clear ALL schedules from these ${targets.length} device${targets.length === 1 ? '' : 's'}? This cannot be undone.`,
+          devices: targets,
+          confirmLabel: 'Clear Schedules',
+          run: () => {
+              const commandIds: string[] = [];
+              let queued = 0;
+              // 1. Send to online devices, queue for the rest
+              targets.forEach(device => {
+                  const commandId = queueCommand(device.device_id, 'schedule/clear', "1");
+                  if (commandId) commandIds.push(commandId);
+                  else queued++;
+              });
 
-          // 2. Update local app state
-          onBulkClearSchedules();
-          
-          setBulkScheduleModalOpen(false);
-          alert(`Clear command sent to ${count} online devices. All local schedules cleared.`);
-      }
+              // 2. Update local app state
+              onBulkClearSchedules(targets.map(d => d.device_id));
+
+              setBulkScheduleModalOpen(false);
+              setBulkOperation({ label: 'Clear Schedules', commandIds, queued });
+          },
+      });
+  };
+
+  const handleConfirmBulk = () => {
+      pendingBulk?.run();
+      setPendingBulk(null);
+  };
+
+  // --- Selection & Groups ---
+  const toggleSelected = (deviceId: string) => {
+      setSelectedIds(prev => prev.includes(deviceId) ? prev.filter(id => id !== deviceId) : [...prev, deviceId]);
+  };
+
+  const toggleSelectionMode = () => {
+      setSelectionMode(prev => !prev);
+      setSelectedIds([]);
+  };
+
+  const handleTagSelected = () => {
+      const tag = normalizeTag(newTag);
+      if (!tag || selectedIds.length === 0) return;
+      onTagDevices(selectedIds, tag);
+      setNewTag('');
   };
 
   
@@ -251,18 +333,23 @@ const DeviceList: React.FC<DeviceListProps> = ({ devices, onSelectDevice, onDele
             </div>
           }
           
-          {devices.length > 0 && onlineDevices > 1 && (
+          {devices.length > 0 && (
             <div className="flex flex-col sm:flex-row gap-2 w-full xl:w-auto">
+              {targetDevices.length > 0 && (
+                <>
                 <button 
                     onClick={openBulkUpdateModal}
-                    className="flex items-center justify-center bg-gray-800 dark:bg-gray-700 hover:bg-gray-700 dark:hover:bg-gray-600 text-white px-4 py-2 rounded-md shadow-sm transition-colors text-sm font-semibold flex-1 sm:flex-initial whitespace-nowrap"
+                    disabled={targetOnline === 0 || isRolloutActive(rollout)}
+                    title={isRolloutActive(rollout) ? 'Finish or cancel the current rollout first' : undefined}
+                    className="flex items-center justify-center bg-gray-800 dark:bg-gray-700 hover:bg-gray-700 dark:hover:bg-gray-600 text-white px-4 py-2 rounded-md shadow-sm transition-colors text-sm font-semibold flex-1 sm:flex-initial whitespace-nowrap disabled:opacity-50"
                 >
                     <CloudIcon className="w-4 h-4 mr-2" />
                     Bulk Update
                 </button>
                 <button 
                     onClick={handleBulkReboot}
-                    className="flex items-center justify-center bg-red-600 hover:bg-red-500 text-white px-4 py-2 rounded-md shadow-sm transition-colors text-sm font-semibold flex-1 sm:flex-initial whitespace-nowrap"
+                    disabled={targetOnline === 0}
+                    className="flex items-center justify-center bg-red-600 hover:bg-red-500 text-white px-4 py-2 rounded-md shadow-sm transition-colors text-sm font-semibold flex-1 sm:flex-initial whitespace-nowrap disabled:opacity-50"
                 >
                     <PowerIcon className="w-4 h-4 mr-2" />
                     Bulk Reboot
@@ -274,10 +361,82 @@ const DeviceList: React.FC<DeviceListProps> = ({ devices, onSelectDevice, onDele
                     <ClockIcon className="w-4 h-4 mr-2" />
                     Bulk Schedule
                 </button>
+                </>
+              )}
+                <button 
+                    onClick={() => setLibraryOpen(true)}
+                    className="flex items-center justify-center bg-gray-800 dark:bg-gray-700 hover:bg-gray-700 dark:hover:bg-gray-600 text-white px-4 py-2 rounded-md shadow-sm transition-colors text-sm font-semibold flex-1 sm:flex-initial whitespace-nowrap"
+                >
+                    <ClockIcon className="w-4 h-4 mr-2" />
+                    Schedule Library
+                </button>
             </div>
           )}
       </div>
 
+      {/* Groups & Selection */}
+      {devices.length > 0 && (
+        <div className="mb-6 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            {[null, ...tags, ...(tags.length > 0 ? [UNTAGGED] : [])].map(group => (
+              <button
+                key={group || 'all'}
+                onClick={() => setGroupFilter(group)}
+                className={`px-3 py-1 text-sm rounded-full border ${groupFilter === group ? 'bg-blue-500 border-blue-500 text-white' : 'bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+              >
+                {group === null ? 'All' : group === UNTAGGED ? 'Untagged' : group}
+              </button>
+            ))}
+            <button
+              onClick={toggleSelectionMode}
+              className={`ml-auto px-3 py-1 text-sm rounded-md border ${selectionMode ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300'}`}
+            >
+              {selectionMode ? 'Done' : 'Select'}
+            </button>
+          </div>
+          {selectionMode && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <button onClick={() => setSelectedIds(filteredDevices.map(d => d.device_id))} className="text-blue-600 dark:text-blue-400 hover:underline">Select all shown</button>
+              <button onClick={() => setSelectedIds([])} className="text-blue-600 dark:text-blue-400 hover:underline">Clear</button>
+              <div className="flex items-center gap-2 ml-auto">
+                <input
+                  type="text"
+                  value={newTag}
+                  onChange={e => setNewTag(e.target.value)}
+                  placeholder="Tag, e.g. site-a"
+                  className="w-36 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 text-gray-900 dark:text-white"
+                />
+                <button
+                  onClick={handleTagSelected}
+                  disabled={selectedIds.length === 0 || !normalizeTag(newTag)}
+                  className="px-3 py-1 rounded-md bg-gray-800 dark:bg-gray-700 text-white disabled:opacity-50"
+                >
+                  Tag Selected
+                </button>
+              </div>
+            </div>
+          )}
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Bulk actions apply to <strong>{targetLabel}</strong>: {targetDevices.length} device{targetDevices.length === 1 ? '' : 's'}, {targetOnline} online.
+          </p>
+        </div>
+      )}
+
+      {rollout && (
+          <RolloutPanel
+              rollout={rollout}
+              devices={devices}
+              onHalt={onHaltRollout}
+              onResume={onResumeRollout}
+              onCancel={onCancelRollout}
+              onDismiss={onDismissRollout}
+          />
+      )}
+
+      {bulkOperation && (
+          <BulkCommandStatus operation={bulkOperation} devices={devices} onDismiss={() => setBulkOperation(null)} />
+      )}
+
       {/* Empty States */}
       {devices.length === 0 ? (
         <div className="text-center text-gray-500 dark:text-gray-400 mt-20 flex flex-col items-center">
@@ -294,7 +453,7 @@ const DeviceList: React.FC<DeviceListProps> = ({ devices, onSelectDevice, onDele
       ) : filteredDevices.length === 0 ? (
         <div className="text-center text-gray-500 dark:text-gray-400 mt-20">
             <h2 className="text-2xl font-semibold">No Devices Found</h2>
-            <p className="mt-2">Your search for "{searchTerm}" did not match any devices.</p>
+            <p className="mt-2">{searchTerm ? `Your search for "${searchTerm}" did not match any devices${groupFilter ? ' in this group' : ''}.` : 'No devices in this group.'}</p>
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -306,6 +465,9 @@ const DeviceList: React.FC<DeviceListProps> = ({ devices, onSelectDevice, onDele
                   onDelete={onDeleteDevice}
                   onRename={onRenameDevice}
                   lastResetTimestamp={findLastResetTimestamp(device.device_id)}
+                  selectionMode={selectionMode}
+                  isSelected={selectedIds.includes(device.device_id)}
+                  onToggleSelect={toggleSelected}
               />
           ))}
         </div>
@@ -327,45 +489,109 @@ const DeviceList: React.FC<DeviceListProps> = ({ devices, onSelectDevice, onDele
                       <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 p-3 rounded-md mb-4 flex items-center">
                           <CheckCircleIcon className="w-5 h-5 text-blue-600 dark:text-blue-400 mr-2" />
                           <p className="text-sm text-blue-800 dark:text-blue-200">
-                              <strong>{onlineDevices}</strong> devices are Online.
+                              <strong>{targetOnline}</strong> of {targetDevices.length} devices in {targetLabel} are Online.
                           </p>
                       </div>
 
-                      {loadingReleases ? (
-                          <div className="text-center py-8 text-gray-500">Loading versions...</div>
-                      ) : releases.length === 0 ? (
-                          <div className="text-center py-8 text-red-500">No releases found.</div>
-                      ) : (
-                          <div className="space-y-2">
-                              {releases.map((release: any) => {
-                                  const asset = release.assets?.find((a: any) => a.name.endsWith('.bin'));
-                                  if (!asset) return null;
-                                  
-                                  return (
-                                      <button 
-                                          key={release.id}
-                                          onClick={() => handleBulkUpdate(asset.browser_download_url)}
-                                          className="w-full text-left p-3 border border-gray-200 dark:border-gray-700 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors group"
-                                      >
-                                          <div className="flex justify-between items-center">
-                                              <span className="font-mono font-bold text-gray-900 dark:text-white">{release.tag_name}</span>
-                                              <span className="text-xs bg-gray-200 dark:bg-gray-600 px-2 py-1 rounded text-gray-700 dark:text-gray-300 group-hover:bg-blue-100 dark:group-hover:bg-blue-900 group-hover:text-blue-700 dark:group-hover:text-blue-300 transition-colors">
-                                                  Install All
-                                              </span>
-                                          </div>
-                                          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                                              Published: {new Date(release.published_at).toLocaleDateString()}
-                                          </p>
-                                      </button>
-                                  );
-                              })}
-                          </div>
+                      <div className="grid grid-cols-3 gap-2 mb-4">
+                          {([['canarySize', 'Canary'], ['batchSize', 'Batch size'], ['timeoutMinutes', 'Timeout (min)']] as const).map(([key, label]) => (
+                              <label key={key} className="text-xs text-gray-500 dark:text-gray-400">
+                                  {label}
+                                  <input
+                                      type="number"
+                                      min={1}
+                                      value={rolloutSettings[key]}
+                                      onChange={e => updateRolloutSetting(key, e.target.value)}
+                                      className="mt-1 w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 text-sm text-gray-900 dark:text-white"
+                                  />
+                              </label>
+                          ))}
+                      </div>
+
+                      {firmwareGroups.length > 1 && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                              These devices use {firmwareGroups.length} firmware sources. Each source is rolled out on its own.
+                          </p>
                       )}
+
+                      <div className="space-y-4">
+                          {firmwareGroups.map(group => {
+                              const listing = releasesBySource[group.source];
+                              return (
+                                  <div key={group.source}>
+                                      <div className="flex justify-between items-baseline mb-2">
+                                          <span className="font-mono text-sm font-semibold text-gray-700 dark:text-gray-200 truncate">{group.source}</span>
+                                          <span className="text-xs text-gray-500 dark:text-gray-400 shrink-0 ml-2">{group.devices.length} device{group.devices.length === 1 ? '' : 's'}</span>
+                                      </div>
+                                      {listing !== undefined && typeof listing !== 'string' && listing.skipped.length > 0 && (
+                                          <p className="text-xs text-yellow-700 dark:text-yellow-300 mb-2">
+                                              Skipped {listing.skipped.length} unreadable manifest entr{listing.skipped.length === 1 ? 'y' : 'ies'}: {listing.skipped.join('; ')}
+                                          </p>
+                                      )}
+                                      {listing === undefined ? (
+                                          <div className="text-center py-4 text-gray-500">Loading versions...</div>
+                                      ) : typeof listing === 'string' ? (
+                                          <div className="text-center py-4 text-red-500">{listing}</div>
+                                      ) : listing.releases.length === 0 ? (
+                                          <div className="text-center py-4 text-red-500">No releases found.</div>
+                                      ) : (
+                                          <div className="space-y-2">
+                                              {listing.releases.map(release => {
+                                                  const compatible = group.devices.filter(d => supportsHardware(release, d.hardwareRevision)).length;
+                                                  const hardwareRange = describeHardwareRange(release);
+
+                                                  return (
+                                                      <button 
+                                                          key={release.id}
+                                                          onClick={() => handleBulkUpdate(group, release)}
+                                                          disabled={compatible === 0}
+                                                          className="w-full text-left p-3 border border-gray-200 dark:border-gray-700 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors group disabled:opacity-50 disabled:hover:bg-transparent"
+                                                      >
+                                                          <div className="flex justify-between items-center">
+                                                              <span className="font-mono font-bold text-gray-900 dark:text-white">{release.version}</span>
+                                                              <span className="text-xs bg-gray-200 dark:bg-gray-600 px-2 py-1 rounded text-gray-700 dark:text-gray-300 group-hover:bg-blue-100 dark:group-hover:bg-blue-900 group-hover:text-blue-700 dark:group-hover:text-blue-300 transition-colors">
+                                                                  {compatible === group.devices.length ? 'Install All' : `Install on ${compatible}`}
+                                                              </span>
+                                                          </div>
+                                                          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                                              {[release.publishedAt && `Published: ${new Date(release.publishedAt).toLocaleDateString()}`, hardwareRange].filter(Boolean).join(' · ')}
+                                                          </p>
+                                                      </button>
+                                                  );
+                                              })}
+                                          </div>
+                                      )}
+                                  </div>
+                              );
+                          })}
+                      </div>
                   </div>
               </div>
           </div>
       )}
 
+      <ConfirmModal
+          isOpen={pendingBulk !== null}
+          title={pendingBulk?.title || ''}
+          message={pendingBulk?.message || ''}
+          details={pendingBulk?.devices.map(d => d.custom_name)}
+          confirmLabel={pendingBulk?.confirmLabel}
+          isDestructive={pendingBulk?.isDestructive !== false}
+          onConfirm={handleConfirmBulk}
+          onCancel={() => setPendingBulk(null)}
+      />
+
+      {isLibraryOpen && (
+          <ScheduleTemplateLibrary
+              templates={scheduleTemplates}
+              devices={devices}
+              onTemplatesChange={onScheduleTemplatesChange}
+              onSetDeviceSchedules={onSetDeviceSchedules}
+              onOperation={setBulkOperation}
+              onClose={() => setLibraryOpen(false)}
+          />
+      )}
+
       {/* Bulk Schedule Modal */}
       {isBulkScheduleModalOpen && (
           <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
@@ -381,7 +607,7 @@ const DeviceList: React.FC<DeviceListProps> = ({ devices, onSelectDevice, onDele
                   
                   <div className="p-6">
                         <div className="mb-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 p-3 rounded-md text-sm text-yellow-800 dark:text-yellow-200">
-                             This will add the following schedule to <strong>ALL {devices.length}</strong> devices. Online devices will receive it immediately.
+                             This will add the following schedule to <strong>{targetDevices.length}</strong> device{targetDevices.length === 1 ? '' : 's'} ({targetLabel}). Online devices will receive it immediately, offline devices when they reconnect.
                         </div>
 
                         <div className="mb-4">
@@ -426,13 +652,18 @@ const DeviceList: React.FC<DeviceListProps> = ({ devices, onSelectDevice, onDele
                             </div>
                         </div>
 
+                        <div className="mb-6">
+                            <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">Save as template (optional)</label>
+                            <input type="text" value={templateName} onChange={e => setTemplateName(e.target.value)} placeholder="e.g. Nightly 4am reboot" className="w-full bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md px-3 py-2 text-gray-900 dark:text-white"/>
+                        </div>
+
                         <div className="flex flex-col sm:flex-row justify-between gap-4 pt-4 border-t border-gray-200 dark:border-gray-700">
                              <button 
                                 onClick={handleBulkClearSchedules}
                                 className="px-4 py-2 bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300 rounded-md hover:bg-red-200 dark:hover:bg-red-800 transition-colors text-sm font-semibold flex items-center justify-center"
                             >
                                 <TrashIcon className="w-4 h-4 mr-2" />
-                                Clear All
+                                Clear Schedules
                             </button>
                             <div className="flex gap-2 justify-end">
                                 <button onClick={() => setBulkScheduleModalOpen(false)} className="px-4 py-2 bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500 rounded-md text-gray-800 dark:text-gray-200">Cancel</button>
@@ -5,6 +5,9 @@ import { MoreVerticalIcon, ClockIcon, WifiIcon, SignalHighIcon, SignalLowIcon, S
 import MqttContext from '../contexts/MqttContext';
 import { MqttStatus } from '../hooks/useMqttManager';
 import ConfirmModal from './ConfirmModal';
+import { describeQueuedCommand } from '../services/commandQueue';
+import { weakPingCutoff } from '../services/pingHistory';
+import { resolveDeviceConfig } from '../services/deviceConfig';
 
 interface DeviceListItemProps {
   device: Device;
@@ -12,6 +15,9 @@ interface DeviceListItemProps {
   onDelete: (deviceId: string) => void;
   onRename: (deviceId: string) => void;
   lastResetTimestamp: string | null;
+  selectionMode?: boolean;
+  isSelected?: boolean;
+  onToggleSelect?: (deviceId: string) => void;
 }
 
 const StatusIndicator: React.FC<{ status: MqttStatus, errorMessage: string | null, otaProgress?: number, otaStatus?: string }> = ({ status, errorMessage, otaProgress, otaStatus }) => {
@@ -75,8 +81,9 @@ const StatusIndicator: React.FC<{ status: MqttStatus, errorMessage: string | nul
 };
 
 
-const DeviceListItem: React.FC<DeviceListItemProps> = ({ device, onSelect, onDelete, onRename, lastResetTimestamp }) => {
-  const { statuses } = useContext(MqttContext);
+const DeviceListItem: React.FC<DeviceListItemProps> = ({ device, onSelect, onDelete, onRename, lastResetTimestamp, selectionMode = false, isSelected = false, onToggleSelect }) => {
+  const { statuses, queues } = useContext(MqttContext);
+  const pendingSync = queues[device.device_id] || [];
   
   const deviceStatus = statuses[device.device_id];
   const mqttLastAction = deviceStatus?.lastAction;
@@ -103,6 +110,7 @@ const DeviceListItem: React.FC<DeviceListItemProps> = ({ device, onSelect, onDel
 
   const errorMessage = deviceStatus?.errorMessage || null;
   const ping = deviceStatus?.ping || null;
+  const isWeakPing = ping !== null && ping >= weakPingCutoff(resolveDeviceConfig(device).pingThreshold);
   const otaProgress = deviceStatus?.otaProgress;
   const otaStatus = deviceStatus?.otaStatus;
 
@@ -214,23 +222,51 @@ const DeviceListItem: React.FC<DeviceListItemProps> = ({ device, onSelect, onDel
 
   const mqttIsPoweredOff = deviceStatus?.isPoweredOff;
   const displayIsPoweredOff = mqttIsPoweredOff !== undefined ? mqttIsPoweredOff : device.isPoweredOff;
+  const powerOnAt = device.powerOnAt ? new Date(device.powerOnAt) : null;
+  const isTimedPowerOff = !!(displayIsPoweredOff && powerOnAt && powerOnAt.getTime() > Date.now());
 
   return (
     <>
         <div
-        className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow-lg flex flex-col justify-between cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 transition-all duration-200"
-        onClick={() => onSelect(device.device_id)}
+        className={`bg-white dark:bg-gray-800 rounded-lg p-4 shadow-lg flex flex-col justify-between cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 transition-all duration-200 ${isSelected ? 'ring-2 ring-blue-500' : ''}`}
+        onClick={() => selectionMode && onToggleSelect ? onToggleSelect(device.device_id) : onSelect(device.device_id)}
         >
         <div>
             <div className="flex justify-between items-start">
+                {selectionMode && (
+                    <input
+                        type="checkbox"
+                        checked={isSelected}
+                        onChange={() => onToggleSelect?.(device.device_id)}
+                        onClick={e => e.stopPropagation()}
+                        className="mt-1.5 mr-3 h-4 w-4 shrink-0"
+                        aria-label={`Select ${device.custom_name}`}
+                    />
+                )}
                 <div className="flex-1 min-w-0 mr-2">
                     <h3 className="text-lg font-bold text-gray-900 dark:text-white truncate">{device.custom_name}</h3>
                     <p className="text-xs text-gray-500 dark:text-gray-400 font-mono truncate">{device.device_id}</p>
+                    {device.tags && device.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                            {device.tags.map(tag => (
+                                <span key={tag} className="text-[10px] px-1.5 py-0.5 rounded bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300">{tag}</span>
+                            ))}
+                        </div>
+                    )}
                 </div>
                 <div className="relative flex items-center" ref={menuRef}>
+                {pendingSync.length > 0 && (
+                    <div className="mr-2 flex items-center justify-center px-2 py-1 bg-yellow-100 dark:bg-yellow-900/40 rounded border border-yellow-200 dark:border-yellow-800 shadow-sm" title={`Waiting for device: ${pendingSync.map(describeQueuedCommand).join(', ')}`}>
+                        <span className="text-xs font-bold text-yellow-700 dark:text-yellow-300 whitespace-nowrap">PENDING SYNC</span>
+                    </div>
+                )}
                 {displayIsPoweredOff && (
-                    <div className="mr-2 flex items-center justify-center px-2 py-1 bg-red-100 dark:bg-red-900/50 rounded border border-red-200 dark:border-red-800 shadow-sm" title="Relay is Powered Off">
-                        <span className="text-xs font-bold text-red-600 dark:text-red-400 whitespace-nowrap">POWER OFF</span>
+                    <div className="mr-2 flex items-center justify-center px-2 py-1 bg-red-100 dark:bg-red-900/50 rounded border border-red-200 dark:border-red-800 shadow-sm" title={isTimedPowerOff ? `Relay is Powered Off until ${formatTime(powerOnAt)}` : "Relay is Powered Off"}>
+                        <span className="text-xs font-bold text-red-600 dark:text-red-400 whitespace-nowrap">
+                            {isTimedPowerOff && powerOnAt
+                                ? `OFF UNTIL ${powerOnAt.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })}`
+                                : 'POWER OFF'}
+                        </span>
                     </div>
                 )}
 
@@ -240,10 +276,10 @@ const DeviceListItem: React.FC<DeviceListItemProps> = ({ device, onSelect, onDel
                     </div>
                 ) : ping !== null ? (
                     <div className="mr-2 flex items-center bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded-md border border-gray-200 dark:border-gray-600 shadow-sm" title={`Ping: ${ping}ms`}>
-                        <span className={`text-xs font-mono font-bold mr-1.5 ${ping < 30 ? 'text-green-600 dark:text-green-400' : 'text-orange-600 dark:text-orange-400'}`}>
+                        <span className={`text-xs font-mono font-bold mr-1.5 ${!isWeakPing ? 'text-green-600 dark:text-green-400' : 'text-orange-600 dark:text-orange-400'}`}>
                             {ping}ms
                         </span>
-                        {ping < 30 ? (
+                        {!isWeakPing ? (
                             <SignalHighIcon className="w-4 h-4 text-green-500" />
                         ) : (
                             <SignalLowIcon className="w-4 h-4 text-orange-500" />
@@ -1,69 +1,59 @@
-import React, { useContext, useState, useEffect } from 'react';
-import type { Device, Schedule } from '../types';
-import { PowerIcon, ClockIcon, CloudIcon, DownloadIcon, CheckCircleIcon, SettingsIcon } from './icons';
+import React, { useContext, useState, useEffect, useRef, useMemo } from 'react';
+import type { Device, DeviceConfig, Schedule, ScheduleTemplate, MqttTransport, FirmwareAsset, FirmwareHistoryEntry } from '../types';
+import { PowerIcon, ClockIcon, CloudIcon, DownloadIcon, CheckCircleIcon, WifiIcon, BellIcon } from './icons';
 import ScheduleManager from './ScheduleManager';
+import PingChart from './PingChart';
+import DeviceConfigCard from './DeviceConfigCard';
 import MqttContext from '../contexts/MqttContext';
 import { MqttStatus } from '../hooks/useMqttManager';
+import { resolveTransport, buildBrokerUrl } from '../services/mqttTransport';
+import ConfirmModal from './ConfirmModal';
+import CommandStatus from './CommandStatus';
+import { latestCommand } from '../services/commandTracker';
+import { describeQueuedCommand } from '../services/commandQueue';
+import { encodeScheduleSet, encodeSchedules, decodeSchedules, describeSkippedSchedule, scheduleSignature } from '../services/scheduleCodec';
+import { encodeOtaStart, type OtaVerification } from '../services/deviceProtocol';
+import { addTag, normalizeTag, removeTag } from '../services/deviceGroups';
+import { DEFAULT_FIRMWARE_REPO, normalizeFirmwareSource, resolveFirmwareSource } from '../services/firmwareSource';
+import { findRollbackTarget, formatDuration } from '../services/firmwareHistory';
+import { compareVersions } from '../services/firmwareRollout';
+import type { PingBucket } from '../services/pingHistory';
+import { encodeDeviceConfig, resolveDeviceConfig } from '../services/deviceConfig';
+import { deviceNotificationEvents, NOTIFICATION_EVENT_LABELS, NOTIFICATION_EVENT_TYPES, type NotificationEventType, type NotificationPreferences } from '../services/notifications';
+import { autoRebootTimes, evaluateRebootPolicy } from '../services/rebootPolicy';
+import type { RebootLogEntry } from '../services/rebootLog';
+import { createFirmwareProvider, describeHardwareRange, supportsHardware, type FirmwareRelease } from '../services/firmwareProviders';
 
 interface DevicePanelProps {
   device: Device;
   onUpdateSchedules: (deviceId: string, newSchedules: Schedule[]) => void;
   onUpdateConfig: (deviceId: string, config: Partial<Device>) => void;
+  scheduleTemplates?: ScheduleTemplate[];
+  firmwareHistory?: FirmwareHistoryEntry[]; // this device's updates, newest first
+  pingHistory?: PingBucket[];
+  rebootLog?: RebootLogEntry[]; // this device's reboots, oldest first
+  notificationPreferences?: NotificationPreferences;
+  onNotificationPreferencesChange?: (preferences: NotificationPreferences) => void;
 }
 
-const FIRMWARE_REPO = "remoterbooter001/auto_update";
+type PowerCommand = { kind: 'off' } | { kind: 'on' } | { kind: 'cycle'; minutes: number };
 
-const dayNameToNumber: { [key: string]: number } = {
-    'Sun': 0, 'Mon': 1, 'Tue': 2, 'Wed': 3, 'Thu': 4, 'Fri': 5, 'Sat': 6
-};
-
-const transformSchedulesForDevice = (schedules: Schedule[]) => {
-    return schedules
-        .filter(s => s.enabled)
-        .map(s => {
-            const [hour, minute] = s.time.split(':').map(Number);
-            const deviceDays = s.days.map(day => dayNameToNumber[day]);
-            const type = s.days.length === 7 ? "daily" : "weekly";
-            
-            let action = "RESET";
-            let duration = 0;
-
-            if (s.action === 'OFF' && s.endTime) {
-                action = "OFF";
-                const [endH, endM] = s.endTime.split(':').map(Number);
-                
-                const startMins = hour * 60 + minute;
-                let endMins = endH * 60 + endM;
-                
-                if (endMins <= startMins) {
-                    endMins += 1440;
-                }
-                
-                duration = endMins - startMins;
-            }
-
-            return {
-                id: s.id,
-                type: type,
-                hour: hour,
-                minute: minute,
-                day_of_month: 0,
-                action: action,
-                duration: duration,
-                days: deviceDays
-            };
-        });
-};
+interface CircularProgressProps {
+    percentage: number;
+    status: string | null;
+    verification?: OtaVerification; // hash check reported by the device
+}
 
-const CircularProgress = ({ percentage, status }: { percentage: number, status: string | null }) => {
+const CircularProgress = ({ percentage, status, verification }: CircularProgressProps) => {
     const radius = 20;
     const circumference = 2 * Math.PI * radius;
     // Ensure percentage is clamped between 0 and 100
     const validPercentage = Math.min(100, Math.max(0, percentage));
     const strokeDashoffset = circumference - (validPercentage / 100) * circumference;
     
-    const isSuccess = validPercentage >= 100 || (status && status.toLowerCase().includes('success'));
-    const isError = status && (status.toLowerCase().includes('fail') || status.toLowerCase().includes('error'));
+    const isHashFailure = verification === 'failed';
+    const isError = isHashFailure || (status && (status.toLowerCase().includes('fail') || status.toLowerCase().includes('error')));
+    const isSuccess = !isError && (validPercentage >= 100 || (status && status.toLowerCase().includes('success')));
   
     return (
       <div className="flex flex-col items-center">
@@ -104,6 +94,14 @@ const CircularProgress = ({ percentage, status }: { percentage: number, status:
             </div>
         </div>
         {status && <p className="text-xs text-gray-500 mt-2 max-w-[150px] text-center truncate">{status}</p>}
+        {isHashFailure && (
+            <p className="text-sm font-semibold text-red-600 dark:text-red-400 mt-2 text-center max-w-[240px]">
+                Verification failed: the downloaded firmware does not match the expected SHA-256. Nothing was installed.
+            </p>
+        )}
+        {verification === 'passed' && (
+            <p className="text-xs text-green-600 dark:text-green-400 mt-1">SHA-256 verified</p>
+        )}
       </div>
     );
 };
@@ -166,47 +164,41 @@ const StatusDisplay: React.FC<StatusDisplayProps> = ({ status, lastSeen, errorMe
     );
 }
 
-// Semver comparison helper
-const compareVersions = (v1: string, v2: string) => {
-    // Remove 'v' prefix if present
-    const cleanV1 = v1.replace(/^v/, '').trim();
-    const cleanV2 = v2.replace(/^v/, '').trim();
-    
-    // Handle exact string match
-    if (cleanV1 === cleanV2) return 0;
-    
-    const parts1 = cleanV1.split('.').map(Number);
-    const parts2 = cleanV2.split('.').map(Number);
-    
-    for (let i = 0; i < Math.max(parts1.length, parts2.length); i++) {
-        const p1 = parts1[i] || 0;
-        const p2 = parts2[i] || 0;
-        if (p1 > p2) return 1;
-        if (p1 < p2) return -1;
-    }
-    return 0;
-};
+const DevicePanel: React.FC<DevicePanelProps> = ({ device, onUpdateSchedules, onUpdateConfig, scheduleTemplates = [], firmwareHistory = [], pingHistory = [], rebootLog = [], notificationPreferences, onNotificationPreferencesChange }) => {
+  const { statuses, commands, sendCommand, queues, queueCommand } = useContext(MqttContext);
+  const { status, lastSeen, errorMessage, otaStatus, otaProgress, otaVerification, deviceVersion, isPoweredOff, lastAction, lastActionTime } = statuses[device.device_id] || { status: 'offline', lastSeen: null, errorMessage: null, otaStatus: null, otaProgress: 0, otaVerification: undefined, deviceVersion: null, isPoweredOff: false };
+
+  // Manual Power Control State
+  const [confirmPower, setConfirmPower] = useState<PowerCommand | null>(null);
+  const [cycleMinutes, setCycleMinutes] = useState(5);
 
-const DevicePanel: React.FC<DevicePanelProps> = ({ device, onUpdateSchedules, onUpdateConfig }) => {
-  const { statuses, publish } = useContext(MqttContext);
-  const { status, lastSeen, errorMessage, otaStatus, otaProgress, deviceVersion, isPoweredOff, lastAction, lastActionTime } = statuses[device.device_id] || { status: 'offline', lastSeen: null, errorMessage: null, otaStatus: null, otaProgress: 0, deviceVersion: null, isPoweredOff: false };
+  // Groups State
+  const [newTag, setNewTag] = useState('');
 
-  const [autoRebootEnabled, setAutoRebootEnabled] = useState(device.autoPingReboot || false);
-  const [pingThreshold, setPingThreshold] = useState(device.pingThreshold || 200);
-  const [isEditingThreshold, setIsEditingThreshold] = useState(false);
+  // Connection Settings State
+  const [transport, setTransport] = useState<MqttTransport>(resolveTransport(device).transport);
+  const [brokerPort, setBrokerPort] = useState(resolveTransport(device).port);
   
   // Firmware Update State
-  const [availableReleases, setAvailableReleases] = useState<any[]>([]);
+  const [availableReleases, setAvailableReleases] = useState<FirmwareRelease[]>([]);
+  const [skippedReleases, setSkippedReleases] = useState<string[]>([]); // unreadable manifest entries
   const [updateError, setUpdateError] = useState<string | null>(null);
   const [updateStep, setUpdateStep] = useState<'idle' | 'checking' | 'list' | 'updating'>('idle');
+  // Status retained from an earlier update, so its hash verdict isn't shown for this one
+  const [otaStatusAtStart, setOtaStatusAtStart] = useState<string | null | undefined>(null);
+  const [firmwareSource, setFirmwareSource] = useState(device.firmwareRepo || '');
+  const [hardwareRevision, setHardwareRevision] = useState(device.hardwareRevision?.toString() || '');
 
   useEffect(() => {
-      setAutoRebootEnabled(device.autoPingReboot || false);
-      setPingThreshold(device.pingThreshold || 200);
+      setTransport(resolveTransport(device).transport);
+      setBrokerPort(resolveTransport(device).port);
       // Reset update state on device change
       setUpdateStep('idle');
       setAvailableReleases([]);
+      setSkippedReleases([]);
       setUpdateError(null);
+      setFirmwareSource(device.firmwareRepo || '');
+      setHardwareRevision(device.hardwareRevision?.toString() || '');
   }, [device.device_id]);
 
   // Effect to handle OTA status changes from MQTT to switch UI mode
@@ -218,10 +210,10 @@ const DevicePanel: React.FC<DevicePanelProps> = ({ device, onUpdateSchedules, on
         } else if (s.includes('success')) {
              setUpdateStep('idle');
              // Optionally trigger a refresh of version after reboot
-             setTimeout(() => publish(device.device_id, `${device.device_id}/version/get`, "1"), 5000);
+             setTimeout(() => sendCommand(device.device_id, 'version/get', "1"), 5000);
         }
     }
-  }, [otaStatus, device.device_id, publish]);
+  }, [otaStatus, device.device_id, sendCommand]);
 
   // Prioritize Live MQTT data, fallback to Device stored data
   const displayLastSeen = lastSeen ? lastSeen : (device.lastSeen ? new Date(device.lastSeen) : null);
@@ -229,31 +221,98 @@ const DevicePanel: React.FC<DevicePanelProps> = ({ device, onUpdateSchedules, on
   const displayLastActionTime = lastActionTime || device.lastActionTime;
 
   const isResetting = status === 'resetting';
-
-  const handleReset = () => {
-    if (status === 'online') {
-        const topic = `${device.device_id}/reset`;
-        publish(device.device_id, topic, "1");
+  const displayIsPoweredOff = isPoweredOff !== undefined ? isPoweredOff : device.isPoweredOff;
+
+  // Latest tracked command per control, for inline delivery feedback.
+  const resetCommand = latestCommand(commands, device.device_id, ['reset']);
+  const powerCommand = latestCommand(commands, device.device_id, ['power/off', 'power/on']);
+  const scheduleCommand = latestCommand(commands, device.device_id, ['schedule/set', 'schedule/clear']);
+  const configCommand = latestCommand(commands, device.device_id, ['config/ping_reboot']);
+  const otaCommand = latestCommand(commands, device.device_id, ['ota/start']);
+
+  // The device acknowledges power commands with a power_off / power_on event.
+  const pendingPower = powerCommand && powerCommand.state === 'pending'
+      ? (powerCommand.command === 'power/on' ? 'on' : 'off')
+      : null;
+
+  const sendPowerCommand = (command: PowerCommand) => {
+    setConfirmPower(null);
+    if (command.kind === 'on') {
+        onUpdateConfig(device.device_id, { powerOnAt: undefined });
+        sendCommand(device.device_id, 'power/on', "1");
+    } else if (command.kind === 'off') {
+        onUpdateConfig(device.device_id, { powerOnAt: undefined });
+        sendCommand(device.device_id, 'power/off', "1");
     } else {
-        alert("Device is offline. Cannot send reset command.");
+        onUpdateConfig(device.device_id, { powerOnAt: new Date(Date.now() + command.minutes * 60000).toISOString() });
+        sendCommand(device.device_id, 'power/off', JSON.stringify({ duration: command.minutes }));
     }
   };
 
+  const powerConfirmText = (command: PowerCommand) => {
+    if (command.kind === 'on') return `Switch the router connected to "${device.custom_name}" back on?`;
+    if (command.kind === 'off') return `Switch off the router connected to "${device.custom_name}"? It stays off until you switch it on again.`;
+    return `Switch off the router connected to "${device.custom_name}" for ${command.minutes} minute${command.minutes === 1 ? '' : 's'}? It will switch back on automatically.`;
+  };
+
+  const handleReset = () => {
+    sendCommand(device.device_id, 'reset', "1");
+  };
+
   const handleSchedulesChange = (newSchedules: Schedule[]) => {
     onUpdateSchedules(device.device_id, newSchedules);
-    if (status === 'online') {
-        const topic = `${device.device_id}/schedule/set`;
-        const transformedSchedules = transformSchedulesForDevice(newSchedules);
-        publish(device.device_id, topic, JSON.stringify(transformedSchedules));
+    queueCommand(device.device_id, 'schedule/set', encodeScheduleSet(newSchedules, device.timezone).payload);
+  };
+
+  const handleTimezoneChange = (timezone: string) => {
+    onUpdateConfig(device.device_id, { timezone: timezone || undefined });
+    queueCommand(device.device_id, 'schedule/set', encodeScheduleSet(device.schedules, timezone || undefined).payload);
+    // Quiet hours are wall times too.
+    if (device.quietHoursStart) {
+      queueCommand(device.device_id, 'config/ping_reboot', encodeDeviceConfig(resolveDeviceConfig(device), timezone || undefined));
     }
   };
 
   const handleClearAllSchedules = () => {
-    if (status === 'online') {
-        publish(device.device_id, `${device.device_id}/schedule/clear`, "1");
-    } else {
-        alert("Device is offline. Cannot clear schedules.");
-    }
+    queueCommand(device.device_id, 'schedule/clear', "1");
+  };
+
+  const pendingSync = queues[device.device_id] || [];
+  // Enabled schedules the codec refuses never reach the device.
+  const skippedSchedules = encodeSchedules(device.schedules).skipped;
+
+  // --- Schedule Verification ---
+
+  const verifyCommand = latestCommand(commands, device.device_id, ['schedule/get']);
+  const reportedSchedules = statuses[device.device_id]?.reportedSchedules;
+  // Memoized: schedules reported without ids get fresh ones on every decode.
+  const deviceSchedules = useMemo(() => (reportedSchedules ? decodeSchedules(reportedSchedules) : null), [reportedSchedules]);
+
+  const handleVerifySchedules = () => {
+    sendCommand(device.device_id, 'schedule/get', "1");
+  };
+
+  // The device only knows enabled entries, so disabled local ones survive adoption.
+  const handleAdoptDeviceSchedules = () => {
+    if (!deviceSchedules) return;
+    const reportedIds = (reportedSchedules || []).map(entry => entry.id);
+    const unclaimed = device.schedules.filter(l => l.enabled);
+    const adopted = deviceSchedules.map(s => {
+      // Entries the device reports without an id keep the id of the local
+      // schedule that does the same thing, so re-adopting never renumbers them.
+      const local = unclaimed.find(l => l.id === s.id)
+        || (reportedIds.includes(s.id) ? undefined : unclaimed.find(l => scheduleSignature(l) === scheduleSignature(s)));
+      if (!local) return s;
+      unclaimed.splice(unclaimed.indexOf(local), 1);
+      const unchanged = scheduleSignature(local) === scheduleSignature(s);
+      // Schedules the device reports unchanged keep following their template.
+      return { ...s, id: local.id, templateId: unchanged ? local.templateId : undefined };
+    });
+    onUpdateSchedules(device.device_id, [...adopted, ...device.schedules.filter(s => !s.enabled)]);
+  };
+
+  const handlePushAppSchedules = () => {
+    queueCommand(device.device_id, 'schedule/set', encodeScheduleSet(device.schedules, device.timezone).payload);
   };
 
   // --- Firmware Update Logic ---
@@ -262,25 +321,17 @@ const DevicePanel: React.FC<DevicePanelProps> = ({ device, onUpdateSchedules, on
       setUpdateStep('checking');
       setUpdateError(null);
       setAvailableReleases([]);
+      setSkippedReleases([]);
 
       // 1. Request current version from device (in case we missed the retained msg)
       if (status === 'online') {
-          publish(device.device_id, `${device.device_id}/version/get`, "1");
+          sendCommand(device.device_id, 'version/get', "1");
       }
 
       try {
-          // Fetch ALL releases, not just 'latest'
-          const response = await fetch(`https://api.github.com/repos/${FIRMWARE_REPO}/releases`);
-          if (!response.ok) {
-              throw new Error(response.status === 404 ? "Repo/Releases not found" : "GitHub API Error");
-          }
-          const data = await response.json();
-          
-          if (Array.isArray(data)) {
-              setAvailableReleases(data);
-          } else {
-              setAvailableReleases([data]); // If single object returned
-          }
+          const { releases, skipped } = await createFirmwareProvider(resolveFirmwareSource(device)).listReleases();
+          setAvailableReleases(releases);
+          setSkippedReleases(skipped);
           
           // Wait a moment for device version to arrive if it was requested
           setTimeout(() => {
@@ -293,14 +344,35 @@ const DevicePanel: React.FC<DevicePanelProps> = ({ device, onUpdateSchedules, on
       }
   };
 
-  const startFirmwareUpdate = (downloadUrl: string) => {
-      if (status !== 'online') return;
-      setUpdateStep('updating');
-      publish(device.device_id, `${device.device_id}/ota/start`, downloadUrl);
+  // An offline device gets the update from the queue when it reconnects (see Pending sync).
+  const startFirmwareUpdate = (release: FirmwareAsset) => {
+      setOtaStatusAtStart(otaStatus);
+      if (queueCommand(device.device_id, 'ota/start', encodeOtaStart(release))) {
+          setUpdateStep('updating');
+      } else {
+          setUpdateStep('idle');
+      }
   };
 
+  // An OTA start the device never confirmed would otherwise leave the progress ring spinning.
+  useEffect(() => {
+    if (updateStep === 'updating' && otaCommand && (otaCommand.state === 'failed' || otaCommand.state === 'timed_out')) {
+        setUpdateStep('idle');
+        setUpdateError(otaCommand.error || 'Update could not be started.');
+    }
+  }, [otaCommand?.state]);
+
   // Computed state for update UI
   let updateStatusUI = null;
+
+  const skippedReleasesNote = skippedReleases.length > 0 && (
+      <div className="p-2 bg-yellow-50 dark:bg-yellow-900/20 rounded-md border border-yellow-200 dark:border-yellow-800 text-xs text-yellow-800 dark:text-yellow-200">
+          <p className="font-semibold">{skippedReleases.length === 1 ? '1 manifest entry was' : `${skippedReleases.length} manifest entries were`} skipped</p>
+          <ul className="mt-1 list-disc list-inside">
+              {skippedReleases.map(reason => <li key={reason}>{reason}</li>)}
+          </ul>
+      </div>
+  );
   
   if (updateStep === 'checking') {
       updateStatusUI = <div className="text-sm text-gray-500 flex items-center justify-center p-4"><ClockIcon className="animate-spin mr-2 h-4 w-4"/>Checking Version...</div>;
@@ -314,14 +386,13 @@ const DevicePanel: React.FC<DevicePanelProps> = ({ device, onUpdateSchedules, on
                  <span className="text-xs text-gray-500">Current: <span className="font-mono font-bold text-gray-800 dark:text-gray-200">{current}</span></span>
               </div>
               <div className="max-h-80 overflow-y-auto space-y-2 pr-1 custom-scrollbar">
-                  {availableReleases.map((release: any) => {
-                      const version = release.tag_name;
+                  {availableReleases.map(release => {
+                      const version = release.version;
                       const comparison = compareVersions(version, current);
-                      const asset = release.assets?.find((a: any) => a.name.endsWith('.bin'));
-                      const publishedAt = new Date(release.published_at).toLocaleDateString();
-                      const body = release.body;
-
-                      if (!asset) return null; // Skip releases without binaries
+                      const publishedAt = release.publishedAt ? new Date(release.publishedAt).toLocaleDateString() : null;
+                      const body = release.notes;
+                      const hardwareRange = describeHardwareRange(release);
+                      const compatible = supportsHardware(release, device.hardwareRevision);
 
                       let label = "Reinstall";
                       let colorClass = "bg-gray-100 text-gray-700 dark:bg-gray-600 dark:text-gray-200";
@@ -346,11 +417,17 @@ const DevicePanel: React.FC<DevicePanelProps> = ({ device, onUpdateSchedules, on
                                         <span className="font-mono font-bold">{version}</span>
                                         {comparison === 0 && <span className="text-[10px] bg-blue-200 dark:bg-blue-800 px-1.5 py-0.5 rounded-full">Installed</span>}
                                       </div>
-                                      <div className="text-xs opacity-80">{publishedAt}</div>
+                                      <div className="text-xs opacity-80">
+                                        {[publishedAt, hardwareRange].filter(Boolean).join(' · ')}
+                                      </div>
+                                      {!compatible && (
+                                        <div className="text-xs text-red-600 dark:text-red-400">Not for hardware revision {device.hardwareRevision}</div>
+                                      )}
                                   </div>
                                   <button 
-                                      onClick={() => startFirmwareUpdate(asset.browser_download_url)}
-                                      className="text-xs font-semibold px-3 py-1.5 bg-white dark:bg-gray-800 rounded shadow-sm hover:shadow-md transition-shadow flex items-center shrink-0 ml-2"
+                                      onClick={() => startFirmwareUpdate(release)}
+                                      disabled={!compatible}
+                                      className="text-xs font-semibold px-3 py-1.5 bg-white dark:bg-gray-800 rounded shadow-sm hover:shadow-md transition-shadow flex items-center shrink-0 ml-2 disabled:opacity-50 disabled:shadow-none"
                                   >
                                       <DownloadIcon className="w-3 h-3 mr-1" />
                                       {comparison === 0 ? "Reinstall" : label}
@@ -368,42 +445,108 @@ const DevicePanel: React.FC<DevicePanelProps> = ({ device, onUpdateSchedules, on
                   })}
               </div>
               {availableReleases.length === 0 && <p className="text-center text-sm text-gray-500">No binary releases found.</p>}
+              {skippedReleasesNote}
           </div>
       );
   } else if (updateStep === 'list' && availableReleases.length === 0) {
       updateStatusUI = (
         <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-md border border-red-200 dark:border-red-800 text-center">
-            <p className="text-sm text-red-600 dark:text-red-400">No releases found in repository.</p>
+            <p className="text-sm text-red-600 dark:text-red-400">No releases found at this firmware source.</p>
+            {skippedReleasesNote && <div className="mt-2 text-left">{skippedReleasesNote}</div>}
         </div>
       );
   } else if (updateStep === 'updating') {
       const displayProgress = otaProgress || 0;
+      const verification = otaStatus !== otaStatusAtStart ? otaVerification : undefined;
       updateStatusUI = (
           <div className="flex flex-col items-center justify-center p-4">
-              <CircularProgress percentage={displayProgress} status={otaStatus || "Initializing..."} />
+              <CircularProgress percentage={displayProgress} status={otaStatus || "Initializing..."} verification={verification} />
+              {verification === 'failed' && (
+                  <button
+                      onClick={() => setUpdateStep('idle')}
+                      className="mt-3 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600 px-3 py-1.5 rounded-md text-sm font-medium"
+                  >
+                      Back to Versions
+                  </button>
+              )}
           </div>
       );
   }
 
+  const normalizedSource = firmwareSource.trim() ? normalizeFirmwareSource(firmwareSource) : null;
+  const firmwareSourceInvalid = !!firmwareSource.trim() && !normalizedSource;
+  const parsedRevision = hardwareRevision.trim() ? Number(hardwareRevision) : undefined;
+  const hardwareRevisionInvalid = parsedRevision !== undefined && !(Number.isInteger(parsedRevision) && parsedRevision >= 0);
+  const firmwareSettingsChanged =
+      (normalizedSource || undefined) !== device.firmwareRepo || parsedRevision !== device.hardwareRevision;
+
+  // Releases from the old source no longer apply once the source changes.
+  const handleSaveFirmwareSettings = () => {
+      if (firmwareSourceInvalid || hardwareRevisionInvalid) return;
+      onUpdateConfig(device.device_id, { firmwareRepo: normalizedSource || undefined, hardwareRevision: parsedRevision });
+      setFirmwareSource(normalizedSource || '');
+      setAvailableReleases([]);
+      if (updateStep === 'list') setUpdateStep('idle');
+  };
+
+  // Rolls back to the version before the last update, using the asset that installed it
+  // (or the matching release, if the list has been loaded).
+  const rollbackTarget = findRollbackTarget(firmwareHistory, device.device_id, deviceVersion);
+  const rollbackAsset = rollbackTarget
+      ? rollbackTarget.asset || availableReleases.find(r => compareVersions(r.version, rollbackTarget.version) === 0)
+      : undefined;
+
   // --- End Firmware Logic ---
 
-  const handleToggleAutoReboot = (e: React.ChangeEvent<HTMLInputElement>) => {
-      const isEnabled = e.target.checked;
-      setAutoRebootEnabled(isEnabled);
-      onUpdateConfig(device.device_id, { autoPingReboot: isEnabled });
+  // --- Notifications ---
 
-      if (status === 'online') {
-          publish(device.device_id, `${device.device_id}/config/ping_reboot`, JSON.stringify({
-              enabled: isEnabled,
-              threshold: pingThreshold
-          }));
-      }
+  const notificationEvents = notificationPreferences ? deviceNotificationEvents(notificationPreferences, device.device_id) : [];
+
+  const handleToggleNotification = (type: NotificationEventType) => {
+      if (!notificationPreferences || !onNotificationPreferencesChange) return;
+      const events = notificationEvents.includes(type) ? notificationEvents.filter(e => e !== type) : [...notificationEvents, type];
+      onNotificationPreferencesChange({
+          ...notificationPreferences,
+          deviceEvents: { ...notificationPreferences.deviceEvents, [device.device_id]: events },
+      });
+  };
+
+  // --- Device Config ---
+
+  const deviceConfig = resolveDeviceConfig(device);
+  const reportedConfig = statuses[device.device_id]?.reportedConfig;
+  const readConfigCommand = latestCommand(commands, device.device_id, ['config/get']);
+  const rebootPolicy = evaluateRebootPolicy(deviceConfig, autoRebootTimes(rebootLog), Date.now(), device.timezone);
+
+  // The whole config is published on every change, so the device never keeps a stale field.
+  const handleSaveDeviceConfig = (config: DeviceConfig) => {
+      onUpdateConfig(device.device_id, config);
+      queueCommand(device.device_id, 'config/ping_reboot', encodeDeviceConfig(config, device.timezone));
   };
 
-  const handleSaveThreshold = () => {
-      onUpdateConfig(device.device_id, { pingThreshold: pingThreshold });
+  const handleReadDeviceConfig = () => {
+      sendCommand(device.device_id, 'config/get', "1");
   };
 
+  // Ask once per opened device, as soon as it is reachable.
+  const configRequested = useRef<string | null>(null);
+  useEffect(() => {
+      if (status !== 'online' || configRequested.current === device.device_id) return;
+      configRequested.current = device.device_id;
+      sendCommand(device.device_id, 'config/get', "1");
+  }, [status, device.device_id, sendCommand]);
+
+  const handleSaveTransport = () => {
+      if (!transport.path.trim() || brokerPort <= 0 || brokerPort > 65535) {
+          alert("Please enter a valid port (1-65535) and WebSocket path.");
+          return;
+      }
+      onUpdateConfig(device.device_id, { port: brokerPort, transport: { ...transport, path: transport.path.trim() } });
+  };
+
+  const transportChanged =
+      JSON.stringify({ transport, port: brokerPort }) !== JSON.stringify(resolveTransport(device));
+
   return (
     <div className="p-4">
       <div className="max-w-4xl mx-auto space-y-4">
@@ -411,6 +554,22 @@ const DevicePanel: React.FC<DevicePanelProps> = ({ device, onUpdateSchedules, on
             <h2 className="text-2xl font-bold">{device.custom_name}</h2>
             <p className="text-sm text-gray-500 dark:text-gray-400 font-mono">{device.device_id}</p>
         </div>
+        {pendingSync.length > 0 && (
+            <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md text-sm text-yellow-800 dark:text-yellow-200">
+                <p className="font-semibold">Pending sync</p>
+                <p className="text-xs mt-1">
+                    {pendingSync.map(describeQueuedCommand).join(', ')} will be sent when the device is back online.
+                </p>
+            </div>
+        )}
+        {skippedSchedules.length > 0 && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md text-sm text-red-800 dark:text-red-200">
+                <p className="font-semibold">{skippedSchedules.length === 1 ? '1 schedule is' : `${skippedSchedules.length} schedules are`} not sent to the device</p>
+                <ul className="text-xs mt-1 space-y-0.5">
+                    {skippedSchedules.map(skipped => <li key={skipped.schedule.id}>{describeSkippedSchedule(skipped)}</li>)}
+                </ul>
+            </div>
+        )}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <StatusDisplay 
                 status={status} 
@@ -419,10 +578,10 @@ const DevicePanel: React.FC<DevicePanelProps> = ({ device, onUpdateSchedules, on
                 lastAction={displayLastAction}
                 lastActionTime={displayLastActionTime}
             />
-            <div className="bg-white dark:bg-gray-800 rounded-lg p-4 flex flex-col justify-center">
+            <div className="bg-white dark:bg-gray-800 rounded-lg p-4 flex flex-col justify-center space-y-3">
                  <button 
                     onClick={handleReset} 
-                    disabled={status !== 'online' || isResetting || isPoweredOff}
+                    disabled={status !== 'online' || isResetting || displayIsPoweredOff}
                     className={`w-full font-bold py-3 px-4 rounded-lg flex items-center justify-center transition-colors duration-200 text-white ${
                         isResetting 
                         ? 'bg-blue-600 cursor-wait'
@@ -441,6 +600,56 @@ const DevicePanel: React.FC<DevicePanelProps> = ({ device, onUpdateSchedules, on
                         </>
                     )}
                 </button>
+                <CommandStatus command={resetCommand} successText="Reboot confirmed by device" />
+                <div className="grid grid-cols-2 gap-2">
+                    <button
+                        onClick={() => setConfirmPower({ kind: 'off' })}
+                        disabled={status !== 'online' || isResetting || pendingPower !== null || displayIsPoweredOff}
+                        className="py-2 px-3 rounded-md text-sm font-semibold border border-red-300 dark:border-red-800 text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/30 hover:bg-red-100 dark:hover:bg-red-900/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {pendingPower === 'off' ? 'Switching Off...' : 'Power Off'}
+                    </button>
+                    <button
+                        onClick={() => setConfirmPower({ kind: 'on' })}
+                        disabled={status !== 'online' || pendingPower !== null || !displayIsPoweredOff}
+                        className="py-2 px-3 rounded-md text-sm font-semibold border border-green-300 dark:border-green-800 text-green-700 dark:text-green-300 bg-green-50 dark:bg-green-900/30 hover:bg-green-100 dark:hover:bg-green-900/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {pendingPower === 'on' ? 'Switching On...' : 'Power On'}
+                    </button>
+                </div>
+                <div className="flex items-center gap-2">
+                    <span className="text-sm text-gray-600 dark:text-gray-300 whitespace-nowrap">Off for</span>
+                    <input
+                        type="number"
+                        min={1}
+                        value={cycleMinutes}
+                        onChange={e => setCycleMinutes(Math.max(1, parseInt(e.target.value) || 1))}
+                        className="w-20 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1.5 text-sm text-gray-900 dark:text-white"
+                    />
+                    <span className="text-sm text-gray-600 dark:text-gray-300">min</span>
+                    <button
+                        onClick={() => setConfirmPower({ kind: 'cycle', minutes: cycleMinutes })}
+                        disabled={status !== 'online' || isResetting || pendingPower !== null || displayIsPoweredOff}
+                        className="flex-1 py-1.5 px-3 rounded-md text-sm font-semibold bg-gray-800 dark:bg-gray-700 text-white hover:bg-gray-700 dark:hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Power Cycle
+                    </button>
+                </div>
+                <CommandStatus command={powerCommand} />
+            </div>
+        </div>
+
+        {/* Connection Quality */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-4">
+            <h3 className="text-lg font-bold flex items-center mb-4 text-gray-800 dark:text-white">
+                <WifiIcon className="mr-2" /> Connection Quality
+            </h3>
+            <div className="bg-gray-50 dark:bg-gray-700/50 p-4 rounded-md">
+                <PingChart
+                    buckets={pingHistory}
+                    rebootTimes={rebootLog.map(entry => entry.time)}
+                    threshold={deviceConfig.autoPingReboot ? deviceConfig.pingThreshold : undefined}
+                />
             </div>
         </div>
 
@@ -472,6 +681,36 @@ const DevicePanel: React.FC<DevicePanelProps> = ({ device, onUpdateSchedules, on
                          )}
                     </div>
                     
+                    <div className="mb-3">
+                        <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Firmware source (GitHub repo or manifest URL) and hardware revision</label>
+                        <div className="flex gap-2">
+                            <input
+                                type="text"
+                                value={firmwareSource}
+                                onChange={e => setFirmwareSource(e.target.value)}
+                                placeholder={DEFAULT_FIRMWARE_REPO}
+                                className={`flex-1 min-w-0 bg-white dark:bg-gray-600 border rounded-md px-3 py-1.5 text-sm font-mono text-gray-900 dark:text-white ${firmwareSourceInvalid ? 'border-red-500' : 'border-gray-300 dark:border-gray-500'}`}
+                            />
+                            <input
+                                type="number"
+                                min={0}
+                                value={hardwareRevision}
+                                onChange={e => setHardwareRevision(e.target.value)}
+                                placeholder="Rev"
+                                title="Hardware revision"
+                                className={`w-20 bg-white dark:bg-gray-600 border rounded-md px-2 py-1.5 text-sm text-gray-900 dark:text-white ${hardwareRevisionInvalid ? 'border-red-500' : 'border-gray-300 dark:border-gray-500'}`}
+                            />
+                            <button
+                                onClick={handleSaveFirmwareSettings}
+                                disabled={firmwareSourceInvalid || hardwareRevisionInvalid || !firmwareSettingsChanged || updateStep === 'updating'}
+                                className="px-3 py-1.5 rounded-md text-sm font-semibold bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-50"
+                            >
+                                Save
+                            </button>
+                        </div>
+                        {firmwareSourceInvalid && <p className="text-xs text-red-500 mt-1">Use owner/repository or an http(s) manifest URL.</p>}
+                    </div>
+
                     {updateError && (
                         <div className="mb-3 p-2 bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400 text-xs rounded">
                             Error: {updateError}
@@ -479,77 +718,209 @@ const DevicePanel: React.FC<DevicePanelProps> = ({ device, onUpdateSchedules, on
                     )}
 
                     {updateStatusUI}
+
+                    {rollbackTarget && updateStep !== 'updating' && (
+                        <div className="mt-3 flex justify-between items-center text-sm">
+                            <span className="text-gray-500 dark:text-gray-400">
+                                Previous version: <span className="font-mono font-bold text-gray-800 dark:text-gray-200">{rollbackTarget.version}</span>
+                                {!rollbackAsset && <span className="block text-xs">No recorded download for this version. Check versions to find it.</span>}
+                            </span>
+                            <button
+                                onClick={() => rollbackAsset && startFirmwareUpdate(rollbackAsset)}
+                                disabled={!rollbackAsset || status !== 'online'}
+                                className="border border-orange-300 dark:border-orange-700 text-orange-700 dark:text-orange-300 hover:bg-orange-50 dark:hover:bg-orange-900/30 px-3 py-1.5 rounded-md transition-colors disabled:opacity-50 text-sm font-medium shrink-0 ml-2"
+                            >
+                                Roll Back
+                            </button>
+                        </div>
+                    )}
+
+                    {firmwareHistory.length > 0 && (
+                        <div className="mt-4">
+                            <h5 className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400 mb-2">Update History</h5>
+                            <ul className="space-y-1 max-h-48 overflow-y-auto text-sm">
+                                {firmwareHistory.slice(0, 20).map(entry => (
+                                    <li key={entry.id} className="flex justify-between items-center" title={entry.error}>
+                                        <span className="text-gray-700 dark:text-gray-300">
+                                            <span className="text-xs text-gray-500 dark:text-gray-400 mr-2">{new Date(entry.startedAt).toLocaleString()}</span>
+                                            <span className="font-mono">{entry.fromVersion || '?'} → {entry.toVersion || '?'}</span>
+                                        </span>
+                                        <span className={`text-xs shrink-0 ml-2 ${entry.outcome === 'succeeded' ? 'text-green-600 dark:text-green-400' : entry.outcome === 'failed' ? 'text-red-500 dark:text-red-400' : 'text-blue-600 dark:text-blue-400'}`}>
+                                            {entry.outcome === 'succeeded' ? 'Updated' : entry.outcome === 'failed' ? 'Failed' : 'In progress'}
+                                            {formatDuration(entry) && ` · ${formatDuration(entry)}`}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
                 </div>
             </div>
         </div>
 
         {/* Auto-Reboot by Ping Configuration */}
+        <DeviceConfigCard
+          config={deviceConfig}
+          reportedConfig={reportedConfig}
+          saveCommand={configCommand}
+          readCommand={readConfigCommand}
+          canRead={status === 'online'}
+          policy={rebootPolicy}
+          timezone={device.timezone}
+          onSave={handleSaveDeviceConfig}
+          onAdopt={config => onUpdateConfig(device.device_id, config)}
+          onRead={handleReadDeviceConfig}
+        />
+
+        {/* Notifications */}
+        {notificationPreferences && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-4">
+            <h3 className="text-lg font-bold flex items-center mb-3 text-gray-800 dark:text-white">
+                <BellIcon className="mr-2" /> Notifications
+            </h3>
+            {!notificationPreferences.enabled && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">Notifications are switched off; turn them on from the menu.</p>
+            )}
+            <div className={`grid grid-cols-2 gap-2 ${!notificationPreferences.enabled ? 'opacity-50' : ''}`}>
+                {NOTIFICATION_EVENT_TYPES.map(type => (
+                    <label key={type} className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                        <input
+                            type="checkbox"
+                            checked={notificationEvents.includes(type)}
+                            onChange={() => handleToggleNotification(type)}
+                            className="h-4 w-4 mr-2 rounded"
+                        />
+                        {NOTIFICATION_EVENT_LABELS[type]}
+                    </label>
+                ))}
+            </div>
+            {notificationPreferences.deviceEvents[device.device_id] && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">This device has its own notification settings.</p>
+            )}
+        </div>
+        )}
+
+        {/* Groups */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-4">
+            <h3 className="text-lg font-bold mb-3 text-gray-800 dark:text-white">Groups</h3>
+            <div className="flex flex-wrap gap-2 mb-3">
+                {(device.tags || []).length === 0 && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Not in any group. Tags let you filter the device list and scope bulk actions.</p>
+                )}
+                {(device.tags || []).map(tag => (
+                    <span key={tag} className="flex items-center text-sm px-2 py-1 rounded-full bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200">
+                        {tag}
+                        <button
+                            onClick={() => onUpdateConfig(device.device_id, { tags: removeTag(device.tags, tag) })}
+                            className="ml-1 text-gray-500 hover:text-red-500 dark:text-gray-400"
+                            aria-label={`Remove ${tag}`}
+                        >
+                            &times;
+                        </button>
+                    </span>
+                ))}
+            </div>
+            <form
+                onSubmit={e => {
+                    e.preventDefault();
+                    if (!normalizeTag(newTag)) return;
+                    onUpdateConfig(device.device_id, { tags: addTag(device.tags, newTag) });
+                    setNewTag('');
+                }}
+                className="flex gap-2"
+            >
+                <input
+                    type="text"
+                    value={newTag}
+                    onChange={e => setNewTag(e.target.value)}
+                    placeholder="e.g. site-a"
+                    className="flex-1 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md px-3 py-2 text-gray-900 dark:text-white"
+                />
+                <button type="submit" className="px-4 py-2 bg-blue-600 text-white hover:bg-blue-500 rounded-md text-sm font-semibold">Add</button>
+            </form>
+        </div>
+
+        {/* Broker Connection Settings */}
         <div className="bg-white dark:bg-gray-800 rounded-lg p-4">
             <h3 className="text-lg font-bold flex items-center mb-4 text-gray-800 dark:text-white">
-                <SettingsIcon className="mr-2" /> Auto-Reboot by Ping configuration
+                <WifiIcon className="mr-2" /> Broker Connection
             </h3>
-            <div className="bg-gray-50 dark:bg-gray-700/50 p-4 rounded-md">
-                <div className="flex items-center justify-between mb-4">
+            <div className="bg-gray-50 dark:bg-gray-700/50 p-4 rounded-md space-y-4">
+                <div className="grid grid-cols-3 gap-4">
                     <div>
-                        <p className="font-semibold text-sm text-gray-700 dark:text-gray-200">Reboot on High Ping</p>
-                        <p className="text-xs text-gray-500 dark:text-gray-400">Automatically reboot if ping exceeds threshold.</p>
+                        <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">Scheme</label>
+                        <select
+                            value={transport.scheme}
+                            onChange={e => setTransport(prev => ({ ...prev, scheme: e.target.value as MqttTransport['scheme'] }))}
+                            className="w-full bg-white dark:bg-gray-600 border border-gray-300 dark:border-gray-500 rounded-md px-3 py-2 text-gray-900 dark:text-white"
+                        >
+                            <option value="wss">wss://</option>
+                            <option value="ws">ws://</option>
+                        </select>
                     </div>
-                    <label className="relative inline-flex items-center cursor-pointer">
-                        <input 
-                            type="checkbox" 
-                            checked={autoRebootEnabled} 
-                            onChange={handleToggleAutoReboot} 
-                            className="sr-only peer" 
+                    <div>
+                        <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">Port</label>
+                        <input
+                            type="number"
+                            value={brokerPort}
+                            onChange={e => setBrokerPort(parseInt(e.target.value) || 0)}
+                            className="w-full bg-white dark:bg-gray-600 border border-gray-300 dark:border-gray-500 rounded-md px-3 py-2 text-gray-900 dark:text-white"
                         />
-                        <div className="w-11 h-6 bg-gray-200 dark:bg-gray-600 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
-                    </label>
+                    </div>
+                    <div>
+                        <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">Path</label>
+                        <input
+                            type="text"
+                            value={transport.path}
+                            onChange={e => setTransport(prev => ({ ...prev, path: e.target.value }))}
+                            className="w-full bg-white dark:bg-gray-600 border border-gray-300 dark:border-gray-500 rounded-md px-3 py-2 text-gray-900 dark:text-white font-mono"
+                        />
+                    </div>
                 </div>
-                
-                <div className="mb-2">
-                    <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">Ping Threshold (ms)</label>
-                    {!isEditingThreshold ? (
-                        <div 
-                            onClick={() => setIsEditingThreshold(true)}
-                            className={`w-full bg-white dark:bg-gray-600 border border-gray-300 dark:border-gray-500 rounded-md px-3 py-2 text-gray-900 dark:text-white cursor-pointer flex justify-between items-center transition-all hover:border-blue-400 ${!autoRebootEnabled ? 'opacity-50' : ''}`}
-                            title="Click to edit threshold"
-                        >
-                            <span className="font-mono">{pingThreshold} ms</span>
-                            <span className="text-xs text-gray-500 dark:text-gray-400 italic">Click to edit</span>
-                        </div>
-                    ) : (
-                        <div className="flex gap-2 animate-in fade-in zoom-in duration-200">
-                            <input 
-                                type="number" 
-                                value={pingThreshold} 
-                                onChange={e => setPingThreshold(parseInt(e.target.value) || 0)}
-                                className="flex-1 bg-white dark:bg-gray-600 border border-gray-300 dark:border-gray-500 rounded-md px-3 py-2 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-                                autoFocus
-                                onKeyDown={(e) => {
-                                    if (e.key === 'Enter') {
-                                        handleSaveThreshold();
-                                        setIsEditingThreshold(false);
-                                    }
-                                }}
-                            />
-                            <button 
-                                onClick={() => {
-                                    handleSaveThreshold();
-                                    setIsEditingThreshold(false);
-                                }}
-                                className="px-4 py-2 rounded-md text-sm font-semibold bg-blue-600 text-white hover:bg-blue-500 shadow-sm transition-colors"
-                            >
-                                Save
-                            </button>
-                        </div>
-                    )}
+                {transport.scheme === 'wss' && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                        The browser always verifies the broker's TLS certificate; self-signed brokers need their CA trusted by this device's OS or browser.
+                    </p>
+                )}
+                <div className="flex justify-between items-center">
+                    <span className="text-xs text-gray-500 dark:text-gray-400 font-mono truncate mr-2">
+                        {buildBrokerUrl({ ...device, port: brokerPort, transport })}
+                    </span>
+                    <button
+                        onClick={handleSaveTransport}
+                        disabled={!transportChanged}
+                        className="px-4 py-2 rounded-md text-sm font-semibold bg-blue-600 text-white hover:bg-blue-500 shadow-sm transition-colors disabled:opacity-50 shrink-0"
+                    >
+                        Save
+                    </button>
                 </div>
             </div>
         </div>
 
+        <ConfirmModal
+            isOpen={confirmPower !== null}
+            title={confirmPower?.kind === 'on' ? 'Power On' : confirmPower?.kind === 'cycle' ? 'Power Cycle' : 'Power Off'}
+            message={confirmPower ? powerConfirmText(confirmPower) : ''}
+            confirmLabel={confirmPower?.kind === 'on' ? 'Power On' : 'Power Off'}
+            onConfirm={() => confirmPower && sendPowerCommand(confirmPower)}
+            onCancel={() => setConfirmPower(null)}
+            isDestructive={confirmPower?.kind !== 'on'}
+        />
+
         <ScheduleManager 
           schedules={device.schedules} 
           onSchedulesChange={handleSchedulesChange}
           onClearAll={handleClearAllSchedules}
+          syncCommand={scheduleCommand}
+          deviceSchedules={deviceSchedules}
+          verifyCommand={verifyCommand}
+          canVerify={status === 'online'}
+          onVerify={handleVerifySchedules}
+          onAdoptDeviceSchedules={handleAdoptDeviceSchedules}
+          onPushAppSchedules={handlePushAppSchedules}
+          timezone={device.timezone}
+          onTimezoneChange={handleTimezoneChange}
+          templates={scheduleTemplates}
         />
       </div>
     </div>
@@ -1,13 +1,15 @@
 import React from 'react';
-import { ChevronLeftIcon, MenuIcon } from './icons';
+import { AlertIcon, ChevronLeftIcon, MenuIcon } from './icons';
 
 interface HeaderProps {
   title: string;
   onBack?: () => void;
   onMenuClick?: () => void;
+  alertCount?: number; // firing alerts, shown as a badge
+  onAlertsClick?: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ title, onBack, onMenuClick }) => {
+const Header: React.FC<HeaderProps> = ({ title, onBack, onMenuClick, alertCount = 0, onAlertsClick }) => {
   return (
     <header className="bg-white dark:bg-gray-800 p-4 shadow-md flex items-center sticky top-0 z-10 border-b border-gray-200 dark:border-gray-700">
       {onBack ? (
@@ -19,7 +21,17 @@ const Header: React.FC<HeaderProps> = ({ title, onBack, onMenuClick }) => {
             <MenuIcon />
          </button>
       ) : null}
-      <h1 className="text-xl font-bold truncate">{title}</h1>
+      <h1 className="text-xl font-bold truncate flex-1">{title}</h1>
+      {onAlertsClick && (
+         <button onClick={onAlertsClick} className="relative ml-2 p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors" aria-label="Alerts">
+            <AlertIcon className={alertCount > 0 ? 'text-red-500' : ''} />
+            {alertCount > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs font-bold flex items-center justify-center">
+                {alertCount}
+              </span>
+            )}
+         </button>
+      )}
     </header>
   );
 };
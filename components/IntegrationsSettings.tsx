@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import type { Device, Webhook, WebhookDelivery } from '../types';
+import { EditIcon, LinkIcon, PlusIcon, TrashIcon, XIcon } from './icons';
+import { createWebhook, TEMPLATE_VARIABLES, validateWebhook, WEBHOOK_EVENT_LABELS, WEBHOOK_EVENT_TYPES } from '../services/webhooks';
+
+interface IntegrationsSettingsProps {
+  webhooks: Webhook[];
+  deliveries: WebhookDelivery[];
+  devices: Device[];
+  onWebhooksChange: (webhooks: Webhook[]) => void;
+  onSendTest: (webhook: Webhook) => void;
+  onRetry: (deliveryId: string) => void;
+  onClearLog: () => void;
+  onClose: () => void;
+}
+
+type Tab = 'webhooks' | 'log';
+
+const inputClass = "w-full bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md px-3 py-1.5 text-sm";
+
+const STATE_STYLES: { [state in WebhookDelivery['state']]: string } = {
+  pending: 'bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-300',
+  delivered: 'bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-300',
+  failed: 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300',
+};
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const IntegrationsSettings: React.FC<IntegrationsSettingsProps> = ({ webhooks, deliveries, devices, onWebhooksChange, onSendTest, onRetry, onClearLog, onClose }) => {
+  const [tab, setTab] = useState<Tab>('webhooks');
+  const [draft, setDraft] = useState<Webhook | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const webhookName = (id: string) => webhooks.find(w => w.id === id)?.name || 'Deleted webhook';
+  const deviceName = (id?: string) => (id ? devices.find(d => d.device_id === id)?.custom_name || id : 'Test');
+
+  const updateDraft = (changes: Partial<Webhook>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+    setFormError(null);
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const webhook = { ...draft, name: draft.name.trim(), url: draft.url.trim() };
+    const error = validateWebhook(webhook);
+    if (error) {
+      setFormError(error);
+      return;
+    }
+    onWebhooksChange(webhooks.some(w => w.id === webhook.id) ? webhooks.map(w => (w.id === webhook.id ? webhook : w)) : [...webhooks, webhook]);
+    setDraft(null);
+  };
+
+  const handleDelete = (webhook: Webhook) => {
+    if (window.confirm(`Delete the webhook "${webhook.name}"?`)) {
+      onWebhooksChange(webhooks.filter(w => w.id !== webhook.id));
+    }
+  };
+
+  const handleSendTest = (webhook: Webhook) => {
+    onSendTest(webhook);
+    setTab('log');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md flex flex-col max-h-[80vh] text-gray-900 dark:text-white">
+        <header className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+          <h3 className="text-lg font-bold flex items-center">
+            <LinkIcon className="mr-2" /> Integrations
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-white">
+            <XIcon />
+          </button>
+        </header>
+        <div className="flex border-b border-gray-200 dark:border-gray-700 text-sm">
+          {(['webhooks', 'log'] as Tab[]).map(t => (
+            <button
+              key={t}
+              onClick={() => { setTab(t); setDraft(null); }}
+              className={`flex-1 py-2 ${tab === t ? 'border-b-2 border-blue-600 font-semibold text-blue-600 dark:text-blue-400' : 'text-gray-500 dark:text-gray-400'}`}
+            >
+              {t === 'webhooks' ? 'Webhooks' : `Delivery Log (${deliveries.length})`}
+            </button>
+          ))}
+        </div>
+
+        <div className="p-4 overflow-y-auto">
+          {tab === 'webhooks' && !draft && (
+            <div className="space-y-2">
+              {webhooks.length === 0 && (
+                <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">
+                  Webhooks POST a JSON payload to your chat or incident system when devices go offline, reboot or raise alerts.
+                </p>
+              )}
+              {webhooks.map(webhook => (
+                <div key={webhook.id} className="p-3 border border-gray-200 dark:border-gray-700 rounded-md">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className={`font-semibold truncate ${!webhook.enabled ? 'opacity-50' : ''}`}>{webhook.name}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 font-mono truncate">{webhook.url}</p>
+                    </div>
+                    <div className="flex items-center shrink-0">
+                      <input
+                        type="checkbox"
+                        checked={webhook.enabled}
+                        onChange={() => onWebhooksChange(webhooks.map(w => (w.id === webhook.id ? { ...w, enabled: !w.enabled } : w)))}
+                        className="h-4 w-4 mr-2 rounded"
+                        aria-label={`Enable ${webhook.name}`}
+                      />
+                      <button onClick={() => { setDraft(webhook); setFormError(null); }} className="p-1.5 text-gray-500 hover:text-blue-600 dark:text-gray-400" aria-label="Edit webhook">
+                        <EditIcon className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => handleDelete(webhook)} className="p-1.5 text-gray-500 hover:text-red-600 dark:text-gray-400" aria-label="Delete webhook">
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{webhook.events.map(e => WEBHOOK_EVENT_LABELS[e]).join(', ')}</p>
+                  <button onClick={() => handleSendTest(webhook)} className="mt-2 text-xs text-blue-600 dark:text-blue-400 hover:underline">
+                    Send Test
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => { setDraft(createWebhook()); setFormError(null); }}
+                className="w-full flex items-center justify-center px-4 py-2 text-sm rounded-md border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                <PlusIcon className="w-4 h-4 mr-1" /> Add Webhook
+              </button>
+            </div>
+          )}
+
+          {tab === 'webhooks' && draft && (
+            <div className="space-y-3">
+              <div>
+                <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Name</label>
+                <input type="text" value={draft.name} onChange={e => updateDraft({ name: e.target.value })} placeholder="NOC channel" className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">URL</label>
+                <input type="url" value={draft.url} onChange={e => updateDraft({ url: e.target.value })} placeholder="https://example.com/hooks/rebooter" className={`${inputClass} font-mono`} />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Requests come from this browser, so the endpoint must accept cross-origin POSTs. http://localhost works for a local test receiver.
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-600 dark:text-gray-400 mb-1">Events</p>
+                <div className="grid grid-cols-2 gap-1">
+                  {WEBHOOK_EVENT_TYPES.map(type => (
+                    <label key={type} className="flex items-center text-sm">
+                      <input
+                        type="checkbox"
+                        checked={draft.events.includes(type)}
+                        onChange={() => updateDraft({ events: draft.events.includes(type) ? draft.events.filter(e => e !== type) : [...draft.events, type] })}
+                        className="h-4 w-4 mr-2 rounded"
+                      />
+                      {WEBHOOK_EVENT_LABELS[type]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Payload (JSON)</label>
+                <textarea
+                  value={draft.template}
+                  onChange={e => updateDraft({ template: e.target.value })}
+                  rows={8}
+                  spellCheck={false}
+                  className={`${inputClass} font-mono text-xs`}
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Placeholders: {TEMPLATE_VARIABLES.map(v => `{{${v}}}`).join(' ')}
+                </p>
+              </div>
+              {formError && <p className="text-xs text-red-500">{formError}</p>}
+              <div className="flex gap-2 pt-1">
+                <button onClick={() => setDraft(null)} className="flex-1 px-4 py-2 text-sm rounded-md bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600">
+                  Cancel
+                </button>
+                <button onClick={handleSave} className="flex-1 px-4 py-2 text-sm font-semibold rounded-md bg-blue-600 text-white hover:bg-blue-500">
+                  Save Webhook
+                </button>
+              </div>
+            </div>
+          )}
+
+          {tab === 'log' && (
+            deliveries.length === 0 ? (
+              <p className="text-center text-gray-500 dark:text-gray-400 py-8">Nothing sent yet.</p>
+            ) : (
+              <>
+                <ul className="space-y-2">
+                  {deliveries.map(delivery => (
+                    <li key={delivery.id} className="p-3 rounded-md bg-gray-100 dark:bg-gray-700 text-sm">
+                      <div className="flex justify-between items-start gap-2">
+                        <button onClick={() => setExpanded(expanded === delivery.id ? null : delivery.id)} className="font-semibold text-left truncate hover:underline">
+                          {webhookName(delivery.webhookId)} · {WEBHOOK_EVENT_LABELS[delivery.event]}
+                        </button>
+                        <span className={`text-xs px-2 py-0.5 rounded-full shrink-0 capitalize ${STATE_STYLES[delivery.state]}`}>{delivery.state}</span>
+                      </div>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {deviceName(delivery.deviceId)} · {formatTime(delivery.createdAt)}
+                        {delivery.attempts > 0 && ` · ${delivery.attempts} attempt${delivery.attempts === 1 ? '' : 's'}`}
+                        {delivery.statusCode !== undefined && ` · HTTP ${delivery.statusCode}`}
+                      </p>
+                      {delivery.error && <p className="text-xs text-red-500 mt-1">{delivery.error}</p>}
+                      {delivery.state === 'pending' && delivery.attempts > 0 && delivery.nextAttemptAt && (
+                        <p className="text-xs text-blue-600 dark:text-blue-400 mt-1">Retrying at {formatTime(delivery.nextAttemptAt)}</p>
+                      )}
+                      {expanded === delivery.id && (
+                        <pre className="mt-2 p-2 rounded bg-white dark:bg-gray-800 text-xs overflow-x-auto">{delivery.payload}</pre>
+                      )}
+                      {delivery.state === 'failed' && (
+                        <button onClick={() => onRetry(delivery.id)} className="mt-1 text-xs text-blue-600 dark:text-blue-400 hover:underline">
+                          Retry
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                <button onClick={onClearLog} className="w-full mt-4 px-4 py-2 text-sm rounded-md bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600">
+                  Clear Log
+                </button>
+              </>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IntegrationsSettings;
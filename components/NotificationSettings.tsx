@@ -0,0 +1,124 @@
+import React from 'react';
+import type { Device } from '../types';
+import { BellIcon, XIcon } from './icons';
+import {
+  NOTIFICATION_EVENT_LABELS,
+  NOTIFICATION_EVENT_TYPES,
+  showDeviceNotification,
+  type NotificationEventType,
+  type NotificationPreferences,
+} from '../services/notifications';
+
+interface NotificationSettingsProps {
+  preferences: NotificationPreferences;
+  onPreferencesChange: (preferences: NotificationPreferences) => void;
+  permission: NotificationPermission | 'unsupported';
+  onRequestPermission: () => void;
+  devices: Device[];
+  onClose: () => void;
+}
+
+const toggle = (events: NotificationEventType[], type: NotificationEventType) =>
+  events.includes(type) ? events.filter(e => e !== type) : [...events, type];
+
+const NotificationSettings: React.FC<NotificationSettingsProps> = ({ preferences, onPreferencesChange, permission, onRequestPermission, devices, onClose }) => {
+  const update = (changes: Partial<NotificationPreferences>) => onPreferencesChange({ ...preferences, ...changes });
+  const overridden = devices.filter(d => preferences.deviceEvents[d.device_id]);
+
+  const resetDevice = (deviceId: string) => {
+    const { [deviceId]: _, ...rest } = preferences.deviceEvents;
+    update({ deviceEvents: rest });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md flex flex-col max-h-[80vh] text-gray-900 dark:text-white">
+        <header className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+          <h3 className="text-lg font-bold flex items-center">
+            <BellIcon className="mr-2" /> Notifications
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-white">
+            <XIcon />
+          </button>
+        </header>
+        <div className="p-4 overflow-y-auto space-y-5">
+          {permission === 'unsupported' ? (
+            <p className="text-sm text-yellow-700 dark:text-yellow-300">This browser does not support notifications.</p>
+          ) : permission === 'denied' ? (
+            <p className="text-sm text-yellow-700 dark:text-yellow-300">Notifications are blocked. Allow them for this site in your browser settings.</p>
+          ) : permission === 'default' ? (
+            <button onClick={onRequestPermission} className="w-full px-4 py-2 rounded-md text-sm font-semibold bg-blue-600 text-white hover:bg-blue-500">
+              Allow Notifications
+            </button>
+          ) : (
+            <div className="flex items-center justify-between">
+              <label htmlFor="notifications-enabled" className="text-sm font-semibold">Show notifications</label>
+              <input
+                id="notifications-enabled"
+                type="checkbox"
+                checked={preferences.enabled}
+                onChange={e => update({ enabled: e.target.checked })}
+                className="h-4 w-4 rounded"
+              />
+            </div>
+          )}
+
+          <div className={!preferences.enabled || permission !== 'granted' ? 'opacity-50 pointer-events-none' : ''}>
+            <p className="text-sm font-semibold mb-2">Notify me when</p>
+            <div className="space-y-2">
+              {NOTIFICATION_EVENT_TYPES.map(type => (
+                <label key={type} className="flex items-center text-sm">
+                  <input
+                    type="checkbox"
+                    checked={preferences.events.includes(type)}
+                    onChange={() => update({ events: toggle(preferences.events, type) })}
+                    className="h-4 w-4 mr-2 rounded"
+                  />
+                  {NOTIFICATION_EVENT_LABELS[type]}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">Devices can override this in their settings.</p>
+
+            <label className="block text-sm font-semibold mt-4 mb-1">Repeat the same alert at most every</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={0}
+                value={preferences.debounceMinutes}
+                onChange={e => update({ debounceMinutes: Math.max(0, parseInt(e.target.value) || 0) })}
+                className="w-24 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md px-3 py-1.5"
+              />
+              <span className="text-sm text-gray-500 dark:text-gray-400">minutes per device</span>
+            </div>
+
+            {overridden.length > 0 && (
+              <div className="mt-4">
+                <p className="text-sm font-semibold mb-2">Devices with their own settings</p>
+                <ul className="space-y-1">
+                  {overridden.map(d => (
+                    <li key={d.device_id} className="flex justify-between items-center text-sm bg-gray-100 dark:bg-gray-700 rounded-md px-3 py-1.5">
+                      <span className="truncate">{d.custom_name}</span>
+                      <button onClick={() => resetDevice(d.device_id)} className="text-xs text-blue-600 dark:text-blue-400 hover:underline shrink-0 ml-2">
+                        Use defaults
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <button
+              onClick={() => showDeviceNotification('Remote Rebooter', 'Notifications are working.', '', 'test')}
+              className="w-full mt-4 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md text-sm"
+            >
+              Send Test Notification
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationSettings;
@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from 'react';
+import { BUCKET_MS, findPingGaps, resamplePings, summarizePings, type PingBucket } from '../services/pingHistory';
+
+interface PingChartProps {
+  buckets: PingBucket[];
+  rebootTimes?: number[]; // drawn as markers, to show what led up to a reboot
+  threshold?: number; // auto-reboot threshold line, in ms
+}
+
+type ChartRange = '24h' | '7d';
+
+const HOUR = 60 * 60000;
+// p95Interval: what the p95 is taken over; past a day only hourly buckets are kept.
+const RANGES: { [range in ChartRange]: { span: number; step: number; p95Interval: number; p95Label: string } } = {
+  '24h': { span: 24 * HOUR, step: 15 * 60000, p95Interval: BUCKET_MS, p95Label: '5-min' },
+  '7d': { span: 7 * 24 * HOUR, step: HOUR, p95Interval: HOUR, p95Label: 'hourly' },
+};
+
+const WIDTH = 600;
+const HEIGHT = 160;
+
+const formatMs = (value: number) => `${Math.round(value)} ms`;
+
+const PingChart: React.FC<PingChartProps> = ({ buckets, rebootTimes = [], threshold }) => {
+  const [range, setRange] = useState<ChartRange>('24h');
+  const { span, step, p95Interval, p95Label } = RANGES[range];
+
+  // Recomputed when new samples arrive; "now" moves with them.
+  const { now, points, gaps, stats } = useMemo(() => {
+    const now = Date.now();
+    const from = now - span;
+    return {
+      now,
+      points: resamplePings(buckets, from, now, step),
+      gaps: findPingGaps(buckets, from, now),
+      stats: summarizePings(buckets, from, now, p95Interval),
+    };
+  }, [buckets, span, step, p95Interval]);
+
+  const from = now - span;
+  const peak = Math.max(threshold || 0, ...points.map(p => p.max || 0), 10);
+  const yMax = peak * 1.1;
+  const x = (time: number) => ((time - from) / span) * WIDTH;
+  const y = (value: number) => HEIGHT - (value / yMax) * HEIGHT;
+
+  // Separate path segments so missing intervals leave a break in the line.
+  const linePath = points.reduce((path, point, i) => {
+    if (point.avg === null) return path;
+    const command = i > 0 && points[i - 1].avg !== null ? 'L' : 'M';
+    return `${path}${command}${x(point.time + step / 2).toFixed(1)},${y(point.avg).toFixed(1)}`;
+  }, '');
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <div className="flex gap-1">
+          {(Object.keys(RANGES) as ChartRange[]).map(r => (
+            <button
+              key={r}
+              onClick={() => setRange(r)}
+              className={`px-2 py-0.5 text-xs rounded ${range === r ? 'bg-blue-600 text-white' : 'bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200'}`}
+            >
+              {r}
+            </button>
+          ))}
+        </div>
+        {stats && (
+          <div className="text-xs text-gray-500 dark:text-gray-400 space-x-3">
+            <span>min <strong className="text-gray-800 dark:text-gray-200">{formatMs(stats.min)}</strong></span>
+            <span>avg <strong className="text-gray-800 dark:text-gray-200">{formatMs(stats.avg)}</strong></span>
+            <span title={`95th percentile of the ${p95Label} averages`}>p95 of {p95Label} avg <strong className="text-gray-800 dark:text-gray-200">{formatMs(stats.p95)}</strong></span>
+          </div>
+        )}
+      </div>
+
+      {!stats ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">No ping reports in the last {range}.</p>
+      ) : (
+        <>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-40 bg-white dark:bg-gray-800 rounded">
+            {gaps.map(gap => (
+              <rect key={gap.start} x={x(gap.start)} y={0} width={Math.max(1, x(gap.end) - x(gap.start))} height={HEIGHT} className="fill-gray-300/60 dark:fill-gray-600/60" />
+            ))}
+            {points.map(point => point.min !== null && point.max !== null && (
+              <rect
+                key={point.time}
+                x={x(point.time)}
+                y={y(point.max)}
+                width={x(point.time + step) - x(point.time)}
+                height={Math.max(1, y(point.min) - y(point.max))}
+                className="fill-blue-500/20"
+              />
+            ))}
+            {threshold !== undefined && (
+              <line x1={0} x2={WIDTH} y1={y(threshold)} y2={y(threshold)} strokeDasharray="6 4" className="stroke-red-400" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+            )}
+            <path d={linePath} fill="none" className="stroke-blue-600 dark:stroke-blue-400" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+            {rebootTimes.filter(t => t >= from && t <= now).map(t => (
+              <line key={t} x1={x(t)} x2={x(t)} y1={0} y2={HEIGHT} className="stroke-orange-500" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+            ))}
+          </svg>
+          <div className="flex justify-between text-[10px] text-gray-400 dark:text-gray-500 mt-1">
+            <span>{new Date(from).toLocaleString([], range === '24h' ? { hour: '2-digit', minute: '2-digit' } : { weekday: 'short', day: 'numeric' })}</span>
+            <span>max {formatMs(peak)}</span>
+            <span>now</span>
+          </div>
+          <div className="flex flex-wrap gap-4 mt-2 text-[10px] text-gray-500 dark:text-gray-400">
+            <span className="flex items-center"><span className="inline-block w-3 h-0.5 mr-1 bg-blue-600" />Average</span>
+            <span className="flex items-center"><span className="inline-block w-3 h-2 mr-1 bg-blue-500/20" />Min–max</span>
+            <span className="flex items-center"><span className="inline-block w-3 h-2 mr-1 bg-gray-300 dark:bg-gray-600" />No reports ({stats.gapMinutes} min)</span>
+            <span className="flex items-center"><span className="inline-block w-0.5 h-3 mr-1 bg-orange-500" />Reboot</span>
+            {threshold !== undefined && <span className="flex items-center"><span className="inline-block w-3 h-0.5 mr-1 bg-red-400" />Auto-reboot threshold</span>}
+            {stats.lost > 0 && <span>{stats.lost} report{stats.lost === 1 ? '' : 's'} without a ping</span>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PingChart;
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import type { Device } from '../types';
+import { XIcon } from './icons';
+import { batchCount, type FirmwareRollout, type RolloutDeviceState } from '../services/firmwareRollout';
+
+interface RolloutPanelProps {
+  rollout: FirmwareRollout;
+  devices: Device[];
+  onHalt: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onDismiss: () => void;
+}
+
+const stateStyles: { [state in RolloutDeviceState]: { label: string; className: string } } = {
+  waiting: { label: 'Waiting', className: 'text-gray-500 dark:text-gray-400' },
+  updating: { label: 'Updating', className: 'text-blue-600 dark:text-blue-400' },
+  succeeded: { label: 'Updated', className: 'text-green-600 dark:text-green-400' },
+  failed: { label: 'Failed', className: 'text-red-500 dark:text-red-400' },
+  skipped: { label: 'Skipped', className: 'text-yellow-600 dark:text-yellow-400' },
+};
+
+const statusLabels: { [status in FirmwareRollout['status']]: string } = {
+  running: 'Running',
+  halted: 'Halted',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+const RolloutPanel: React.FC<RolloutPanelProps> = ({ rollout, devices, onHalt, onResume, onCancel, onDismiss }) => {
+  const [showDetails, setShowDetails] = useState(rollout.status === 'halted');
+
+  const deviceName = (deviceId: string) => devices.find(d => d.device_id === deviceId)?.custom_name || deviceId;
+  const count = (state: RolloutDeviceState) => rollout.devices.filter(d => d.state === state).length;
+  const batches = batchCount(rollout);
+  const isActive = rollout.status === 'running' || rollout.status === 'halted';
+
+  return (
+    <div className="mb-6 bg-white dark:bg-gray-800 rounded-lg shadow-md p-4">
+      <div className="flex justify-between items-start">
+        <div>
+          <p className="font-semibold text-gray-900 dark:text-white">
+            Firmware rollout <span className="font-mono">{rollout.version}</span>
+            <span className={`ml-2 text-xs px-2 py-0.5 rounded ${rollout.status === 'halted' ? 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300' : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}>
+              {statusLabels[rollout.status]}
+            </span>
+          </p>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {rollout.currentBatch < 0 ? 'Starting' : rollout.currentBatch === 0 ? 'Canary batch' : `Batch ${rollout.currentBatch + 1}`} of {batches}
+            {' · '}
+            <span className="text-green-600 dark:text-green-400">{count('succeeded')} updated</span>
+            {' · '}
+            <span className="text-blue-600 dark:text-blue-400">{count('updating')} updating</span>
+            {' · '}
+            <span className="text-red-500 dark:text-red-400">{count('failed')} failed</span>
+            {count('skipped') > 0 && <span className="text-yellow-600 dark:text-yellow-400">{' · '}{count('skipped')} skipped</span>}
+          </p>
+          {rollout.status === 'halted' && rollout.haltReason && (
+            <p className="text-sm text-red-500 dark:text-red-400 mt-1">Halted: {rollout.haltReason}</p>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          <button onClick={() => setShowDetails(prev => !prev)} className="text-xs text-blue-600 dark:text-blue-400 hover:underline">
+            {showDetails ? 'Hide' : 'Details'}
+          </button>
+          {!isActive && (
+            <button onClick={onDismiss} className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-white" aria-label="Dismiss">
+              <XIcon className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isActive && (
+        <div className="flex gap-2 mt-3">
+          {rollout.status === 'running' ? (
+            <button onClick={onHalt} className="px-3 py-1 text-sm rounded-md bg-gray-800 dark:bg-gray-700 text-white">Pause</button>
+          ) : (
+            <button onClick={onResume} className="px-3 py-1 text-sm rounded-md bg-blue-600 hover:bg-blue-500 text-white">
+              {count('failed') > 0 ? 'Retry & Resume' : 'Resume'}
+            </button>
+          )}
+          <button onClick={onCancel} className="px-3 py-1 text-sm rounded-md bg-red-600 hover:bg-red-500 text-white">Cancel Rollout</button>
+        </div>
+      )}
+
+      {showDetails && (
+        <div className="mt-3 space-y-3 max-h-64 overflow-y-auto">
+          {Array.from({ length: batches }, (_, batch) => (
+            <div key={batch}>
+              <p className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400">
+                {batch === 0 ? 'Canary' : `Batch ${batch + 1}`}
+              </p>
+              <ul className="space-y-1">
+                {rollout.devices.filter(d => d.batch === batch).map(device => (
+                  <li key={device.deviceId} className="flex justify-between items-center text-sm">
+                    <span className="truncate mr-2 text-gray-700 dark:text-gray-300" title={device.error}>{deviceName(device.deviceId)}</span>
+                    <span className={`shrink-0 ${stateStyles[device.state].className}`}>{stateStyles[device.state].label}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RolloutPanel;
@@ -1,42 +1,210 @@
 
-import React, { useState } from 'react';
-import type { Schedule } from '../types';
-import { ClockIcon, PlusIcon, TrashIcon, PowerIcon } from './icons';
+import React, { useState, useMemo } from 'react';
+import type { Schedule, ScheduleTemplate } from '../types';
+import { ClockIcon, PlusIcon, TrashIcon, PowerIcon, EditIcon } from './icons';
+import type { TrackedCommand } from '../services/commandTracker';
+import CommandStatus from './CommandStatus';
+import { createScheduleId, scheduleSignature, validateSchedule, describeScheduleDays, isScheduleExpired, scheduleRunsOn, type ScheduleRepeat } from '../services/scheduleCodec';
+import { convertWallTime, findDstIssue, getViewerTimeZone, getZonedParts, listTimeZones, type DstIssue } from '../services/timezone';
+import { analyzeSchedules, conflictsFor, type ScheduleConflict } from '../services/scheduleAnalysis';
+import ScheduleTimeline from './ScheduleTimeline';
+import { applyTemplate } from '../services/scheduleTemplates';
 
 interface ScheduleManagerProps {
   schedules: Schedule[];
   onSchedulesChange: (newSchedules: Schedule[]) => void;
   onClearAll: () => void;
+  syncCommand?: TrackedCommand | null;
+  deviceSchedules?: Schedule[] | null;
+  verifyCommand?: TrackedCommand | null;
+  canVerify?: boolean;
+  onVerify?: () => void;
+  onAdoptDeviceSchedules?: () => void;
+  onPushAppSchedules?: () => void;
+  timezone?: string;
+  onTimezoneChange?: (timezone: string) => void;
+  templates?: ScheduleTemplate[];
 }
 
 const weekDays = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
 
-const ScheduleManager: React.FC<ScheduleManagerProps> = ({ schedules, onSchedulesChange, onClearAll }) => {
+const scheduleDstIssue = (s: Schedule, timezone: string): DstIssue | null => {
+  const times = s.action === 'OFF' && s.endTime ? [s.time, s.endTime] : [s.time];
+  return findDstIssue(timezone, times, (year, month, day) => scheduleRunsOn(s, year, month, day));
+};
+
+const describeDstIssue = (issue: DstIssue) => issue.kind === 'gap'
+  ? `Clocks go forward on ${issue.date}; ${issue.time} does not exist that day.`
+  : `Clocks go back on ${issue.date}; ${issue.time} happens twice that day.`;
+
+const describeSchedule = (s: Schedule) => {
+  const action = s.action || 'REBOOT';
+  const time = action === 'OFF' && s.endTime ? `${s.time} ➔ ${s.endTime}` : s.time;
+  return `${action} ${time} (${describeScheduleDays(s)})`;
+};
+
+const describeConflict = (conflict: ScheduleConflict, scheduleId: string, schedules: Schedule[]) => {
+  const otherId = conflict.scheduleIds[0] === scheduleId ? conflict.scheduleIds[1] : conflict.scheduleIds[0];
+  const other = schedules.find(s => s.id === otherId);
+  const otherText = other ? describeSchedule(other) : 'another schedule';
+  const first = conflict.firstDate ? ` (first on ${conflict.firstDate})` : '';
+  switch (conflict.kind) {
+    case 'duplicate': return `Duplicate of ${otherText}.`;
+    case 'overlap': return `Power-off window overlaps ${otherText}${first}.`;
+    case 'reboot_during_off':
+      return conflict.scheduleIds[0] === scheduleId
+        ? `Reboots while the router is off for ${otherText}${first}.`
+        : `${otherText} falls inside this power-off window${first}.`;
+  }
+};
+
+const ScheduleManager: React.FC<ScheduleManagerProps> = ({
+  schedules,
+  onSchedulesChange,
+  onClearAll,
+  syncCommand = null,
+  deviceSchedules = null,
+  verifyCommand = null,
+  canVerify = false,
+  onVerify,
+  onAdoptDeviceSchedules,
+  onPushAppSchedules,
+  timezone,
+  onTimezoneChange,
+  templates = [],
+}) => {
   const [showAddForm, setShowAddForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showComparison, setShowComparison] = useState(false);
   const [newTime, setNewTime] = useState('07:00');
   const [newEndTime, setNewEndTime] = useState('19:00');
   const [newAction, setNewAction] = useState<'REBOOT' | 'OFF'>('REBOOT');
   const [newDays, setNewDays] = useState<string[]>([]);
+  const [newRepeat, setNewRepeat] = useState<ScheduleRepeat>('weekly');
+  const [newDayOfMonth, setNewDayOfMonth] = useState(1);
+  const [newDate, setNewDate] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [conflictWarnings, setConflictWarnings] = useState<{ key: string; messages: string[] } | null>(null);
+  const [showTimeline, setShowTimeline] = useState(false);
+
+  const viewerTimezone = getViewerTimeZone();
+  const showViewerTime = !!timezone && timezone !== viewerTimezone;
+  const timezones = useMemo(listTimeZones, []);
+  const dstIssues = useMemo(() => {
+    const issues: { [scheduleId: string]: DstIssue } = {};
+    if (!timezone) return issues;
+    schedules.forEach(s => {
+      if (!s.enabled || validateSchedule(s)) return;
+      const issue = scheduleDstIssue(s, timezone);
+      if (issue) issues[s.id] = issue;
+    });
+    return issues;
+  }, [schedules, timezone]);
+
+  // Conflicts are checked from today in the device's timezone.
+  const today = useMemo(() => {
+    const { year, month, day } = getZonedParts(timezone || viewerTimezone, Date.now());
+    return { year, month, day };
+  }, [timezone, viewerTimezone]);
+  const conflicts = useMemo(() => analyzeSchedules(schedules, today), [schedules, today]);
+
+  const viewerTime = (s: Schedule, time: string) => {
+    const [year, month, day] = (s.date || '').split('-').map(Number);
+    const converted = convertWallTime(time, timezone as string, viewerTimezone, s.date ? { year, month, day } : undefined);
+    const shift = converted.dayShift ? ` (${converted.dayShift > 0 ? '+' : ''}${converted.dayShift}d)` : '';
+    return `${converted.time}${shift}`;
+  };
+
+  const resetForm = () => {
+    setNewTime('07:00');
+    setNewEndTime('19:00');
+    setNewAction('REBOOT');
+    setNewDays([]);
+    setNewRepeat('weekly');
+    setNewDayOfMonth(1);
+    setNewDate('');
+    setFormError(null);
+    setConflictWarnings(null);
+    setEditingId(null);
+  };
+
+  const handleCloseForm = () => {
+    resetForm();
+    setShowAddForm(false);
+  };
+
+  const handleToggleAddForm = () => {
+    if (showAddForm && !editingId) {
+      handleCloseForm();
+      return;
+    }
+    resetForm();
+    setShowAddForm(true);
+  };
 
-  const handleAddSchedule = () => {
-    if (newTime && newDays.length > 0) {
-      const newSchedule: Schedule = {
-        id: new Date().toISOString(),
-        time: newTime,
-        days: newDays,
-        enabled: true,
-        action: newAction,
-        endTime: newAction === 'OFF' ? newEndTime : undefined
-      };
-      onSchedulesChange([...schedules, newSchedule]);
-      
-      // Reset form defaults
-      setNewTime('07:00');
-      setNewEndTime('19:00');
-      setNewAction('REBOOT');
-      setNewDays([]);
-      setShowAddForm(false);
+  const handleEditSchedule = (schedule: Schedule) => {
+    resetForm();
+    setEditingId(schedule.id);
+    setNewTime(schedule.time);
+    setNewAction(schedule.action || 'REBOOT');
+    if (schedule.endTime) setNewEndTime(schedule.endTime);
+    setNewDays(schedule.days);
+    if (schedule.date !== undefined) {
+      setNewRepeat('once');
+      setNewDate(schedule.date);
+    } else if (schedule.dayOfMonth !== undefined) {
+      setNewRepeat('monthly');
+      setNewDayOfMonth(schedule.dayOfMonth);
     }
+    setShowAddForm(true);
+  };
+
+  // Adds a new schedule, or replaces the one being edited while keeping its id.
+  const handleSaveSchedule = () => {
+    const existing = editingId ? schedules.find(s => s.id === editingId) : undefined;
+    const newSchedule: Schedule = {
+      id: existing ? existing.id : createScheduleId(),
+      time: newTime,
+      days: newRepeat === 'weekly' ? newDays : [],
+      enabled: existing ? existing.enabled : true,
+      action: newAction,
+      endTime: newAction === 'OFF' ? newEndTime : undefined,
+      dayOfMonth: newRepeat === 'monthly' ? newDayOfMonth : undefined,
+      date: newRepeat === 'once' ? newDate : undefined,
+    };
+    const problem = validateSchedule(newSchedule);
+    // Changing a template copy by hand stops it following the template.
+    if (!problem && existing?.templateId && scheduleSignature(existing) === scheduleSignature(newSchedule)) {
+      newSchedule.templateId = existing.templateId;
+    }
+    if (problem) {
+      setFormError(problem);
+      return;
+    }
+    if (isScheduleExpired(newSchedule, new Date(), timezone)) {
+      setFormError('That date and time is already in the past.');
+      return;
+    }
+    setFormError(null);
+
+    // Warn once about clashes with other schedules; saving again keeps it anyway.
+    const { id, ...fields } = newSchedule;
+    const key = JSON.stringify(fields);
+    const updated = existing
+      ? schedules.map(s => s.id === id ? newSchedule : s)
+      : [...schedules, newSchedule];
+    const clashes = conflictsFor(analyzeSchedules(updated, today), id);
+    if (clashes.length > 0 && conflictWarnings?.key !== key) {
+      setConflictWarnings({ key, messages: clashes.map(c => describeConflict(c, id, updated)) });
+      return;
+    }
+    onSchedulesChange(updated);
+    handleCloseForm();
+  };
+
+  const handleApplyTemplate = (templateId: string) => {
+    const template = templates.find(t => t.id === templateId);
+    if (template) onSchedulesChange(applyTemplate(schedules, template));
   };
   
   const toggleDay = (day: string) => {
@@ -46,6 +214,7 @@ const ScheduleManager: React.FC<ScheduleManagerProps> = ({ schedules, onSchedule
   }
 
   const handleDeleteSchedule = (id: string) => {
+    if (id === editingId) handleCloseForm();
     onSchedulesChange(schedules.filter(s => s.id !== id));
   };
   
@@ -53,6 +222,18 @@ const ScheduleManager: React.FC<ScheduleManagerProps> = ({ schedules, onSchedule
     onSchedulesChange(schedules.map(s => s.id === id ? {...s, enabled: !s.enabled} : s));
   };
   
+  const handleVerify = () => {
+    setShowComparison(true);
+    onVerify?.();
+  };
+
+  const enabledSignatures = schedules.filter(s => s.enabled).map(scheduleSignature);
+  const deviceSignatures = (deviceSchedules || []).map(scheduleSignature);
+  const onlyOnDevice = (deviceSchedules || []).filter(s => !enabledSignatures.includes(scheduleSignature(s)));
+  const onlyInApp = schedules.filter(s => s.enabled && !deviceSignatures.includes(scheduleSignature(s)));
+  const isInSync = onlyOnDevice.length === 0 && onlyInApp.length === 0;
+  const hasFreshReport = !!deviceSchedules && verifyCommand?.state === 'acknowledged';
+
   const handleClearAll = () => {
     if (window.confirm('Are you sure you want to clear ALL schedules? This will also remove them from the device.')) {
       onClearAll();
@@ -61,12 +242,80 @@ const ScheduleManager: React.FC<ScheduleManagerProps> = ({ schedules, onSchedule
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg p-4 mt-4">
-      <h3 className="text-lg font-bold flex items-center"><ClockIcon className="mr-2" /> Schedules</h3>
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-bold flex items-center"><ClockIcon className="mr-2" /> Schedules</h3>
+        {schedules.length > 0 && (
+          <button onClick={() => setShowTimeline(prev => !prev)} className="text-xs text-blue-600 dark:text-blue-400 hover:underline">
+            {showTimeline ? 'Hide Week View' : 'Week View'}
+          </button>
+        )}
+      </div>
+      {showTimeline && <ScheduleTimeline schedules={schedules} from={today} conflicts={conflicts} />}
+      {onTimezoneChange && (
+        <div className="mt-2 flex items-center gap-2 text-sm">
+          <label className="text-gray-700 dark:text-gray-300 shrink-0">Device timezone</label>
+          <select
+            value={timezone || ''}
+            onChange={e => onTimezoneChange(e.target.value)}
+            className="flex-1 min-w-0 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1"
+          >
+            <option value="">Not set (device default)</option>
+            {timezone && !timezones.includes(timezone) && <option value={timezone}>{timezone}</option>}
+            {timezones.map(zone => <option key={zone} value={zone}>{zone}</option>)}
+          </select>
+        </div>
+      )}
+      {showViewerTime && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Times are in {timezone}; your time ({viewerTimezone}) is shown below each schedule.</p>
+      )}
+      <CommandStatus command={syncCommand} successText="Schedules synced to device" className="mt-1" />
+      {showComparison && (
+        <div className="mt-3">
+          {!hasFreshReport ? (
+            <CommandStatus command={verifyCommand} />
+          ) : isInSync ? (
+            <p className="text-xs text-green-600 dark:text-green-400">Device schedules match the app.</p>
+          ) : (
+            <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md text-sm text-yellow-800 dark:text-yellow-200">
+              <p className="font-semibold mb-2">Device schedules differ from the app</p>
+              {onlyOnDevice.length > 0 && (
+                <div className="mb-2">
+                  <p className="text-xs font-bold uppercase opacity-70">Only on device</p>
+                  {onlyOnDevice.map((s, i) => <p key={`device-${i}`} className="text-xs font-mono">{describeSchedule(s)}</p>)}
+                </div>
+              )}
+              {onlyInApp.length > 0 && (
+                <div className="mb-2">
+                  <p className="text-xs font-bold uppercase opacity-70">Only in app</p>
+                  {onlyInApp.map(s => <p key={s.id} className="text-xs font-mono">{describeSchedule(s)}</p>)}
+                </div>
+              )}
+              <div className="flex gap-2 mt-3">
+                <button
+                  onClick={() => { onAdoptDeviceSchedules?.(); setShowComparison(false); }}
+                  className="flex-1 px-3 py-1.5 text-xs font-semibold rounded-md bg-white dark:bg-gray-800 border border-yellow-300 dark:border-yellow-700 hover:bg-yellow-100 dark:hover:bg-gray-700"
+                >
+                  Adopt Device Version
+                </button>
+                <button
+                  onClick={() => { onPushAppSchedules?.(); setShowComparison(false); }}
+                  className="flex-1 px-3 py-1.5 text-xs font-semibold rounded-md bg-blue-600 text-white hover:bg-blue-500"
+                >
+                  Push App Version
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
       <div className="mt-4 space-y-3">
         {schedules.map(schedule => {
             const action = schedule.action || 'REBOOT';
+            const expired = isScheduleExpired(schedule, new Date(), timezone);
+            const dstIssue = dstIssues[schedule.id];
+            const scheduleConflicts = expired ? [] : conflictsFor(conflicts, schedule.id);
             return (
-              <div key={schedule.id} className={`p-3 rounded-md flex items-center justify-between transition-colors ${schedule.enabled ? 'bg-gray-100 dark:bg-gray-700' : 'bg-gray-200/50 dark:bg-gray-900/50'}`}>
+              <div key={schedule.id} className={`p-3 rounded-md flex items-center justify-between transition-colors ${schedule.enabled && !expired ? 'bg-gray-100 dark:bg-gray-700' : 'bg-gray-200/50 dark:bg-gray-900/50'}`}>
                 <div>
                   <div className="flex items-center space-x-2">
                       <p className={`text-xl font-mono ${!schedule.enabled && 'line-through text-gray-400 dark:text-gray-500'}`}>
@@ -78,14 +327,39 @@ const ScheduleManager: React.FC<ScheduleManagerProps> = ({ schedules, onSchedule
                       ) : (
                           <span className="text-xs px-2 py-0.5 rounded bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200 font-bold">REBOOT</span>
                       )}
+                      {schedule.templateId && (
+                          <span className="text-xs px-2 py-0.5 rounded bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-200 truncate max-w-[8rem]">
+                            {templates.find(t => t.id === schedule.templateId)?.name || 'Template'}
+                          </span>
+                      )}
+                      {expired && (
+                          <span className="text-xs px-2 py-0.5 rounded bg-gray-300 text-gray-700 dark:bg-gray-600 dark:text-gray-200 font-bold">EXPIRED</span>
+                      )}
                   </div>
-                  <p className={`text-xs text-gray-500 dark:text-gray-400 ${!schedule.enabled && 'line-through'}`}>{schedule.days.join(', ')}</p>
+                  <p className={`text-xs text-gray-500 dark:text-gray-400 ${!schedule.enabled && 'line-through'}`}>{describeScheduleDays(schedule)}</p>
+                  {showViewerTime && (
+                      <p className="text-xs text-gray-400 dark:text-gray-500">
+                        {viewerTime(schedule, schedule.time)}
+                        {action === 'OFF' && schedule.endTime && ` ➔ ${viewerTime(schedule, schedule.endTime)}`} your time
+                      </p>
+                  )}
+                  {dstIssue && !expired && (
+                      <p className="text-xs text-yellow-600 dark:text-yellow-400 mt-1">⚠ {describeDstIssue(dstIssue)}</p>
+                  )}
+                  {scheduleConflicts.map(conflict => (
+                      <p key={`${conflict.kind}-${conflict.scheduleIds.join('-')}`} className="text-xs text-yellow-600 dark:text-yellow-400 mt-1">
+                        ⚠ {describeConflict(conflict, schedule.id, schedules)}
+                      </p>
+                  ))}
                 </div>
                 <div className="flex items-center space-x-2">
                     <label className="relative inline-flex items-center cursor-pointer">
                         <input type="checkbox" checked={schedule.enabled} onChange={() => handleToggleSchedule(schedule.id)} className="sr-only peer" />
                         <div className="w-11 h-6 bg-gray-200 dark:bg-gray-600 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
                     </label>
+                    <button onClick={() => handleEditSchedule(schedule)} className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-100 dark:text-gray-400 dark:hover:text-blue-300 dark:hover:bg-blue-900/50 rounded-full" aria-label="Edit schedule">
+                        <EditIcon className="w-5 h-5" />
+                    </button>
                     <button onClick={() => handleDeleteSchedule(schedule.id)} className="p-2 text-red-500 hover:text-red-600 hover:bg-red-100 dark:text-red-400 dark:hover:text-red-300 dark:hover:bg-red-900/50 rounded-full">
                         <TrashIcon className="w-5 h-5" />
                     </button>
@@ -99,6 +373,7 @@ const ScheduleManager: React.FC<ScheduleManagerProps> = ({ schedules, onSchedule
       </div>
       {showAddForm && (
         <div className="mt-4 p-4 bg-gray-50 dark:bg-gray-900/50 rounded-lg border border-gray-200 dark:border-gray-700">
+            <p className="font-semibold text-gray-900 dark:text-white mb-3">{editingId ? 'Edit Schedule' : 'New Schedule'}</p>
             <div className="mb-4">
                 <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">Action</label>
                 <div className="flex space-x-4">
@@ -119,7 +394,7 @@ const ScheduleManager: React.FC<ScheduleManagerProps> = ({ schedules, onSchedule
 
             <div className="mb-4 grid grid-cols-2 gap-4">
                 <div>
-                    <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">{newAction === 'OFF' ? 'Start Time' : 'Time'}</label>
+                    <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">{newAction === 'OFF' ? 'Start Time' : 'Time'}{timezone && ` (${timezone})`}</label>
                     <input type="time" value={newTime} onChange={e => setNewTime(e.target.value)} className="w-full bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md px-3 py-2"/>
                 </div>
                 {newAction === 'OFF' && (
@@ -131,26 +406,86 @@ const ScheduleManager: React.FC<ScheduleManagerProps> = ({ schedules, onSchedule
             </div>
 
             <div className="mb-4">
-                <label className="block text-sm text-gray-700 dark:text-gray-300">Days</label>
-                <div className="flex flex-wrap gap-2 mt-2">
-                    {weekDays.map(day => (
-                        <button key={day} onClick={() => toggleDay(day)} className={`px-3 py-1 text-sm rounded-full border ${newDays.includes(day) ? 'bg-blue-500 border-blue-500 text-white' : 'bg-gray-200 dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:bg-gray-300 dark:hover:bg-gray-600'}`}>
-                            {day}
+                <label className="block text-sm text-gray-700 dark:text-gray-300 mb-2">Repeat</label>
+                <div className="flex space-x-2">
+                    {(['weekly', 'monthly', 'once'] as ScheduleRepeat[]).map(repeat => (
+                        <button
+                            key={repeat}
+                            onClick={() => setNewRepeat(repeat)}
+                            className={`flex-1 py-1.5 px-3 rounded-md text-sm font-medium border capitalize ${newRepeat === repeat ? 'bg-blue-100 border-blue-500 text-blue-700 dark:bg-blue-900 dark:text-blue-200' : 'bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400'}`}
+                        >
+                            {repeat === 'once' ? 'One time' : repeat}
                         </button>
                     ))}
                 </div>
             </div>
+
+            {newRepeat === 'weekly' && (
+                <div className="mb-4">
+                    <label className="block text-sm text-gray-700 dark:text-gray-300">Days</label>
+                    <div className="flex flex-wrap gap-2 mt-2">
+                        {weekDays.map(day => (
+                            <button key={day} onClick={() => toggleDay(day)} className={`px-3 py-1 text-sm rounded-full border ${newDays.includes(day) ? 'bg-blue-500 border-blue-500 text-white' : 'bg-gray-200 dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:bg-gray-300 dark:hover:bg-gray-600'}`}>
+                                {day}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+            {newRepeat === 'monthly' && (
+                <div className="mb-4">
+                    <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">Day of Month</label>
+                    <input type="number" min={1} max={31} value={newDayOfMonth} onChange={e => setNewDayOfMonth(parseInt(e.target.value, 10) || 1)} className="w-24 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md px-3 py-2"/>
+                    {newDayOfMonth > 28 && (
+                        <p className="text-xs text-yellow-600 dark:text-yellow-400 mt-1">Months without day {newDayOfMonth} are skipped.</p>
+                    )}
+                </div>
+            )}
+            {newRepeat === 'once' && (
+                <div className="mb-4">
+                    <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">Date</label>
+                    <input type="date" value={newDate} onChange={e => setNewDate(e.target.value)} className="w-full bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md px-3 py-2"/>
+                </div>
+            )}
+            {formError && <p className="text-sm text-red-500 dark:text-red-400 mb-4">{formError}</p>}
+            {conflictWarnings && (
+                <div className="mb-4 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md text-sm text-yellow-800 dark:text-yellow-200">
+                    <p className="font-semibold mb-1">This schedule clashes with existing ones</p>
+                    {conflictWarnings.messages.map((message, i) => <p key={i} className="text-xs">{message}</p>)}
+                </div>
+            )}
             <div className="flex justify-end gap-2">
-                <button onClick={() => setShowAddForm(false)} className="px-4 py-2 bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500 rounded-md">Cancel</button>
-                <button onClick={handleAddSchedule} className="px-4 py-2 bg-blue-600 text-white hover:bg-blue-500 rounded-md">Save</button>
+                <button onClick={handleCloseForm} className="px-4 py-2 bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500 rounded-md">Cancel</button>
+                <button onClick={handleSaveSchedule} className="px-4 py-2 bg-blue-600 text-white hover:bg-blue-500 rounded-md">{conflictWarnings ? 'Save Anyway' : 'Save'}</button>
             </div>
         </div>
       )}
       <div className="mt-4 space-y-2">
-        <button onClick={() => setShowAddForm(!showAddForm)} className="w-full bg-blue-600 hover:bg-blue-500 text-white font-semibold py-2 px-4 rounded-md flex items-center justify-center transition-colors">
+        <button onClick={handleToggleAddForm} className="w-full bg-blue-600 hover:bg-blue-500 text-white font-semibold py-2 px-4 rounded-md flex items-center justify-center transition-colors">
           <PlusIcon className="mr-2 h-5 w-5" />
           Add Schedule
         </button>
+        {templates.length > 0 && (
+            <select
+                value=""
+                onChange={e => handleApplyTemplate(e.target.value)}
+                className="w-full bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md px-3 py-2 text-gray-700 dark:text-gray-200"
+            >
+                <option value="">Apply a template...</option>
+                {templates.map(t => (
+                    <option key={t.id} value={t.id}>{t.name}{schedules.some(s => s.templateId === t.id) ? ' (in use)' : ''}</option>
+                ))}
+            </select>
+        )}
+        {onVerify && (
+            <button
+                onClick={handleVerify}
+                disabled={!canVerify || verifyCommand?.state === 'pending'}
+                className="w-full flex items-center justify-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors disabled:opacity-50"
+            >
+                Verify with Device
+            </button>
+        )}
         {schedules.length > 0 && (
             <button
                 onClick={handleClearAll}
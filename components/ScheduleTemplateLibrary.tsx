@@ -0,0 +1,294 @@
+import React, { useContext, useState } from 'react';
+import type { Device, Schedule, ScheduleTemplate } from '../types';
+import MqttContext from '../contexts/MqttContext';
+import type { BulkOperation } from './BulkCommandStatus';
+import { ClockIcon, EditIcon, PlusIcon, TrashIcon, XIcon } from './icons';
+import { describeScheduleDays, encodeScheduleSet, validateSchedule } from '../services/scheduleCodec';
+import { applyTemplate, createTemplate, detachTemplate, devicesUsingTemplate, propagateTemplate, usesTemplate } from '../services/scheduleTemplates';
+
+interface ScheduleTemplateLibraryProps {
+  templates: ScheduleTemplate[];
+  devices: Device[];
+  onTemplatesChange: (templates: ScheduleTemplate[]) => void;
+  onSetDeviceSchedules: (schedulesByDevice: { [deviceId: string]: Schedule[] }) => void;
+  onOperation: (operation: BulkOperation) => void;
+  onClose: () => void;
+}
+
+const weekDays = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const describeTemplate = (template: ScheduleTemplate) => {
+  const s = template.schedule;
+  const action = s.action || 'REBOOT';
+  const time = action === 'OFF' && s.endTime ? `${s.time} ➔ ${s.endTime}` : s.time;
+  return `${action} ${time} · ${describeScheduleDays({ ...s, id: template.id, enabled: true })}`;
+};
+
+const ScheduleTemplateLibrary: React.FC<ScheduleTemplateLibraryProps> = ({ templates, devices, onTemplatesChange, onSetDeviceSchedules, onOperation, onClose }) => {
+  const { queueCommand } = useContext(MqttContext);
+  const [mode, setMode] = useState<'list' | 'edit' | 'apply'>('list');
+  const [current, setCurrent] = useState<ScheduleTemplate | null>(null);
+  const [selectedDeviceIds, setSelectedDeviceIds] = useState<string[]>([]);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Template form
+  const [name, setName] = useState('');
+  const [action, setAction] = useState<'REBOOT' | 'OFF'>('REBOOT');
+  const [time, setTime] = useState('04:00');
+  const [endTime, setEndTime] = useState('06:00');
+  const [monthly, setMonthly] = useState(false);
+  const [days, setDays] = useState<string[]>([...weekDays]);
+  const [dayOfMonth, setDayOfMonth] = useState(1);
+
+  // Saves the new schedules and sends them to each device (queued while offline).
+  const pushSchedules = (schedulesByDevice: { [deviceId: string]: Schedule[] }, label: string) => {
+    const commandIds: string[] = [];
+    let queued = 0;
+    let skipped = 0;
+    devices.forEach(device => {
+      const schedules = schedulesByDevice[device.device_id];
+      if (!schedules) return;
+      const encoded = encodeScheduleSet(schedules, device.timezone);
+      skipped += encoded.skipped.length;
+      const commandId = queueCommand(device.device_id, 'schedule/set', encoded.payload);
+      if (commandId) commandIds.push(commandId);
+      else queued++;
+    });
+    onSetDeviceSchedules(schedulesByDevice);
+    onOperation({ label, commandIds, queued, skipped });
+  };
+
+  const openEditor = (template: ScheduleTemplate | null) => {
+    const s = template?.schedule;
+    setCurrent(template);
+    setName(template?.name || '');
+    setAction(s?.action || 'REBOOT');
+    setTime(s?.time || '04:00');
+    setEndTime(s?.endTime || '06:00');
+    setMonthly(s?.dayOfMonth !== undefined);
+    setDays(s && s.dayOfMonth === undefined ? s.days : [...weekDays]);
+    setDayOfMonth(s?.dayOfMonth || 1);
+    setFormError(null);
+    setMode('edit');
+  };
+
+  const openApply = (template: ScheduleTemplate) => {
+    setCurrent(template);
+    setSelectedDeviceIds(devicesUsingTemplate(devices, template.id).map(d => d.device_id));
+    setMode('apply');
+  };
+
+  const handleSaveTemplate = () => {
+    if (!name.trim()) {
+      setFormError('Give the template a name.');
+      return;
+    }
+    const schedule: ScheduleTemplate['schedule'] = {
+      time,
+      days: monthly ? [] : days,
+      action,
+      endTime: action === 'OFF' ? endTime : undefined,
+      dayOfMonth: monthly ? dayOfMonth : undefined,
+    };
+    const problem = validateSchedule({ ...schedule, id: '', enabled: true });
+    if (problem) {
+      setFormError(problem);
+      return;
+    }
+
+    if (!current) {
+      onTemplatesChange([...templates, createTemplate(name, schedule)]);
+      setMode('list');
+      return;
+    }
+
+    const updated: ScheduleTemplate = { ...current, name: name.trim(), schedule, updatedAt: new Date().toISOString() };
+    const linked = devicesUsingTemplate(devices, current.id);
+    if (linked.length > 0 && !window.confirm(`Update the schedule on ${linked.length} device${linked.length === 1 ? '' : 's'} using "${current.name}"?`)) {
+      return;
+    }
+    onTemplatesChange(templates.map(t => t.id === updated.id ? updated : t));
+    if (linked.length > 0) {
+      const schedulesByDevice: { [deviceId: string]: Schedule[] } = {};
+      linked.forEach(d => { schedulesByDevice[d.device_id] = propagateTemplate(d.schedules, updated); });
+      pushSchedules(schedulesByDevice, `Template "${updated.name}" updated`);
+    }
+    setMode('list');
+  };
+
+  const handleDeleteTemplate = (template: ScheduleTemplate) => {
+    const linked = devicesUsingTemplate(devices, template.id);
+    const note = linked.length > 0 ? ` ${linked.length} device${linked.length === 1 ? ' keeps its' : 's keep their'} copy of the schedule.` : '';
+    if (!window.confirm(`Delete the template "${template.name}"?${note}`)) return;
+    onTemplatesChange(templates.filter(t => t.id !== template.id));
+    if (linked.length > 0) {
+      // Nothing changes on the devices, so there is nothing to send.
+      const schedulesByDevice: { [deviceId: string]: Schedule[] } = {};
+      linked.forEach(d => { schedulesByDevice[d.device_id] = detachTemplate(d.schedules, template.id); });
+      onSetDeviceSchedules(schedulesByDevice);
+    }
+  };
+
+  const handleApply = () => {
+    if (!current || selectedDeviceIds.length === 0) return;
+    const schedulesByDevice: { [deviceId: string]: Schedule[] } = {};
+    devices
+      .filter(d => selectedDeviceIds.includes(d.device_id))
+      .forEach(d => { schedulesByDevice[d.device_id] = applyTemplate(d.schedules, current); });
+    pushSchedules(schedulesByDevice, `Apply "${current.name}"`);
+    onClose();
+  };
+
+  const toggleDevice = (deviceId: string) => {
+    setSelectedDeviceIds(prev => prev.includes(deviceId) ? prev.filter(id => id !== deviceId) : [...prev, deviceId]);
+  };
+
+  const toggleDay = (day: string) => {
+    setDays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]);
+  };
+
+  const title = mode === 'edit' ? (current ? 'Edit Template' : 'New Template') : mode === 'apply' ? `Apply "${current?.name}"` : 'Schedule Library';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md flex flex-col max-h-[80vh]">
+        <header className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white flex items-center">
+            <ClockIcon className="mr-2" /> {title}
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-white">
+            <XIcon />
+          </button>
+        </header>
+
+        <div className="p-4 overflow-y-auto flex-1">
+          {mode === 'list' && (
+            <>
+              {templates.length === 0 && (
+                <p className="text-center text-gray-500 dark:text-gray-400 py-4">No templates yet. Save schedules you use often to apply them in one step.</p>
+              )}
+              <div className="space-y-2">
+                {templates.map(template => {
+                  const count = devicesUsingTemplate(devices, template.id).length;
+                  return (
+                    <div key={template.id} className="p-3 border border-gray-200 dark:border-gray-700 rounded-md">
+                      <div className="flex justify-between items-start">
+                        <div className="min-w-0">
+                          <p className="font-semibold text-gray-900 dark:text-white truncate">{template.name}</p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400 font-mono">{describeTemplate(template)}</p>
+                          <p className="text-xs text-gray-400 dark:text-gray-500">Used by {count} device{count === 1 ? '' : 's'}</p>
+                        </div>
+                        <div className="flex items-center shrink-0">
+                          <button onClick={() => openEditor(template)} className="p-2 text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-300" aria-label="Edit template">
+                            <EditIcon className="w-4 h-4" />
+                          </button>
+                          <button onClick={() => handleDeleteTemplate(template)} className="p-2 text-red-500 hover:text-red-600 dark:text-red-400 dark:hover:text-red-300" aria-label="Delete template">
+                            <TrashIcon className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                      <button onClick={() => openApply(template)} className="mt-2 w-full px-3 py-1.5 text-sm font-semibold rounded-md bg-blue-600 text-white hover:bg-blue-500">
+                        Apply to Devices
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+              <button onClick={() => openEditor(null)} className="mt-4 w-full bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 font-semibold py-2 px-4 rounded-md flex items-center justify-center">
+                <PlusIcon className="mr-2 h-5 w-5" />
+                New Template
+              </button>
+            </>
+          )}
+
+          {mode === 'edit' && (
+            <>
+              <div className="mb-4">
+                <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">Name</label>
+                <input type="text" value={name} onChange={e => setName(e.target.value)} placeholder="Nightly 4am reboot" className="w-full bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md px-3 py-2 text-gray-900 dark:text-white"/>
+              </div>
+              <div className="mb-4 flex space-x-4">
+                <button
+                  onClick={() => setAction('REBOOT')}
+                  className={`flex-1 py-2 px-3 rounded-md text-sm font-medium border ${action === 'REBOOT' ? 'bg-blue-100 border-blue-500 text-blue-700 dark:bg-blue-900 dark:text-blue-200' : 'bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400'}`}
+                >
+                  Reboot
+                </button>
+                <button
+                  onClick={() => setAction('OFF')}
+                  className={`flex-1 py-2 px-3 rounded-md text-sm font-medium border ${action === 'OFF' ? 'bg-red-100 border-red-500 text-red-700 dark:bg-red-900 dark:text-red-200' : 'bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400'}`}
+                >
+                  Power Off
+                </button>
+              </div>
+              <div className="mb-4 grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">{action === 'OFF' ? 'Start Time' : 'Time'}</label>
+                  <input type="time" value={time} onChange={e => setTime(e.target.value)} className="w-full bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md px-3 py-2 text-gray-900 dark:text-white"/>
+                </div>
+                {action === 'OFF' && (
+                  <div>
+                    <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">End Time</label>
+                    <input type="time" value={endTime} onChange={e => setEndTime(e.target.value)} className="w-full bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md px-3 py-2 text-gray-900 dark:text-white"/>
+                  </div>
+                )}
+              </div>
+              <label className="flex items-center text-sm text-gray-700 dark:text-gray-300 mb-3">
+                <input type="checkbox" checked={monthly} onChange={e => setMonthly(e.target.checked)} className="mr-2" />
+                Monthly on a fixed day
+              </label>
+              {monthly ? (
+                <div className="mb-4">
+                  <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">Day of Month</label>
+                  <input type="number" min={1} max={31} value={dayOfMonth} onChange={e => setDayOfMonth(parseInt(e.target.value, 10) || 1)} className="w-24 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md px-3 py-2 text-gray-900 dark:text-white"/>
+                </div>
+              ) : (
+                <div className="mb-4 flex flex-wrap gap-2">
+                  {weekDays.map(day => (
+                    <button key={day} onClick={() => toggleDay(day)} className={`px-3 py-1 text-sm rounded-full border ${days.includes(day) ? 'bg-blue-500 border-blue-500 text-white' : 'bg-gray-200 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300'}`}>
+                      {day}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {formError && <p className="text-sm text-red-500 dark:text-red-400 mb-4">{formError}</p>}
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setMode('list')} className="px-4 py-2 bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500 rounded-md text-gray-800 dark:text-gray-200">Back</button>
+                <button onClick={handleSaveTemplate} className="px-4 py-2 bg-blue-600 text-white hover:bg-blue-500 rounded-md font-semibold">Save Template</button>
+              </div>
+            </>
+          )}
+
+          {mode === 'apply' && current && (
+            <>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-3 font-mono">{describeTemplate(current)}</p>
+              <div className="flex justify-between text-xs mb-2">
+                <button onClick={() => setSelectedDeviceIds(devices.map(d => d.device_id))} className="text-blue-600 dark:text-blue-400 hover:underline">Select all</button>
+                <button onClick={() => setSelectedDeviceIds([])} className="text-blue-600 dark:text-blue-400 hover:underline">Select none</button>
+              </div>
+              <ul className="space-y-1 mb-4">
+                {devices.map(device => (
+                  <li key={device.device_id}>
+                    <label className="flex items-center text-sm text-gray-700 dark:text-gray-300 p-2 rounded hover:bg-gray-50 dark:hover:bg-gray-700">
+                      <input type="checkbox" checked={selectedDeviceIds.includes(device.device_id)} onChange={() => toggleDevice(device.device_id)} className="mr-2" />
+                      <span className="truncate flex-1">{device.custom_name}</span>
+                      {usesTemplate(device.schedules, current.id) && <span className="text-xs text-gray-400 dark:text-gray-500 ml-2">already using</span>}
+                    </label>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setMode('list')} className="px-4 py-2 bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500 rounded-md text-gray-800 dark:text-gray-200">Back</button>
+                <button onClick={handleApply} disabled={selectedDeviceIds.length === 0} className="px-4 py-2 bg-blue-600 text-white hover:bg-blue-500 rounded-md font-semibold disabled:opacity-50">
+                  Apply to {selectedDeviceIds.length} Device{selectedDeviceIds.length === 1 ? '' : 's'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleTemplateLibrary;
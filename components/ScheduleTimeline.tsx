@@ -0,0 +1,73 @@
+import React, { useMemo } from 'react';
+import type { Schedule } from '../types';
+import { addDays, expandSchedules, type CalendarDate, type ScheduleConflict } from '../services/scheduleAnalysis';
+
+interface ScheduleTimelineProps {
+  schedules: Schedule[];
+  from: CalendarDate; // first day shown, in the device's timezone
+  conflicts?: ScheduleConflict[];
+}
+
+const MINUTES_PER_DAY = 1440;
+const DAYS = 7;
+const dayLabels = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const percent = (minutes: number) => `${(minutes / MINUTES_PER_DAY) * 100}%`;
+
+const ScheduleTimeline: React.FC<ScheduleTimelineProps> = ({ schedules, from, conflicts = [] }) => {
+  // Start a day early so windows running past midnight into the first day show up.
+  const occurrences = useMemo(() => expandSchedules(schedules, addDays(from, -1), DAYS + 1), [schedules, from]);
+  const conflicted = new Set(conflicts.flatMap(c => c.scheduleIds));
+
+  return (
+    <div className="mt-3 p-3 bg-gray-50 dark:bg-gray-900/50 rounded-lg border border-gray-200 dark:border-gray-700">
+      <div className="flex ml-12 text-[10px] text-gray-400 dark:text-gray-500">
+        {[0, 6, 12, 18].map(hour => (
+          <span key={hour} className="flex-1">{hour.toString().padStart(2, '0')}:00</span>
+        ))}
+      </div>
+      {Array.from({ length: DAYS }, (_, index) => {
+        const date = addDays(from, index);
+        const dayStart = (index + 1) * MINUTES_PER_DAY;
+        const dayEnd = dayStart + MINUTES_PER_DAY;
+        const label = dayLabels[new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay()];
+
+        return (
+          <div key={index} className="flex items-center mt-1">
+            <span className="w-12 shrink-0 text-xs text-gray-600 dark:text-gray-400">{label} {date.day}</span>
+            <div className="relative flex-1 h-5 bg-gray-200 dark:bg-gray-700 rounded overflow-hidden">
+              {[6, 12, 18].map(hour => (
+                <div key={hour} className="absolute top-0 bottom-0 w-px bg-gray-300 dark:bg-gray-600" style={{ left: percent(hour * 60) }} />
+              ))}
+              {occurrences.filter(o => o.action === 'OFF' && o.start < dayEnd && o.end > dayStart).map((o, i) => {
+                const start = Math.max(o.start, dayStart) - dayStart;
+                const end = Math.min(o.end, dayEnd) - dayStart;
+                return (
+                  <div
+                    key={`off-${i}`}
+                    className={`absolute top-0 bottom-0 ${conflicted.has(o.scheduleId) ? 'bg-yellow-400/80' : 'bg-red-400/70'}`}
+                    style={{ left: percent(start), width: percent(end - start) }}
+                  />
+                );
+              })}
+              {occurrences.filter(o => o.action === 'REBOOT' && o.start >= dayStart && o.start < dayEnd).map((o, i) => (
+                <div
+                  key={`reboot-${i}`}
+                  className={`absolute top-0 bottom-0 w-1 -ml-0.5 ${conflicted.has(o.scheduleId) ? 'bg-yellow-500' : 'bg-blue-600'}`}
+                  style={{ left: percent(o.start - dayStart) }}
+                />
+              ))}
+            </div>
+          </div>
+        );
+      })}
+      <div className="flex gap-4 mt-2 ml-12 text-[10px] text-gray-500 dark:text-gray-400">
+        <span className="flex items-center"><span className="inline-block w-3 h-2 mr-1 bg-red-400/70 rounded-sm" />Power off</span>
+        <span className="flex items-center"><span className="inline-block w-1 h-2 mr-1 bg-blue-600" />Reboot</span>
+        <span className="flex items-center"><span className="inline-block w-3 h-2 mr-1 bg-yellow-400/80 rounded-sm" />Conflict</span>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleTimeline;
@@ -1,7 +1,7 @@
 
 import React from 'react';
 import type { ResetHistoryEntry } from '../types';
-import { XIcon, TrashIcon, SunIcon, MoonIcon } from './icons';
+import { XIcon, TrashIcon, SunIcon, MoonIcon, BellIcon, AlertIcon, LinkIcon } from './icons';
 
 interface SideMenuProps {
   isOpen: boolean;
@@ -10,9 +10,13 @@ interface SideMenuProps {
   onClearHistory: () => void;
   theme: 'light' | 'dark';
   onThemeChange: () => void;
+  onOpenNotifications: () => void;
+  onOpenAlerts: () => void;
+  onOpenIntegrations: () => void;
+  alertCount: number;
 }
 
-const SideMenu: React.FC<SideMenuProps> = ({ isOpen, onClose, history, onClearHistory, theme, onThemeChange }) => {
+const SideMenu: React.FC<SideMenuProps> = ({ isOpen, onClose, history, onClearHistory, theme, onThemeChange, onOpenNotifications, onOpenAlerts, onOpenIntegrations, alertCount }) => {
   const handleClearClick = () => {
     if (window.confirm('Are you sure you want to clear the entire event history? This action cannot be undone.')) {
       onClearHistory();
@@ -64,6 +68,27 @@ const SideMenu: React.FC<SideMenuProps> = ({ isOpen, onClose, history, onClearHi
                         {theme === 'dark' ? <SunIcon className="w-5 h-5" /> : <MoonIcon className="w-5 h-5" />}
                     </button>
                 </div>
+                <button
+                    onClick={onOpenAlerts}
+                    className="w-full flex items-center justify-center px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                >
+                    <AlertIcon className="w-5 h-5 mr-2" />
+                    Alerts{alertCount > 0 ? ` (${alertCount} active)` : ''}
+                </button>
+                <button
+                    onClick={onOpenNotifications}
+                    className="w-full flex items-center justify-center px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                >
+                    <BellIcon className="w-5 h-5 mr-2" />
+                    Notifications
+                </button>
+                <button
+                    onClick={onOpenIntegrations}
+                    className="w-full flex items-center justify-center px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                >
+                    <LinkIcon className="w-5 h-5 mr-2" />
+                    Integrations
+                </button>
                 <button 
                     onClick={handleClearClick}
                     disabled={history.length === 0}
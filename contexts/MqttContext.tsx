@@ -1,14 +1,27 @@
 import { createContext } from 'react';
 import type { DeviceMqttState } from '../hooks/useMqttManager';
+import type { RetryPolicy, TrackedCommand } from '../services/commandTracker';
+import type { CommandQueues } from '../services/commandQueue';
 
 export interface MqttContextType {
   statuses: { [deviceId: string]: DeviceMqttState };
-  publish: (deviceId: string, topic: string, message: string) => void;
+  commands: { [commandId: string]: TrackedCommand };
+  // Publishes `payload` to `${deviceId}/${command}` and returns the tracking id.
+  sendCommand: (deviceId: string, command: string, payload: string, retry?: Partial<RetryPolicy>) => string;
+  queues: CommandQueues;
+  // Like sendCommand, but holds the command until an offline device reconnects (returns null then).
+  queueCommand: (deviceId: string, command: string, payload: string) => string | null;
 }
 
 const MqttContext = createContext<MqttContextType>({
   statuses: {},
-  publish: () => console.warn('MqttProvider not found'),
+  commands: {},
+  sendCommand: () => {
+    console.warn('MqttProvider not found');
+    return '';
+  },
+  queues: {},
+  queueCommand: () => null,
 });
 
 export default MqttContext;
\ No newline at end of file
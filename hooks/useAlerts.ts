@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useRef } from 'react';
+import useLocalStorage from './useLocalStorage';
+import type { AlertRecord, AlertRule, Device } from '../types';
+import type { DeviceMqttState } from './useMqttManager';
+import type { PingHistory } from '../services/pingHistory';
+import type { RebootLog } from '../services/rebootLog';
+import { evaluateAlerts } from '../services/alertRules';
+
+// Rules are about minutes, not seconds; state that changes in between is
+// picked up on the next check.
+const CHECK_INTERVAL_MS = 30000;
+
+interface UseAlertsProps {
+  devices: Device[];
+  statuses: { [deviceId: string]: DeviceMqttState };
+  rebootLog: RebootLog;
+  pingHistory: PingHistory;
+}
+
+export const useAlerts = ({ devices, statuses, rebootLog, pingHistory }: UseAlertsProps) => {
+  const [rules, setRules] = useLocalStorage<AlertRule[]>('alertRules', []);
+  const [alerts, setAlerts] = useLocalStorage<AlertRecord[]>('alerts', []);
+  const startedAt = useRef(Date.now());
+
+  // Latest inputs for the timer, without restarting it on every message.
+  const inputs = useRef({ devices, statuses, rebootLog, pingHistory, rules, alerts });
+  inputs.current = { devices, statuses, rebootLog, pingHistory, rules, alerts };
+
+  const evaluate = useCallback(() => {
+    const current = inputs.current;
+    const next = evaluateAlerts(current.rules, { ...current, startedAt: startedAt.current }, current.alerts, Date.now());
+    if (next !== current.alerts) setAlerts(next);
+  }, [setAlerts]);
+
+  useEffect(() => {
+    const timer = setInterval(evaluate, CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [evaluate]);
+
+  // Edited rules take effect right away; evaluate itself never changes.
+  useEffect(() => {
+    evaluate();
+  }, [rules]);
+
+  const clearResolved = useCallback(() => {
+    setAlerts(prev => prev.filter(a => a.state === 'firing'));
+  }, [setAlerts]);
+
+  return { rules, setRules, alerts, clearResolved };
+};
@@ -0,0 +1,89 @@
+import { useEffect, useRef, useState } from 'react';
+import useLocalStorage from './useLocalStorage';
+import type { DeviceMqttState } from './useMqttManager';
+import type { TrackedCommand } from '../services/commandTracker';
+import { encodeOtaStart, type OtaStartCommand } from '../services/deviceProtocol';
+import {
+  cancelRollout,
+  createRollout,
+  evaluateRollout,
+  haltRollout,
+  markStarted,
+  resumeRollout,
+  rolloutOtaCommand,
+  type FirmwareRollout,
+  type RolloutDeviceSnapshot,
+  type RolloutSettings,
+} from '../services/firmwareRollout';
+
+// How often running rollouts are re-checked for devices that never came back.
+const TIMEOUT_CHECK_MS = 5000;
+
+interface UseFirmwareRolloutProps {
+  statuses: { [deviceId: string]: DeviceMqttState };
+  commands: { [commandId: string]: TrackedCommand };
+  sendCommand: (deviceId: string, command: string, payload: string) => string;
+}
+
+// Drives the persisted rollout: starts batches, sends ota/start and halts on
+// failures. Runs at the app level so a rollout keeps going on every screen.
+export const useFirmwareRollout = ({ statuses, commands, sendCommand }: UseFirmwareRolloutProps) => {
+  const [rollout, setRollout] = useLocalStorage<FirmwareRollout | null>('firmwareRollout', null);
+  const [now, setNow] = useState(() => Date.now());
+  // Keys of ota/start commands already sent, so a re-run effect never sends twice.
+  const sent = useRef(new Set<string>());
+
+  const isRunning = rollout?.status === 'running';
+
+  useEffect(() => {
+    if (!isRunning) return;
+    const timer = setInterval(() => setNow(Date.now()), TIMEOUT_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [isRunning]);
+
+  useEffect(() => {
+    if (!rollout || rollout.status !== 'running') return;
+
+    const snapshots: { [deviceId: string]: RolloutDeviceSnapshot } = {};
+    rollout.devices.forEach(({ deviceId }) => {
+      const status = statuses[deviceId];
+      snapshots[deviceId] = {
+        online: status?.status === 'online',
+        connecting: !status || status.status === 'connecting',
+        otaStatus: status?.otaStatus,
+        otaStatusAt: status?.otaStatusAt?.getTime(),
+        version: status?.deviceVersion,
+      };
+    });
+
+    const result = evaluateRollout(rollout, snapshots, commands, new Date(now));
+    if (result.rollout === rollout) return;
+
+    const commandIds: { [deviceId: string]: string } = {};
+    result.toStart.forEach(deviceId => {
+      const device = result.rollout.devices.find(d => d.deviceId === deviceId);
+      const key = `${rollout.id}|${deviceId}|${device?.startedAt}`;
+      if (sent.current.has(key)) return;
+      sent.current.add(key);
+      commandIds[deviceId] = sendCommand(deviceId, 'ota/start', encodeOtaStart(rolloutOtaCommand(rollout)));
+    });
+    setRollout(markStarted(result.rollout, commandIds));
+  }, [rollout, statuses, commands, now, sendCommand, setRollout]);
+
+  const startRollout = (deviceIds: string[], release: OtaStartCommand, settings: RolloutSettings) => {
+    setRollout(createRollout(deviceIds, release, settings));
+  };
+
+  const updateRollout = (update: (current: FirmwareRollout) => FirmwareRollout) => {
+    setRollout(prev => (prev ? update(prev) : prev));
+  };
+
+  return {
+    rollout,
+    startRollout,
+    haltRollout: () => updateRollout(current => haltRollout(current, 'Paused by user.')),
+    resumeRollout: () => updateRollout(resumeRollout),
+    cancelRollout: () => updateRollout(cancelRollout),
+    dismissRollout: () => setRollout(null),
+  };
+};
@@ -1,5 +1,5 @@
 
-import { useState, Dispatch, SetStateAction } from 'react';
+import { useCallback, useState, Dispatch, SetStateAction } from 'react';
 
 function useLocalStorage<T,>(key: string, initialValue: T): [T, Dispatch<SetStateAction<T>>] {
   const [storedValue, setStoredValue] = useState<T>(() => {
@@ -12,7 +12,8 @@ function useLocalStorage<T,>(key: string, initialValue: T): [T, Dispatch<SetStat
     }
   });
 
-  const setValue: Dispatch<SetStateAction<T>> = (value) => {
+  // Stable per key, like React's own setter, so it is safe in effect and callback deps.
+  const setValue: Dispatch<SetStateAction<T>> = useCallback((value) => {
     try {
       // Use functional update to ensure we always have the most current state
       // even if multiple updates happen in the same render cycle.
@@ -25,7 +26,7 @@ function useLocalStorage<T,>(key: string, initialValue: T): [T, Dispatch<SetStat
     } catch (error) {
       console.error(`Error setting localStorage key “${key}”:`, error);
     }
-  };
+  }, [key]);
 
   return [storedValue, setValue];
 }
@@ -1,16 +1,46 @@
 
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import mqtt from 'mqtt';
-import type { Device } from '../types';
+import type { Device, DeviceConfig } from '../types';
+import useLocalStorage from './useLocalStorage';
+import { buildBrokerUrl } from '../services/mqttTransport';
+import { getDeviceTopics, isDeviceTopic, parseDeviceMessage, type DeviceEvent, type OtaVerification, type RebootPhase, type RebootReason } from '../services/deviceProtocol';
+import type { WireSchedule } from '../services/scheduleCodec';
+import { createCommandId, expectsReply, latestCommand, matchAcknowledgement, resolveRetryPolicy, withCommandId, type RetryPolicy, type TrackedCommand } from '../services/commandTracker';
+import { enqueueCommand, isAnsweredByOtaStatus, isQueueable, isSuperseded, MAX_QUEUE_DELIVERIES, type CommandQueues, type QueuedCommand } from '../services/commandQueue';
+import type { FirmwareEvent, FirmwareEventContext } from '../services/firmwareHistory';
+import { AUTO_POWER_CYCLE_EVENT, AUTO_REBOOT_EVENT, describeSuppression } from '../services/rebootPolicy';
 
 interface MqttClient {
   on(event: string, callback: (...args: any[]) => void): this;
   subscribe(topic: string | string[], options: { qos: number }, callback: (err: Error | null) => void): this;
+  unsubscribe(topic: string | string[]): this;
   publish(topic: string, message: string): this;
   end(force: boolean, cb?: () => void): this;
   connected: boolean;
 }
 
+// One client per broker + credentials. Devices sharing a broker account are
+// multiplexed over the same WebSocket and told apart by their topic prefix.
+interface BrokerConnection {
+  client: MqttClient;
+  deviceIds: Set<string>;
+}
+
+const getBrokerKey = (device: Device) =>
+  `${buildBrokerUrl(device)}|${device.user}|${device.pass}`;
+
+// Longest prefix wins so "router1" never swallows messages meant for "router10".
+const findDeviceForTopic = (deviceIds: Set<string>, topic: string): string | undefined => {
+  let match: string | undefined;
+  deviceIds.forEach(id => {
+    if (topic.startsWith(`${id}/`) && (!match || id.length > match.length)) {
+      match = id;
+    }
+  });
+  return match;
+};
+
 export type MqttStatus = 'online' | 'offline' | 'connecting' | 'error' | 'resetting';
 
 export interface DeviceMqttState {
@@ -19,31 +49,60 @@ export interface DeviceMqttState {
   lastSeen: Date | null;
   healthStatus?: string | null;
   otaStatus?: string;
+  otaStatusAt?: Date | null; // when otaStatus arrived live, i.e. not as a retained message
   otaProgress?: number;
+  otaVerification?: OtaVerification; // hash check result of the current update
   deviceVersion?: string;
   ping?: number | null;
   isPoweredOff?: boolean;
   lastAction?: string;
   lastActionTime?: Date | null;
+  lastRebootAt?: Date | null; // when the device last reported a finished reboot
+  reportedSchedules?: WireSchedule[] | null; // last schedule/state reply
+  reportedSchedulesAt?: Date | null;
+  reportedConfig?: Partial<DeviceConfig> | null; // last config/state report
+  reportedConfigAt?: Date | null;
 }
 
+// Finished commands are kept for display; only this many are retained.
+const MAX_TRACKED_COMMANDS = 200;
+
+// History label; reboots started by the auto-reboot policy are told apart.
+const describeReboot = (phase: RebootPhase, reason?: RebootReason) => {
+  if (phase === 'completed') return 'Reboot Completed';
+  if (reason === 'autoping') return AUTO_REBOOT_EVENT;
+  if (reason === 'escalation') return AUTO_POWER_CYCLE_EVENT;
+  return 'Rebooting';
+};
+
 interface UseMqttManagerProps {
     devices: Device[];
     onDeviceEvent: (deviceId: string, eventType: string, timestamp: Date) => void;
     onSchedulesCleared: (deviceId: string) => void;
     onDeviceSeen: (deviceId: string, timestamp: Date) => void;
     onDeviceAction: (deviceId: string, action: string, timestamp: Date) => void;
+    onFirmwareEvent?: (deviceId: string, event: FirmwareEvent, context: FirmwareEventContext) => void;
+    onPingSample?: (deviceId: string, ping: number | null, time: Date) => void;
 }
 
-export const useMqttManager = ({ devices, onDeviceEvent, onSchedulesCleared, onDeviceSeen, onDeviceAction }: UseMqttManagerProps) => {
+export const useMqttManager = ({ devices, onDeviceEvent, onSchedulesCleared, onDeviceSeen, onDeviceAction, onFirmwareEvent, onPingSample }: UseMqttManagerProps) => {
   const [statuses, setStatuses] = useState<{ [deviceId: string]: DeviceMqttState }>({});
-  const clientsRef = useRef<{ [deviceId: string]: MqttClient }>({});
+  const connectionsRef = useRef<{ [brokerKey: string]: BrokerConnection }>({});
+  const deviceBrokerKeysRef = useRef<{ [deviceId: string]: string }>({});
   const watchdogTimersRef = useRef<{ [deviceId: string]: number }>({});
+  const [commands, setCommands] = useState<{ [commandId: string]: TrackedCommand }>({});
+  const commandsRef = useRef<{ [commandId: string]: TrackedCommand }>({});
+  const commandTimersRef = useRef<{ [commandId: string]: number }>({});
+  // Devices whose firmware has echoed a command id, i.e. implements acks.
+  const [ackDevices, setAckDevices] = useLocalStorage<string[]>('ackDevices', []);
+  const ackDevicesRef = useRef(ackDevices);
 
   const onDeviceEventRef = useRef(onDeviceEvent);
   const onSchedulesClearedRef = useRef(onSchedulesCleared);
   const onDeviceSeenRef = useRef(onDeviceSeen);
   const onDeviceActionRef = useRef(onDeviceAction);
+  const onFirmwareEventRef = useRef(onFirmwareEvent);
+  const onPingSampleRef = useRef(onPingSample);
 
   // Keep refs current to avoid effect dependency loops
   useEffect(() => {
@@ -51,11 +110,13 @@ export const useMqttManager = ({ devices, onDeviceEvent, onSchedulesCleared, onD
     onSchedulesClearedRef.current = onSchedulesCleared;
     onDeviceSeenRef.current = onDeviceSeen;
     onDeviceActionRef.current = onDeviceAction;
-  }, [onDeviceEvent, onSchedulesCleared, onDeviceSeen, onDeviceAction]);
+    onFirmwareEventRef.current = onFirmwareEvent;
+    onPingSampleRef.current = onPingSample;
+  }, [onDeviceEvent, onSchedulesCleared, onDeviceSeen, onDeviceAction, onFirmwareEvent, onPingSample]);
 
   // Create a stable key for device connections
   const connectionKey = useMemo(() => {
-    return devices.map(d => `${d.device_id}|${d.broker}|${d.user}|${d.pass}`).sort().join('||');
+    return devices.map(d => `${d.device_id}|${getBrokerKey(d)}`).sort().join('||');
   }, [devices]);
 
   const devicesRef = useRef(devices);
@@ -73,6 +134,193 @@ export const useMqttManager = ({ devices, onDeviceEvent, onSchedulesCleared, onD
     }));
   };
 
+  // --- Command Tracking ---
+
+  const updateCommand = (commandId: string, changes: Partial<TrackedCommand>) => {
+    const command = commandsRef.current[commandId];
+    if (!command) return;
+    commandsRef.current = { ...commandsRef.current, [commandId]: { ...command, ...changes, updatedAt: new Date() } };
+    setCommands(commandsRef.current);
+  };
+
+  const clearCommandTimer = (commandId: string) => {
+    if (commandTimersRef.current[commandId]) {
+      clearTimeout(commandTimersRef.current[commandId]);
+      delete commandTimersRef.current[commandId];
+    }
+  };
+
+  const finishCommand = (commandId: string, changes: Partial<TrackedCommand>) => {
+    clearCommandTimer(commandId);
+    updateCommand(commandId, changes);
+  };
+
+  const publishAttempt = (commandId: string) => {
+    const command = commandsRef.current[commandId];
+    if (!command || command.state !== 'pending') return;
+
+    const connection = connectionsRef.current[deviceBrokerKeysRef.current[command.deviceId]];
+    if (!connection || !connection.client.connected) {
+      finishCommand(commandId, { state: 'failed', error: 'Device is not connected.' });
+      return;
+    }
+
+    connection.client.publish(`${command.deviceId}/${command.command}`, withCommandId(command.payload, command.id));
+    const attempts = command.attempts + 1;
+    updateCommand(commandId, { attempts });
+
+    clearCommandTimer(commandId);
+    commandTimersRef.current[commandId] = window.setTimeout(() => {
+      delete commandTimersRef.current[commandId];
+      if (attempts < command.policy.maxAttempts) {
+        publishAttempt(commandId);
+      } else {
+        updateCommand(commandId, command.expectsReply
+          ? { state: 'timed_out', error: 'No response from device.' }
+          : { state: 'unconfirmed' });
+      }
+    }, command.policy.timeoutMs);
+  };
+
+  // Oldest pending command first, so a single acknowledgement resolves commands in send order.
+  const resolveCommands = (deviceId: string, events: DeviceEvent[]) => {
+    if (!ackDevicesRef.current.includes(deviceId) && events.some(e => e.kind === 'ack' && e.cid)) {
+      ackDevicesRef.current = [...ackDevicesRef.current, deviceId];
+      setAckDevices(ackDevicesRef.current);
+    }
+
+    const pending = Object.values(commandsRef.current)
+      .filter(c => c.deviceId === deviceId && c.state === 'pending')
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    const resolved = new Set<string>();
+    events.forEach(event => {
+      for (const command of pending) {
+        if (resolved.has(command.id)) continue;
+        const result = matchAcknowledgement(command, event);
+        if (result === null) continue;
+        resolved.add(command.id);
+        finishCommand(command.id, result === true ? { state: 'acknowledged' } : { state: 'failed', error: result });
+        break;
+      }
+    });
+  };
+
+  const trackCommand = (deviceId: string, command: string, payload: string, retry?: Partial<RetryPolicy>): string => {
+    const id = createCommandId();
+    const now = new Date();
+    const replies = expectsReply(command, ackDevicesRef.current.includes(deviceId));
+    const tracked: TrackedCommand = {
+      id,
+      deviceId,
+      command,
+      payload,
+      state: 'pending',
+      attempts: 0,
+      policy: resolveRetryPolicy(command, replies ? retry : { ...retry, maxAttempts: 1 }),
+      expectsReply: replies,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const kept = Object.values(commandsRef.current)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .filter((c, index) => c.state === 'pending' || index < MAX_TRACKED_COMMANDS - 1);
+    commandsRef.current = kept.reduce((acc, c) => ({ ...acc, [c.id]: c }), { [id]: tracked } as { [commandId: string]: TrackedCommand });
+    setCommands(commandsRef.current);
+    return id;
+  };
+
+  const sendCommand = useCallback((deviceId: string, command: string, payload: string, retry?: Partial<RetryPolicy>): string => {
+    const id = trackCommand(deviceId, command, payload, retry);
+    publishAttempt(id);
+    return id;
+  }, []);
+
+  // --- Offline Queue ---
+
+  const [queues, setQueues] = useLocalStorage<CommandQueues>('commandQueue', {});
+  const statusesRef = useRef(statuses);
+  const previousStatusesRef = useRef<{ [deviceId: string]: MqttStatus }>({});
+
+  useEffect(() => {
+    statusesRef.current = statuses;
+  }, [statuses]);
+
+  // Sends right away when the device is online, otherwise parks the command
+  // until it reconnects. Returns the tracking id, or null when queued.
+  // Commands that cannot be queued fail right away for an offline device.
+  const queueCommand = useCallback((deviceId: string, command: string, payload: string): string | null => {
+    if (statusesRef.current[deviceId]?.status === 'online') {
+      setQueues(prev => prev[deviceId]
+        ? { ...prev, [deviceId]: prev[deviceId].filter(entry => !isSuperseded(entry, command)) }
+        : prev);
+      return sendCommand(deviceId, command, payload);
+    }
+    if (!isQueueable(command)) {
+      const id = trackCommand(deviceId, command, payload);
+      finishCommand(id, { state: 'failed', error: 'Device is offline.' });
+      return id;
+    }
+    setQueues(prev => ({ ...prev, [deviceId]: enqueueCommand(prev[deviceId] || [], command, payload) }));
+    return null;
+  }, [setQueues, sendCommand]);
+
+  // Flush on the transition to online; an entry leaves the queue once it is
+  // delivered (acknowledged, unconfirmed by firmware that never acks, or for
+  // ota/start answered by an OTA status); failed deliveries wait for the next
+  // reconnect, up to MAX_QUEUE_DELIVERIES. Entries that can no longer be
+  // queued are dropped unsent.
+  useEffect(() => {
+    const previous = previousStatusesRef.current;
+    previousStatusesRef.current = Object.keys(statuses).reduce(
+      (acc, deviceId) => ({ ...acc, [deviceId]: statuses[deviceId].status }),
+      {} as { [deviceId: string]: MqttStatus }
+    );
+
+    let changed = false;
+    const next: CommandQueues = {};
+    Object.entries(queues).forEach(([deviceId, queue]) => {
+      if (!devicesRef.current.some(d => d.device_id === deviceId)) {
+        changed = true;
+        return;
+      }
+      const cameOnline = statuses[deviceId]?.status === 'online' && previous[deviceId] !== 'online';
+      const remaining: QueuedCommand[] = [];
+
+      queue.forEach(entry => {
+        const tracked = entry.commandId ? commands[entry.commandId] : undefined;
+        const deliveries = entry.deliveries || 0;
+        if (!isQueueable(entry.command) || isAnsweredByOtaStatus(entry, statuses[deviceId]?.otaStatusAt)) {
+          changed = true;
+        } else if (tracked && (tracked.state === 'acknowledged' || tracked.state === 'unconfirmed')) {
+          changed = true;
+        } else if (tracked && tracked.state === 'pending') {
+          remaining.push(entry);
+        } else if (deliveries >= MAX_QUEUE_DELIVERIES) {
+          changed = true;
+        } else if (cameOnline) {
+          changed = true;
+          remaining.push({
+            ...entry,
+            commandId: sendCommand(deviceId, entry.command, entry.payload),
+            deliveries: deliveries + 1,
+            sentAt: new Date().toISOString(),
+          });
+        } else if (entry.commandId) {
+          changed = true;
+          remaining.push({ ...entry, commandId: undefined });
+        } else {
+          remaining.push(entry);
+        }
+      });
+
+      if (remaining.length > 0) next[deviceId] = remaining;
+    });
+
+    if (changed) setQueues(next);
+  }, [statuses, commands]);
+
   useEffect(() => {
     const currentDevices = devicesRef.current;
 
@@ -95,267 +343,234 @@ export const useMqttManager = ({ devices, onDeviceEvent, onSchedulesCleared, onD
       }, 70000); // 70s timeout
     };
 
-    currentDevices.forEach(device => {
-      const { device_id, broker, user, pass } = device;
-
-      if (!clientsRef.current[device_id]) {
-        const brokerUrl = `wss://${broker}:8884/mqtt`;
-        const options = {
-          username: user,
-          password: pass,
-          clientId: `webapp_${device_id}_${Math.random().toString(16).substr(2, 8)}`,
-          reconnectPeriod: 5000,
-          connectTimeout: 10000,
-          keepalive: 60,
-        };
-
-        setDeviceStatus(device_id, { status: 'connecting' });
-        
-        try {
-          const client: any = mqtt.connect(brokerUrl, options);
-          clientsRef.current[device_id] = client;
-          
-          const topics = [
-            `${device_id}/online`,
-            `${device_id}/heartbeat`,
-            `${device_id}/status`,
-            `${device_id}/health/status`,
-            `${device_id}/ota/status`,
-            `${device_id}/ota/progress`,
-            `${device_id}/version`,
-            `${device_id}/last_reset`,
-            `${device_id}/last_reboot`,
-            `${device_id}/events`,
-            `${device_id}/log`
-          ];
-
-          client.on('connect', () => {
-            setDeviceStatus(device_id, { status: 'connecting', errorMessage: 'Connected, waiting for data...' });
-            client.subscribe(topics, { qos: 0 }, (err: Error | null) => {
-              if (err) {
-                setDeviceStatus(device_id, { status: 'error', errorMessage: `Subscription failed: ${err.message}`});
-              }
-            });
-          });
+    const subscribeDevice = (connection: BrokerConnection, device_id: string) => {
+      setDeviceStatus(device_id, { status: 'connecting', errorMessage: 'Connected, waiting for data...' });
+      connection.client.subscribe(getDeviceTopics(device_id), { qos: 0 }, (err: Error | null) => {
+        if (err) {
+          setDeviceStatus(device_id, { status: 'error', errorMessage: `Subscription failed: ${err.message}`});
+        }
+      });
+    };
 
-          client.on('message', (topic: string, message: any, packet: any) => {
-            const rawString = message.toString();
-            // 1. Basic cleaning - keep control chars out
-            let cleanString = rawString.replace(/[\x00-\x1F\x7F-\x9F]/g, "").replace(/^"|"$/g, '').trim(); 
-            const isRetained = packet.retain;
-            
-            let timestampVal: number | null = null;
-            let eventTime: Date | null = null;
-            let payloadStr = cleanString;
-            let uptimeVal: number | null = null;
-            
-            // --- TIMESTAMP EXTRACTION (Aggressive) ---
-            
-            // 1. Try to find any sequence of 10-13 digits (seconds or ms)
-            // This handles "reset_done|1764448611", "online 1764448611", "1764448611", etc.
-            const allDigitMatches = cleanString.match(/(\d{10,14})/g);
-            
-            if (allDigitMatches && allDigitMatches.length > 0) {
-                // Use the last match found (often the appended timestamp)
-                const tsString = allDigitMatches[allDigitMatches.length - 1];
-                timestampVal = parseInt(tsString, 10);
-                
-                // Remove the found timestamp from the payload string for text analysis
-                // We use replace to remove just that instance
-                payloadStr = cleanString.replace(tsString, '').replace(/[|:\-\s]+$/, '').trim();
-            }
+    const handleDeviceMessage = (device_id: string, topic: string, message: any, packet: any) => {
+      const suffix = topic.slice(device_id.length + 1);
+      if (!isDeviceTopic(suffix)) return;
 
-            // 2. JSON Parsing Fallback (if payload looks like JSON)
-            if (cleanString.startsWith('{') && cleanString.endsWith('}')) {
-                 try {
-                     const json = JSON.parse(cleanString);
-                     
-                     const ts = json.ts || json.timestamp || json.time || json.last_seen || json.boot_time || json.last_reset || json.last_reboot;
-                     if (ts) timestampVal = isNaN(Number(ts)) ? Date.parse(ts) : Number(ts);
-                     
-                     if (json.uptime && !isNaN(Number(json.uptime))) {
-                         uptimeVal = Number(json.uptime);
-                     }
-                     
-                     if (json.status) payloadStr = json.status;
-                     else if (json.action) payloadStr = json.action;
-                     else if (json.msg) payloadStr = json.msg;
-                 } catch (e) { /* ignore */ }
-            }
-
-            // --- TIME OBJECT CREATION ---
-            if (timestampVal !== null && !isNaN(timestampVal)) {
-                // Heuristic for Seconds vs Milliseconds (Year 2000 cutoff)
-                if (timestampVal > 946684800000) { 
-                     eventTime = new Date(timestampVal);
-                } else {
-                     eventTime = new Date(timestampVal * 1000);
-                }
-            } else if (uptimeVal !== null) {
-                eventTime = new Date(Date.now() - (uptimeVal * 1000));
-            }
+      const events = parseDeviceMessage(suffix, message.toString(), !!packet.retain);
+      // Retained messages predate anything this session has sent.
+      if (!packet.retain) {
+        resolveCommands(device_id, events);
+      }
+      const statusUpdate: Partial<DeviceMqttState> = {};
 
-            // If no timestamp found, ONLY use current time if NOT retained.
-            if (!eventTime && !isRetained) {
-                eventTime = new Date();
-            }
+      const markSeen = (time: Date | null) => {
+        if (time) {
+          statusUpdate.lastSeen = time;
+          onDeviceSeenRef.current(device_id, time);
+        }
+      };
+
+      // Actions without a known time (retained, no timestamp) are not recorded.
+      const recordAction = (action: string, eventType: string, time: Date | null) => {
+        if (!time) return false;
+        // Trigger global event callbacks (populates History)
+        onDeviceEventRef.current(device_id, eventType, time);
+        // Update Local Storage
+        onDeviceActionRef.current(device_id, action, time);
+        // Update Live State
+        statusUpdate.lastAction = action;
+        statusUpdate.lastActionTime = time;
+        return true;
+      };
+
+      // Firmware history needs the version from before this message and what was last sent.
+      const reportFirmwareEvent = (event: FirmwareEvent) => {
+        const otaCommand = latestCommand(commandsRef.current, device_id, ['ota/start']);
+        onFirmwareEventRef.current?.(device_id, event, {
+          retained: !!packet.retain,
+          previousVersion: statusesRef.current[device_id]?.deviceVersion,
+          otaPayload: otaCommand?.payload,
+        });
+      };
 
-            // Normalize Payload for keyword matching
-            let payload = payloadStr.replace(/^[|:\-\s]+|[|:\-\s]+$/g, '').toLowerCase();
-
-            // --- TOPIC & PAYLOAD ANALYSIS ---
-            const isHeartbeatTopic = topic.endsWith('/online') || topic.endsWith('/heartbeat') || topic.endsWith('/status');
-            const isResetTopic = topic.endsWith('/last_reset') || topic.endsWith('/last_reboot');
-            
-            // Critical Keywords
-            const hasResetDone = payload.includes('reset_done') || payload.includes('boot') || payload.includes('start') || (payload.includes('reset') && payload.includes('done'));
-            const hasResetting = payload.includes('resetting');
-            const hasOnline = payload === 'online' || payload === '1' || payload === 'true' || payload === 'on' || payload === 'connected' || payload === 'idle';
-
-            const isOnlineSignal = hasOnline || hasResetDone || hasResetting;
-
-            let detectedActionType = '';
-            let detectedEventType = '';
-            let isRebootEvent = false;
-            let isPowerEvent = false;
-            let poweredOffState = false;
-
-            // --- ACTION DETECTION ---
-            
-            // Priority 1: Reboot Detection
-            if (isResetTopic || hasResetDone || hasResetting || payload.includes('reset_manual') || payload.includes('reset_schedule') || payload.includes('reboot')) {
-                 detectedActionType = 'Reboot';
-                 detectedEventType = hasResetDone ? 'Reboot Completed' : 'Rebooting';
-                 isRebootEvent = true;
-            } 
-            // Priority 2: Power Detection
-            else if (payload === 'power_off' || payload === 'turn_off' || payload === 'off' || payload === '0') {
-                 detectedActionType = 'Power Off';
-                 detectedEventType = 'Powered off';
-                 isPowerEvent = true;
-                 poweredOffState = true;
-            } else if (payload.includes('power_on') || payload.includes('turn_on')) {
-                 detectedActionType = 'Power On';
-                 detectedEventType = 'Powered ON';
-                 isPowerEvent = true;
-                 poweredOffState = false;
+      events.forEach(event => {
+        switch (event.kind) {
+          case 'presence':
+            if (event.state === 'offline') {
+              stopWatchdog(device_id);
+              statusUpdate.status = 'offline';
+              statusUpdate.errorMessage = "Device disconnected.";
+              statusUpdate.ping = null;
+            } else {
+              statusUpdate.status = event.state;
+              statusUpdate.errorMessage = null;
+              startWatchdog(device_id);
             }
-            
-            // --- STATE UPDATES ---
-            const statusUpdate: Partial<DeviceMqttState> = {};
-
-            if (topic.endsWith('/health/status') && !isRetained) {
-                const match = rawString.match(/(\d+)/);
-                if (match) statusUpdate.ping = parseInt(match[1], 10);
-                
-                statusUpdate.healthStatus = rawString;
-                statusUpdate.status = 'online';
-                statusUpdate.errorMessage = null;
-                const pingTime = new Date();
-                statusUpdate.lastSeen = pingTime;
-                
-                onDeviceSeenRef.current(device_id, pingTime);
-                startWatchdog(device_id);
-
-            } else if (topic.endsWith('/ota/status')) {
-                statusUpdate.otaStatus = rawString;
-            } else if (topic.endsWith('/ota/progress')) {
-                const progress = parseInt(rawString, 10);
-                if (!isNaN(progress)) statusUpdate.otaProgress = progress;
-            } else if (topic.endsWith('/version')) {
-                statusUpdate.deviceVersion = rawString;
-            } else if (isHeartbeatTopic) {
-                
-                if (isOnlineSignal || isRebootEvent) {
-                    if (hasResetting) {
-                         statusUpdate.status = 'resetting';
-                    } else {
-                         statusUpdate.status = 'online';
-                    }
-                    statusUpdate.errorMessage = null;
-                    startWatchdog(device_id);
-                    
-                    if (eventTime) {
-                        statusUpdate.lastSeen = eventTime;
-                        onDeviceSeenRef.current(device_id, eventTime);
-                    }
-                } else if (payload.includes('offline') || payload === 'disconnected') {
-                    stopWatchdog(device_id);
-                    statusUpdate.status = 'offline';
-                    statusUpdate.errorMessage = "Device disconnected.";
-                    statusUpdate.ping = null;
-                    
-                    if (eventTime) {
-                        statusUpdate.lastSeen = eventTime;
-                        onDeviceSeenRef.current(device_id, eventTime);
-                    }
-                }
-                
-                if (topic.endsWith('/status')) {
-                     if (payload.includes('schedules_cleared')) {
-                        onSchedulesClearedRef.current(device_id);
-                    }
-                }
-            } 
-
-            // Apply Detected Actions
-            if (detectedActionType && eventTime) {
-                 // Trigger global event callbacks (populates History)
-                 onDeviceEventRef.current(device_id, detectedEventType, eventTime);
-                 
-                 // Update Local Storage
-                 onDeviceActionRef.current(device_id, detectedActionType, eventTime);
-                 
-                 // Update Live State
-                 statusUpdate.lastAction = detectedActionType;
-                 statusUpdate.lastActionTime = eventTime;
-
-                 if (isRebootEvent) {
-                     // For reboots, also update lastSeen if it's from a status topic
-                     if (isHeartbeatTopic) {
-                         statusUpdate.lastSeen = eventTime;
-                         onDeviceSeenRef.current(device_id, eventTime);
-                     }
-                 }
-
-                 if (isPowerEvent) {
-                     statusUpdate.isPoweredOff = poweredOffState;
-                 }
+            markSeen(event.time);
+            break;
+          case 'reboot':
+            recordAction('Reboot', describeReboot(event.phase, event.reason), event.time);
+            if (event.phase === 'completed' && event.time) statusUpdate.lastRebootAt = event.time;
+            break;
+          case 'autoping_skipped':
+            // History only: nothing happened to the router.
+            if (event.time) onDeviceEventRef.current(device_id, describeSuppression(event.reason || 'policy'), event.time);
+            break;
+          case 'power':
+            if (recordAction(event.poweredOff ? 'Power Off' : 'Power On', event.poweredOff ? 'Powered off' : 'Powered ON', event.time)) {
+              statusUpdate.isPoweredOff = event.poweredOff;
             }
+            break;
+          case 'schedules_cleared':
+            onSchedulesClearedRef.current(device_id);
+            break;
+          case 'schedules_report':
+            statusUpdate.reportedSchedules = event.schedules;
+            statusUpdate.reportedSchedulesAt = new Date();
+            break;
+          case 'config_report':
+            statusUpdate.reportedConfig = event.config;
+            statusUpdate.reportedConfigAt = new Date();
+            break;
+          case 'schedules_set':
+          case 'ack':
+            // Only relevant to command tracking.
+            break;
+          case 'health':
+            if (event.ping !== null) statusUpdate.ping = event.ping;
+            statusUpdate.healthStatus = event.raw;
+            onPingSampleRef.current?.(device_id, event.ping, new Date());
+            statusUpdate.status = 'online';
+            statusUpdate.errorMessage = null;
+            markSeen(new Date());
+            startWatchdog(device_id);
+            break;
+          case 'ota_status':
+            statusUpdate.otaStatus = event.status;
+            if (!packet.retain) statusUpdate.otaStatusAt = new Date();
+            // A new download starts without a verdict; keep it otherwise until the next update.
+            if (event.verification) statusUpdate.otaVerification = event.verification;
+            else if (/start|download/i.test(event.status)) statusUpdate.otaVerification = undefined;
+            reportFirmwareEvent(event);
+            break;
+          case 'ota_progress':
+            statusUpdate.otaProgress = event.progress;
+            reportFirmwareEvent(event);
+            break;
+          case 'version':
+            statusUpdate.deviceVersion = event.version;
+            reportFirmwareEvent(event);
+            break;
+          case 'log':
+            // Informational only; never treated as a state change.
+            break;
+        }
+      });
 
-            if (Object.keys(statusUpdate).length > 0) {
-                setDeviceStatus(device_id, statusUpdate);
-            }
+      if (Object.keys(statusUpdate).length > 0) {
+          setDeviceStatus(device_id, statusUpdate);
+      }
+    };
 
-          });
+    const createConnection = (brokerKey: string, device: Device): BrokerConnection => {
+      const { user, pass } = device;
+      const brokerUrl = buildBrokerUrl(device);
+      const options = {
+        username: user,
+        password: pass,
+        clientId: `webapp_${Math.random().toString(16).substr(2, 8)}`,
+        reconnectPeriod: 5000,
+        connectTimeout: 10000,
+        keepalive: 60,
+      };
+
+      const client: any = mqtt.connect(brokerUrl, options);
+      const connection: BrokerConnection = { client, deviceIds: new Set() };
+      connectionsRef.current[brokerKey] = connection;
+
+      const forEachDevice = (fn: (deviceId: string) => void) => connection.deviceIds.forEach(fn);
+
+      client.on('connect', () => {
+        forEachDevice(deviceId => subscribeDevice(connection, deviceId));
+      });
 
-          client.on('error', (err: Error) => {
-            setDeviceStatus(device_id, { status: 'error', errorMessage: err.message });
-            stopWatchdog(device_id);
-          });
-          
-          client.on('reconnect', () => {
-              setDeviceStatus(device_id, { status: 'connecting' });
-              stopWatchdog(device_id);
-          });
+      client.on('message', (topic: string, message: any, packet: any) => {
+        const deviceId = findDeviceForTopic(connection.deviceIds, topic);
+        if (deviceId) {
+          handleDeviceMessage(deviceId, topic, message, packet);
+        }
+      });
 
-          client.on('close', () => {
-            setDeviceStatus(device_id, { status: 'offline', errorMessage: 'Connection closed.' });
-            stopWatchdog(device_id);
-          });
+      client.on('error', (err: Error) => {
+        forEachDevice(deviceId => {
+          setDeviceStatus(deviceId, { status: 'error', errorMessage: err.message });
+          stopWatchdog(deviceId);
+        });
+      });
+      
+      client.on('reconnect', () => {
+        forEachDevice(deviceId => {
+          setDeviceStatus(deviceId, { status: 'connecting' });
+          stopWatchdog(deviceId);
+        });
+      });
+
+      client.on('close', () => {
+        forEachDevice(deviceId => {
+          setDeviceStatus(deviceId, { status: 'offline', errorMessage: 'Connection closed.' });
+          stopWatchdog(deviceId);
+        });
+      });
+
+      return connection;
+    };
+
+    const detachDevice = (deviceId: string) => {
+      const brokerKey = deviceBrokerKeysRef.current[deviceId];
+      const connection = connectionsRef.current[brokerKey];
+      delete deviceBrokerKeysRef.current[deviceId];
+      stopWatchdog(deviceId);
+      if (!connection) return;
+
+      connection.deviceIds.delete(deviceId);
+      if (connection.deviceIds.size === 0) {
+        connection.client.end(true);
+        delete connectionsRef.current[brokerKey];
+      } else if (connection.client.connected) {
+        connection.client.unsubscribe(getDeviceTopics(deviceId));
+      }
+    };
+
+    currentDevices.forEach(device => {
+      const { device_id } = device;
+      const brokerKey = getBrokerKey(device);
+      const currentKey = deviceBrokerKeysRef.current[device_id];
+
+      if (currentKey === brokerKey) return;
+      if (currentKey !== undefined) {
+        // Credentials changed: move the device to its new broker connection.
+        detachDevice(device_id);
+      }
 
-        } catch (error: any) {
-            setDeviceStatus(device_id, { status: 'error', errorMessage: error.message || 'Failed to initiate connection.'});
+      setDeviceStatus(device_id, { status: 'connecting' });
+
+      try {
+        const connection = connectionsRef.current[brokerKey] || createConnection(brokerKey, device);
+        connection.deviceIds.add(device_id);
+        deviceBrokerKeysRef.current[device_id] = brokerKey;
+
+        if (connection.client.connected) {
+          subscribeDevice(connection, device_id);
         }
+      } catch (error: any) {
+          setDeviceStatus(device_id, { status: 'error', errorMessage: error.message || 'Failed to initiate connection.'});
       }
     });
 
     const currentDeviceIds = new Set(currentDevices.map(d => d.device_id));
-    Object.entries(clientsRef.current).forEach(([deviceId, client]: [string, MqttClient]) => {
+    Object.keys(deviceBrokerKeysRef.current).forEach(deviceId => {
       if (!currentDeviceIds.has(deviceId)) {
-        client.end(true);
-        stopWatchdog(deviceId);
-        delete clientsRef.current[deviceId];
+        detachDevice(deviceId);
         setStatuses(prev => {
             const newStatuses = {...prev};
             delete newStatuses[deviceId];
@@ -367,21 +582,17 @@ export const useMqttManager = ({ devices, onDeviceEvent, onSchedulesCleared, onD
 
   useEffect(() => {
     return () => {
-      Object.values(clientsRef.current).forEach((client: MqttClient) => client.end(true));
+      Object.values(connectionsRef.current).forEach((connection: BrokerConnection) => connection.client.end(true));
+      connectionsRef.current = {};
+      deviceBrokerKeysRef.current = {};
       Object.keys(watchdogTimersRef.current).forEach(deviceId => {
         clearTimeout(watchdogTimersRef.current[deviceId]);
       });
+      Object.keys(commandTimersRef.current).forEach(commandId => {
+        clearTimeout(commandTimersRef.current[commandId]);
+      });
     };
   }, []);
 
-  const publish = useCallback((deviceId: string, topic: string, message: string) => {
-    const client = clientsRef.current[deviceId];
-    if (client && client.connected) {
-      client.publish(topic, message);
-    } else {
-      alert("Cannot send command: device is not connected.");
-    }
-  }, []);
-
-  return { statuses, publish };
+  return { statuses, commands, sendCommand, queues, queueCommand };
 };
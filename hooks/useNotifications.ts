@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import useLocalStorage from './useLocalStorage';
+import type { Device } from '../types';
+import type { DeviceMqttState } from './useMqttManager';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  detectTransitions,
+  isDebounced,
+  notificationText,
+  notificationsSupported,
+  shouldNotify,
+  showDeviceNotification,
+  type NotificationLog,
+  type NotificationPreferences,
+} from '../services/notifications';
+
+interface UseNotificationsProps {
+  devices: Device[];
+  statuses: { [deviceId: string]: DeviceMqttState };
+  onOpenDevice: (deviceId: string) => void; // a notification was clicked
+}
+
+// Watches device state at the app level and raises notifications for the
+// transitions the user asked for.
+export const useNotifications = ({ devices, statuses, onOpenDevice }: UseNotificationsProps) => {
+  const [preferences, setPreferences] = useLocalStorage<NotificationPreferences>('notificationPreferences', DEFAULT_NOTIFICATION_PREFERENCES);
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    notificationsSupported() ? Notification.permission : 'unsupported'
+  );
+  const previous = useRef<{ [deviceId: string]: DeviceMqttState }>({});
+  const log = useRef<NotificationLog>({});
+
+  useEffect(() => {
+    const now = Date.now();
+    Object.entries(statuses).forEach(([deviceId, state]) => {
+      const transitions = detectTransitions(previous.current[deviceId], state, now);
+      const device = devices.find(d => d.device_id === deviceId);
+      transitions.forEach(transition => {
+        if (!device || !shouldNotify(preferences, deviceId, transition.type)) return;
+        if (isDebounced(log.current, deviceId, transition.type, preferences.debounceMinutes, now)) return;
+        log.current[`${deviceId}|${transition.type}`] = now;
+        const { title, body } = notificationText(device.custom_name, transition);
+        showDeviceNotification(title, body, deviceId, `${deviceId}|${transition.type}`);
+      });
+    });
+    previous.current = statuses;
+  }, [statuses]);
+
+  // Clicks are handled in the service worker, which forwards the device id.
+  const openDevice = useRef(onOpenDevice);
+  openDevice.current = onOpenDevice;
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'open-device' && typeof event.data.deviceId === 'string') {
+        openDevice.current(event.data.deviceId);
+      }
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, []);
+
+  const requestPermission = useCallback(async () => {
+    if (!notificationsSupported()) return;
+    const result = await Notification.requestPermission();
+    setPermission(result);
+    if (result === 'granted') setPreferences(prev => ({ ...prev, enabled: true }));
+  }, [setPreferences]);
+
+  return { preferences, setPreferences, permission, requestPermission };
+};
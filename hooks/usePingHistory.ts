@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { addPingSample, decodePingHistory, encodePingHistory, prunePingHistory, type PingHistory } from '../services/pingHistory';
+
+const STORAGE_KEY = 'pingHistory';
+// Health reports arrive every few seconds per device; the store is written at
+// most this often instead of on every sample.
+const SAVE_INTERVAL_MS = 60000;
+
+const load = (): PingHistory => {
+  try {
+    const item = window.localStorage.getItem(STORAGE_KEY);
+    return item ? decodePingHistory(JSON.parse(item)) : {};
+  } catch (error) {
+    console.error(`Error reading localStorage key “${STORAGE_KEY}”:`, error);
+    return {};
+  }
+};
+
+export const usePingHistory = (deviceIds: string[]) => {
+  const [history, setHistory] = useState<PingHistory>(load);
+  // Set while the history can't be written, e.g. when storage is full.
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const historyRef = useRef(history);
+  const dirtyRef = useRef(false);
+
+  const save = useCallback(() => {
+    if (!dirtyRef.current) return;
+    dirtyRef.current = false;
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(encodePingHistory(historyRef.current)));
+      setSaveError(null);
+    } catch (error) {
+      console.error(`Error setting localStorage key “${STORAGE_KEY}”:`, error);
+      setSaveError('Ping history could not be saved: browser storage is full. Charts keep working until the app is closed.');
+    }
+  }, []);
+
+  const update = useCallback((next: PingHistory) => {
+    historyRef.current = next;
+    dirtyRef.current = true;
+    setHistory(next);
+  }, []);
+
+  useEffect(() => {
+    const timer = setInterval(save, SAVE_INTERVAL_MS);
+    window.addEventListener('beforeunload', save);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('beforeunload', save);
+      save();
+    };
+  }, [save]);
+
+  // Drop series of deleted devices.
+  const deviceKey = deviceIds.join('|');
+  useEffect(() => {
+    const pruned = prunePingHistory(historyRef.current, deviceIds, Date.now());
+    if (Object.keys(pruned).length !== Object.keys(historyRef.current).length) update(pruned);
+  }, [deviceKey, update]);
+
+  const recordPing = useCallback((deviceId: string, ping: number | null, time: Date) => {
+    const current = historyRef.current;
+    update({ ...current, [deviceId]: addPingSample(current[deviceId] || [], ping, time.getTime()) });
+  }, [update]);
+
+  return { pingHistory: history, recordPing, saveError };
+};
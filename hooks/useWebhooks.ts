@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useRef } from 'react';
+import useLocalStorage from './useLocalStorage';
+import type { AlertRecord, AlertRule, Device, Webhook, WebhookDelivery, WebhookEventType } from '../types';
+import type { DeviceMqttState } from './useMqttManager';
+import { detectTransitions } from '../services/notifications';
+import {
+  appendDeliveries,
+  applyDeliveryResult,
+  createDelivery,
+  deliveriesForEvent,
+  isDue,
+  postWebhook,
+  retryDelivery,
+  sampleVariables,
+  WEBHOOK_EVENT_LABELS,
+} from '../services/webhooks';
+
+// Picks up retries whose backoff has expired.
+const RETRY_CHECK_MS = 5000;
+
+interface UseWebhooksProps {
+  devices: Device[];
+  statuses: { [deviceId: string]: DeviceMqttState };
+  alerts: AlertRecord[];
+  alertRules: AlertRule[];
+}
+
+// Turns device transitions and alert changes into webhook deliveries and
+// sends them. Runs at the app level, like notifications.
+export const useWebhooks = ({ devices, statuses, alerts, alertRules }: UseWebhooksProps) => {
+  const [webhooks, setWebhooks] = useLocalStorage<Webhook[]>('webhooks', []);
+  const [deliveries, setDeliveries] = useLocalStorage<WebhookDelivery[]>('webhookDeliveries', []);
+  const inFlight = useRef(new Set<string>());
+
+  const enqueue = useCallback((deviceId: string, event: WebhookEventType, detail: string, alertRule: string = '') => {
+    const device = devices.find(d => d.device_id === deviceId);
+    const now = Date.now();
+    const added = deliveriesForEvent(webhooks, {
+      device_id: deviceId,
+      custom_name: device ? device.custom_name : deviceId,
+      event,
+      event_label: WEBHOOK_EVENT_LABELS[event],
+      timestamp: new Date(now).toISOString(),
+      detail,
+      alert_rule: alertRule,
+    }, now);
+    if (added.length > 0) setDeliveries(prev => appendDeliveries(prev, added));
+  }, [devices, webhooks, setDeliveries]);
+
+  // Device state transitions.
+  const previousStatuses = useRef<{ [deviceId: string]: DeviceMqttState }>({});
+  useEffect(() => {
+    const now = Date.now();
+    Object.entries(statuses).forEach(([deviceId, state]) => {
+      detectTransitions(previousStatuses.current[deviceId], state, now).forEach(transition => {
+        enqueue(deviceId, transition.type, transition.detail || '');
+      });
+    });
+    previousStatuses.current = statuses;
+  }, [statuses]);
+
+  // Alerts that started or stopped firing. Alerts loaded from storage are
+  // the starting point, not news.
+  const previousAlerts = useRef<{ [alertId: string]: AlertRecord['state'] } | null>(null);
+  useEffect(() => {
+    const previous = previousAlerts.current;
+    if (previous) {
+      alerts.forEach(alert => {
+        if (previous[alert.id] === alert.state) return;
+        if (!previous[alert.id] && alert.state !== 'firing') return;
+        const rule = alertRules.find(r => r.id === alert.ruleId);
+        enqueue(alert.deviceId, alert.state === 'firing' ? 'alert_firing' : 'alert_resolved', alert.detail, rule ? rule.name : '');
+      });
+    }
+    previousAlerts.current = Object.fromEntries(alerts.map(a => [a.id, a.state]));
+  }, [alerts]);
+
+  // Sends whatever is due; results come back through the log.
+  const deliveriesRef = useRef(deliveries);
+  deliveriesRef.current = deliveries;
+  const webhooksRef = useRef(webhooks);
+  webhooksRef.current = webhooks;
+
+  const processDue = useCallback(() => {
+    const now = Date.now();
+    deliveriesRef.current.filter(d => isDue(d, now) && !inFlight.current.has(d.id)).forEach(delivery => {
+      const webhook = webhooksRef.current.find(w => w.id === delivery.webhookId);
+      if (!webhook) {
+        setDeliveries(prev => prev.map(d => (d.id === delivery.id ? { ...d, state: 'failed' as const, error: 'Webhook was deleted.', nextAttemptAt: undefined } : d)));
+        return;
+      }
+      inFlight.current.add(delivery.id);
+      postWebhook(webhook.url, delivery.payload).then(result => {
+        inFlight.current.delete(delivery.id);
+        setDeliveries(prev => prev.map(d => (d.id === delivery.id ? applyDeliveryResult(d, result, Date.now()) : d)));
+      });
+    });
+  }, [setDeliveries]);
+
+  // New and retried deliveries go out right away; processDue itself never changes.
+  useEffect(() => {
+    processDue();
+  }, [deliveries]);
+
+  useEffect(() => {
+    const timer = setInterval(processDue, RETRY_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [processDue]);
+
+  const sendTest = useCallback((webhook: Webhook) => {
+    const delivery = createDelivery(webhook, sampleVariables(webhook.events[0]), Date.now(), true);
+    setDeliveries(prev => appendDeliveries(prev, [delivery]));
+  }, [setDeliveries]);
+
+  const retry = useCallback((deliveryId: string) => {
+    setDeliveries(prev => prev.map(d => (d.id === deliveryId ? retryDelivery(d, Date.now()) : d)));
+  }, [setDeliveries]);
+
+  const clearLog = useCallback(() => {
+    setDeliveries(prev => prev.filter(d => d.state === 'pending'));
+  }, [setDeliveries]);
+
+  return { webhooks, setWebhooks, deliveries, sendTest, retry, clearLog };
+};
@@ -0,0 +1,17 @@
+// Imported into the generated service worker (see workbox.importScripts in
+// vite.config.ts). Clicking a device notification focuses the app and opens
+// that device.
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const deviceId = event.notification.data && event.notification.data.deviceId;
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(clients => {
+      const client = clients[0];
+      if (client) {
+        if (deviceId) client.postMessage({ type: 'open-device', deviceId });
+        return client.focus();
+      }
+      return self.clients.openWindow(self.registration.scope);
+    })
+  );
+});
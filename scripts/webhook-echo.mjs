@@ -0,0 +1,44 @@
+// Local webhook receiver for trying out integrations: prints every POST it
+// gets and answers with the status given on the command line, so retries and
+// failures can be exercised too. Sends the CORS headers the browser needs.
+//
+//   node scripts/webhook-echo.mjs [port] [status]
+//   node scripts/webhook-echo.mjs 8787 503   # every delivery fails and is retried
+//
+// Then point a webhook at http://localhost:8787/ and press "Send test".
+import { createServer } from 'node:http';
+
+const port = Number(process.argv[2]) || 8787;
+const status = Number(process.argv[3]) || 200;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+const server = createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS);
+    res.end();
+    return;
+  }
+
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    let shown = body;
+    try {
+      shown = JSON.stringify(JSON.parse(body), null, 2);
+    } catch (e) {
+      // Not JSON: print it as it came.
+    }
+    console.log(`\n${new Date().toISOString()} ${req.method} ${req.url} -> ${status}\n${shown}`);
+    res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ received: status < 400 }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Webhook receiver on http://localhost:${port}/ answering ${status}. Ctrl+C to stop.`);
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { countReboots, createAlertRule, validateAlertRule } from './alertRules';
+import { AUTO_REBOOT_EVENT } from './rebootPolicy';
+import type { RebootLogEntry } from './rebootLog';
+
+const MINUTE = 60000;
+const T0 = Date.UTC(2026, 2, 1, 12);
+const entry = (minutes: number, eventType: string): RebootLogEntry => ({ time: T0 + minutes * MINUTE, eventType });
+
+describe('countReboots', () => {
+  it('counts a request and its completion once', () => {
+    expect(countReboots([entry(0, 'Rebooting'), entry(1, 'Reboot Completed')], T0)).toBe(1);
+  });
+
+  it('counts a completion without a request before it', () => {
+    expect(countReboots([entry(0, AUTO_REBOOT_EVENT), entry(1, 'Reboot Completed'), entry(60, 'Reboot Completed')], T0)).toBe(2);
+  });
+
+  it('ignores reboots before the window', () => {
+    expect(countReboots([entry(-5, 'Rebooting'), entry(5, 'Rebooting')], T0)).toBe(1);
+  });
+});
+
+describe('validateAlertRule', () => {
+  it('limits reboot windows to what the reboot log keeps', () => {
+    const rule = { ...createAlertRule('reboots'), name: 'Flapping' };
+    expect(validateAlertRule({ ...rule, count: 3, hours: 168 })).toBeNull();
+    expect(validateAlertRule({ ...rule, count: 3, hours: 169 })).toMatch(/at most 168/);
+  });
+
+  it('limits ping windows to the day kept in 5-minute buckets', () => {
+    const rule = { ...createAlertRule('ping'), name: 'Slow' };
+    expect(validateAlertRule({ ...rule, threshold: 200, minutes: 1440 })).toBeNull();
+    expect(validateAlertRule({ ...rule, threshold: 200, minutes: 1441 })).toMatch(/at most 1440/);
+  });
+});
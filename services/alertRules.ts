@@ -0,0 +1,166 @@
+import type { AlertRecord, AlertRule, AlertRuleKind, Device } from '../types';
+import { matchesGroup } from './deviceGroups';
+import { compareVersions } from './firmwareRollout';
+import { BUCKET_MS, FINE_RETENTION_MS, resamplePings, type PingHistory } from './pingHistory';
+import { isAutoRebootEvent } from './rebootPolicy';
+import { REBOOT_LOG_RETENTION_MS, type RebootLog, type RebootLogEntry } from './rebootLog';
+
+// Operator-defined alert rules. Each enabled rule is checked against every
+// device in its scope; a device that meets the condition gets a firing alert,
+// which resolves once the condition clears (or the rule goes away).
+
+// The parts of DeviceMqttState the rules read.
+export interface AlertDeviceSnapshot {
+  status: string;
+  lastSeen: Date | null;
+  deviceVersion?: string;
+}
+
+export interface AlertContext {
+  devices: Device[];
+  statuses: { [deviceId: string]: AlertDeviceSnapshot };
+  rebootLog: RebootLog;
+  pingHistory: PingHistory;
+  startedAt: number; // when this session started watching the devices
+}
+
+const MINUTE = 60000;
+const HOUR = 60 * MINUTE;
+const MAX_RECORDS = 200;
+
+export const ALERT_RULE_KINDS: { [kind in AlertRuleKind]: string } = {
+  offline: 'Device offline',
+  reboots: 'Frequent reboots',
+  ping: 'High ping',
+  firmware: 'Outdated firmware',
+};
+
+export const createAlertRule = (kind: AlertRuleKind): AlertRule => {
+  const base = { id: `rule_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 4)}`, kind, enabled: true };
+  switch (kind) {
+    case 'offline': return { ...base, name: 'Offline for 10 minutes', minutes: 10 };
+    case 'reboots': return { ...base, name: 'More than 3 reboots a day', count: 3, hours: 24 };
+    case 'ping': return { ...base, name: 'Ping above 150 ms', threshold: 150, minutes: 15 };
+    case 'firmware': return { ...base, name: 'Firmware out of date', version: '' };
+  }
+};
+
+export const describeAlertRule = (rule: AlertRule) => {
+  const scope = rule.tag ? ` (group "${rule.tag}")` : '';
+  switch (rule.kind) {
+    case 'offline': return `Offline for more than ${rule.minutes} min${scope}`;
+    case 'reboots': return `More than ${rule.count} reboots in ${rule.hours}h${scope}`;
+    case 'ping': return `Ping above ${rule.threshold} ms for ${rule.minutes} min${scope}`;
+    case 'firmware': return `Firmware older than ${rule.version}${scope}`;
+  }
+};
+
+const isPositiveInteger = (value?: number) => value !== undefined && Number.isInteger(value) && value > 0;
+
+export const validateAlertRule = (rule: AlertRule): string | null => {
+  if (!rule.name.trim()) return 'Give the rule a name.';
+  switch (rule.kind) {
+    case 'offline':
+      return isPositiveInteger(rule.minutes) ? null : 'Minutes must be a whole number above 0.';
+    case 'reboots':
+      if (!isPositiveInteger(rule.count)) return 'Reboot count must be a whole number above 0.';
+      if (!isPositiveInteger(rule.hours)) return 'Hours must be a whole number above 0.';
+      return rule.hours! * HOUR <= REBOOT_LOG_RETENTION_MS ? null : `Hours can be at most ${REBOOT_LOG_RETENTION_MS / HOUR}; reboots are kept for a week.`;
+    case 'ping':
+      if (!isPositiveInteger(rule.threshold)) return 'Threshold must be a whole number of ms above 0.';
+      if (!isPositiveInteger(rule.minutes) || rule.minutes! < BUCKET_MS / MINUTE) return `Minutes must be at least ${BUCKET_MS / MINUTE}.`;
+      // Older ping history is only kept per hour, too coarse to check every 5 minutes.
+      return rule.minutes! <= FINE_RETENTION_MS / MINUTE ? null : `Minutes can be at most ${FINE_RETENTION_MS / MINUTE}.`;
+    case 'firmware':
+      return rule.version && /^v?\d+(\.\d+)*$/i.test(rule.version.trim()) ? null : 'Enter a version like 1.4.0.';
+  }
+};
+
+// A reboot is usually recorded twice (requested, then completed); a completion
+// only counts on its own when no request was seen shortly before it.
+const PAIRING_MS = 10 * MINUTE;
+
+export const countReboots = (log: RebootLogEntry[], from: number) => {
+  const entries = log.filter(e => e.time >= from);
+  const requests = entries.filter(e => e.eventType === 'Rebooting' || isAutoRebootEvent(e.eventType));
+  const unpaired = entries.filter(e => e.eventType === 'Reboot Completed'
+    && !requests.some(r => r.time <= e.time && e.time - r.time < PAIRING_MS));
+  return requests.length + unpaired.length;
+};
+
+const formatMinutes = (ms: number) => `${Math.round(ms / MINUTE)} min`;
+
+// Returns what was observed when the condition holds, null when it doesn't and
+// undefined when the state isn't known yet (right after a reload), which keeps
+// an alert as it was.
+const checkRule = (rule: AlertRule, device: Device, context: AlertContext, now: number): string | null | undefined => {
+  const state = context.statuses[device.device_id];
+  switch (rule.kind) {
+    case 'offline': {
+      if (!state || state.status === 'online' || state.status === 'resetting') return null;
+      const stored = device.lastSeen ? new Date(device.lastSeen).getTime() : 0;
+      const since = state.lastSeen ? state.lastSeen.getTime() : stored;
+      // Still waiting for the first message: only the time this session has waited counts.
+      if (state.status === 'connecting' && now - context.startedAt <= rule.minutes! * MINUTE) return undefined;
+      if (!since) return 'Never seen';
+      return now - since > rule.minutes! * MINUTE ? `No contact for ${formatMinutes(now - since)}` : null;
+    }
+    case 'reboots': {
+      const count = countReboots(context.rebootLog[device.device_id] || [], now - rule.hours! * HOUR);
+      return count > rule.count! ? `${count} reboots in ${rule.hours}h` : null;
+    }
+    case 'ping': {
+      const points = resamplePings(context.pingHistory[device.device_id] || [], now - rule.minutes! * MINUTE, now, BUCKET_MS);
+      // The interval that just started may have no report yet.
+      if (points.length > 0 && points[points.length - 1].avg === null) points.pop();
+      // Every interval in the window must have reports, all of them too slow.
+      if (points.length === 0 || points.some(p => p.avg === null || p.avg <= rule.threshold!)) return null;
+      const average = points.reduce((sum, p) => sum + p.avg!, 0) / points.length;
+      return `Average ${Math.round(average)} ms over ${rule.minutes} min`;
+    }
+    case 'firmware': {
+      const version = state?.deviceVersion;
+      if (!version) return undefined;
+      return compareVersions(version, rule.version!) < 0 ? `Running ${version}` : null;
+    }
+  }
+};
+
+const alertKey = (ruleId: string, deviceId: string) => `${ruleId}|${deviceId}`;
+
+// Opens and resolves alerts; returns the same array when nothing changed.
+export const evaluateAlerts = (rules: AlertRule[], context: AlertContext, records: AlertRecord[], now: number): AlertRecord[] => {
+  const stamp = new Date(now).toISOString();
+  const firing = new Map(records.filter(r => r.state === 'firing').map(r => [alertKey(r.ruleId, r.deviceId), r]));
+  const holding = new Set<string>();
+  const opened: AlertRecord[] = [];
+
+  rules.filter(rule => rule.enabled && !validateAlertRule(rule)).forEach(rule => {
+    context.devices.filter(device => matchesGroup(device, rule.tag || null)).forEach(device => {
+      const detail = checkRule(rule, device, context, now);
+      const key = alertKey(rule.id, device.device_id);
+      if (detail === undefined && firing.has(key)) holding.add(key);
+      if (!detail) return;
+      holding.add(key);
+      if (!firing.has(key)) {
+        opened.push({ id: `alert_${now.toString(36)}_${opened.length}`, ruleId: rule.id, deviceId: device.device_id, state: 'firing', firedAt: stamp, detail });
+      }
+    });
+  });
+
+  let changed = opened.length > 0;
+  const updated = records.map(record => {
+    if (record.state !== 'firing' || holding.has(alertKey(record.ruleId, record.deviceId))) return record;
+    changed = true;
+    return { ...record, state: 'resolved' as const, resolvedAt: stamp };
+  });
+  if (!changed) return records;
+
+  // Firing alerts are always kept; resolved ones only up to the cap.
+  const all = [...opened, ...updated];
+  const firingCount = all.filter(r => r.state === 'firing').length;
+  let resolvedLeft = Math.max(0, MAX_RECORDS - firingCount);
+  return all.filter(r => r.state === 'firing' || resolvedLeft-- > 0);
+};
+
+export const activeAlerts = (records: AlertRecord[]) => records.filter(r => r.state === 'firing');
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { enqueueCommand, isAnsweredByOtaStatus, isQueueable, type QueuedCommand } from './commandQueue';
+
+describe('enqueueCommand', () => {
+  it('keeps only the newest schedule change', () => {
+    let queue: QueuedCommand[] = [];
+    queue = enqueueCommand(queue, 'schedule/set', '[1]');
+    queue = enqueueCommand(queue, 'config/ping_reboot', '{}');
+    queue = enqueueCommand(queue, 'schedule/clear', '1');
+    expect(queue.map(e => e.command)).toEqual(['config/ping_reboot', 'schedule/clear']);
+  });
+
+  it('does not replace an entry that is being delivered', () => {
+    const inFlight: QueuedCommand = { id: 'q1', command: 'schedule/set', payload: '[1]', queuedAt: '', commandId: 'cmd_1' };
+    expect(enqueueCommand([inFlight], 'schedule/set', '[2]').map(e => e.payload)).toEqual(['[1]', '[2]']);
+  });
+});
+
+describe('isQueueable', () => {
+  it('queues state changes and firmware updates only', () => {
+    expect(isQueueable('ota/start')).toBe(true);
+    expect(isQueueable('schedule/set')).toBe(true);
+    expect(isQueueable('reset')).toBe(false);
+  });
+});
+
+describe('firmware updates', () => {
+  it('are kept side by side instead of replacing each other', () => {
+    let queue = enqueueCommand([], 'ota/start', '{"version":"1.4.0"}');
+    queue = enqueueCommand(queue, 'schedule/set', '[1]');
+    queue = enqueueCommand(queue, 'ota/start', '{"version":"1.5.0"}');
+    expect(queue.map(e => e.command)).toEqual(['ota/start', 'schedule/set', 'ota/start']);
+  });
+
+  it('are answered by an OTA status reported after they were sent', () => {
+    const entry: QueuedCommand = { id: 'q1', command: 'ota/start', payload: '{}', queuedAt: '', sentAt: '2026-03-01T10:00:00.000Z' };
+    expect(isAnsweredByOtaStatus(entry, new Date('2026-03-01T10:00:05Z'))).toBe(true);
+    expect(isAnsweredByOtaStatus(entry, new Date('2026-03-01T09:59:00Z'))).toBe(false);
+    expect(isAnsweredByOtaStatus({ ...entry, sentAt: undefined }, new Date('2026-03-01T10:00:05Z'))).toBe(false);
+    expect(isAnsweredByOtaStatus({ ...entry, command: 'schedule/set' }, new Date('2026-03-01T10:00:05Z'))).toBe(false);
+  });
+});
@@ -0,0 +1,59 @@
+// Commands addressed to an offline device are parked here (persisted in
+// localStorage) and delivered in order the next time the device comes online.
+
+export interface QueuedCommand {
+  id: string;
+  command: string; // topic suffix, e.g. "schedule/set"
+  payload: string;
+  queuedAt: string;
+  commandId?: string; // tracking id while a delivery attempt is in flight
+  deliveries?: number; // times sent from the queue so far
+  sentAt?: string; // last time it was sent from the queue
+}
+
+// A device that never confirms an entry gets it this many times, one per
+// reconnect, and then the entry is dropped instead of being resent forever.
+export const MAX_QUEUE_DELIVERIES = 3;
+
+export type CommandQueues = { [deviceId: string]: QueuedCommand[] };
+
+// Each of these replaces the device state the earlier ones would have set, so
+// only the newest needs delivering.
+const SUPERSEDES: { [command: string]: string[] } = {
+  'schedule/set': ['schedule/set', 'schedule/clear'],
+  'schedule/clear': ['schedule/set', 'schedule/clear'],
+  'config/ping_reboot': ['config/ping_reboot'],
+};
+
+export const QUEUEABLE_COMMANDS = [...Object.keys(SUPERSEDES), 'ota/start'];
+
+export const isQueueable = (command: string) => QUEUEABLE_COMMANDS.includes(command);
+
+export const isSuperseded = (entry: QueuedCommand, command: string) =>
+  !entry.commandId && (SUPERSEDES[command] || []).includes(entry.command);
+
+// A queued ota/start is done once the device reports any OTA status after it
+// was sent, even a failure, so the reconnect after the update's reboot finds
+// nothing left to resend.
+export const isAnsweredByOtaStatus = (entry: QueuedCommand, otaStatusAt?: Date | null) =>
+  entry.command === 'ota/start' && !!entry.sentAt && !!otaStatusAt && otaStatusAt.getTime() >= new Date(entry.sentAt).getTime();
+
+export const enqueueCommand = (queue: QueuedCommand[], command: string, payload: string): QueuedCommand[] => [
+  ...queue.filter(entry => !isSuperseded(entry, command)),
+  {
+    id: `q_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 6)}`,
+    command,
+    payload,
+    queuedAt: new Date().toISOString(),
+  },
+];
+
+export const describeQueuedCommand = (entry: QueuedCommand) => {
+  switch (entry.command) {
+    case 'schedule/set': return 'Schedule update';
+    case 'schedule/clear': return 'Clear schedules';
+    case 'config/ping_reboot': return 'Auto-reboot settings';
+    case 'ota/start': return 'Firmware update';
+    default: return entry.command;
+  }
+};
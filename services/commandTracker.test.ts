@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { expectsReply, matchAcknowledgement, resolveRetryPolicy, withCommandId, type TrackedCommand } from './commandTracker';
+import type { DeviceEvent } from './deviceProtocol';
+
+const command = (id: string, topic: string): TrackedCommand => ({
+  id,
+  deviceId: 'dev1',
+  command: topic,
+  payload: '{}',
+  state: 'pending',
+  attempts: 1,
+  policy: resolveRetryPolicy(topic),
+  expectsReply: true,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+});
+
+describe('withCommandId', () => {
+  it.each([
+    ['adds the id to object payloads', '{"enabled":true}', '{"enabled":true,"cid":"cmd_1"}'],
+    ['leaves plain payloads alone', '1', '1'],
+    ['leaves the bare schedule array alone', '[{"hour":3}]', '[{"hour":3}]'],
+    ['leaves non-JSON alone', 'reset', 'reset'],
+  ])('%s', (_, payload, expected) => {
+    expect(withCommandId(payload, 'cmd_1')).toBe(expected);
+  });
+});
+
+describe('matchAcknowledgement', () => {
+  const ack = (cid?: string, ok = true): DeviceEvent => ({ kind: 'ack', command: 'schedule/set', cid, ok, error: ok ? undefined : 'full' });
+
+  it('matches an ack carrying the command id', () => {
+    expect(matchAcknowledgement(command('cmd_2', 'schedule/set'), ack('cmd_2'))).toBe(true);
+  });
+
+  it('ignores a late ack for an earlier command on the same topic', () => {
+    expect(matchAcknowledgement(command('cmd_2', 'schedule/set'), ack('cmd_1'))).toBeNull();
+  });
+
+  it('matches an ack without an id by topic', () => {
+    expect(matchAcknowledgement(command('cmd_2', 'schedule/set'), ack())).toBe(true);
+    expect(matchAcknowledgement(command('cmd_2', 'schedule/clear'), ack())).toBeNull();
+  });
+
+  it('returns the error of a rejected command', () => {
+    expect(matchAcknowledgement(command('cmd_2', 'schedule/set'), ack('cmd_2', false))).toBe('full');
+  });
+
+  it('accepts the state change older firmware reports', () => {
+    expect(matchAcknowledgement(command('cmd_3', 'reset'), { kind: 'reboot', phase: 'resetting', time: null })).toBe(true);
+  });
+});
+
+describe('expectsReply', () => {
+  it('only expects replies older firmware gives', () => {
+    expect(expectsReply('reset', false)).toBe(true);
+    expect(expectsReply('schedule/set', false)).toBe(false);
+    expect(expectsReply('config/ping_reboot', false)).toBe(false);
+    expect(expectsReply('schedule/set', true)).toBe(true);
+  });
+});
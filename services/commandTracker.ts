@@ -0,0 +1,122 @@
+import type { DeviceEvent } from './deviceProtocol';
+
+// Acknowledgement contract with the firmware:
+// - A command whose payload is a JSON object is published with its tracking id
+//   added as "cid", e.g. {"url":"...","version":"1.5.0","cid":"cmd_m1x2_ab12cd"}.
+//   Other payloads ("1", the bare schedule array older firmware expects) are
+//   published unchanged.
+// - Firmware that implements acks replies on <device>/status or <device>/events
+//   with {"ack":"<command>","cid":"<id>","ok":true} or {"ack":"<command>","cid":"<id>","error":"..."}.
+//   An ack with a cid only resolves that command; one without resolves the
+//   oldest pending command on the same topic.
+// - Older firmware never acks. It still reports the state that reboots, power
+//   changes, schedule/clear, version/get and ota/start cause, which confirms
+//   those commands. Anything else sent to it goes out once and ends up
+//   'unconfirmed': delivered to the broker, but the device never said so.
+
+export type CommandState = 'pending' | 'acknowledged' | 'unconfirmed' | 'failed' | 'timed_out';
+
+export interface RetryPolicy {
+  timeoutMs: number;   // how long each attempt waits for an acknowledgement
+  maxAttempts: number; // total publishes, including the first one
+}
+
+export interface TrackedCommand {
+  id: string;
+  deviceId: string;
+  command: string; // topic suffix, e.g. "reset" or "schedule/set"
+  payload: string;
+  state: CommandState;
+  attempts: number;
+  policy: RetryPolicy;
+  expectsReply: boolean; // false: silence means unconfirmed, not timed out
+  createdAt: Date;
+  updatedAt: Date;
+  error?: string;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { timeoutMs: 10000, maxAttempts: 3 };
+
+// A reboot or OTA start is never resent: a late acknowledgement is better than
+// rebooting twice or restarting a download that is already running.
+const COMMAND_POLICIES: { [command: string]: Partial<RetryPolicy> } = {
+  'reset': { timeoutMs: 15000, maxAttempts: 1 },
+  'power/off': { maxAttempts: 2 },
+  'power/on': { maxAttempts: 2 },
+  'ota/start': { timeoutMs: 20000, maxAttempts: 1 },
+};
+
+export const resolveRetryPolicy = (command: string, override?: Partial<RetryPolicy>): RetryPolicy => ({
+  ...DEFAULT_RETRY_POLICY,
+  ...COMMAND_POLICIES[command],
+  ...override,
+});
+
+// Commands that firmware without acks still answers (see the contract above).
+const CONFIRMED_BY_STATE = ['reset', 'power/off', 'power/on', 'schedule/clear', 'version/get', 'ota/start'];
+
+// Whether a missing reply means the command failed. Resending to a device
+// that never answers only repeats the publish, so those get a single attempt.
+export const expectsReply = (command: string, speaksAcks: boolean) =>
+  speaksAcks || CONFIRMED_BY_STATE.includes(command);
+
+// Adds the tracking id to object payloads; see the contract above.
+export const withCommandId = (payload: string, commandId: string): string => {
+  let data: any;
+  try {
+    data = JSON.parse(payload);
+  } catch (e) {
+    return payload;
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return payload;
+  return JSON.stringify({ ...data, cid: commandId });
+};
+
+// true = acknowledged, string = failed with that reason, null = event is unrelated.
+type AckMatcher = (event: DeviceEvent) => true | string | null;
+
+// Firmware without explicit {"ack": ...} replies confirms commands indirectly
+// through the state change they cause, where it reports one.
+const IMPLIED_ACKS: { [command: string]: AckMatcher } = {
+  'reset': event => (event.kind === 'reboot' ? true : null),
+  'power/off': event => (event.kind === 'power' && event.poweredOff ? true : null),
+  'power/on': event => (event.kind === 'power' && !event.poweredOff ? true : null),
+  'schedule/set': event => (event.kind === 'schedules_set' ? true : null),
+  'schedule/clear': event => (event.kind === 'schedules_cleared' ? true : null),
+  'schedule/get': event => (event.kind === 'schedules_report' ? true : null),
+  'config/get': event => (event.kind === 'config_report' ? true : null),
+  'config/ping_reboot': event => (event.kind === 'config_report' ? true : null),
+  'version/get': event => (event.kind === 'version' ? true : null),
+  'ota/start': event => (event.kind === 'ota_status' ? (event.failed ? event.status : true) : null),
+};
+
+export const matchAcknowledgement = (command: TrackedCommand, event: DeviceEvent): true | string | null => {
+  if (event.kind === 'ack') {
+    if (event.command !== command.command) return null;
+    // A late ack for an earlier command on the same topic must not resolve this one.
+    if (event.cid && event.cid !== command.id) return null;
+    return event.ok ? true : event.error || 'Rejected by device.';
+  }
+  const matcher = IMPLIED_ACKS[command.command];
+  return matcher ? matcher(event) : null;
+};
+
+export const createCommandId = () =>
+  `cmd_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 6)}`;
+
+export const isCommandFinished = (command: TrackedCommand) => command.state !== 'pending';
+
+// Most recent command sent to a device, optionally restricted to some topics.
+export const latestCommand = (
+  commands: { [commandId: string]: TrackedCommand },
+  deviceId: string,
+  topics?: string[]
+): TrackedCommand | null => {
+  let latest: TrackedCommand | null = null;
+  Object.values(commands).forEach(command => {
+    if (command.deviceId !== deviceId) return;
+    if (topics && !topics.includes(command.command)) return;
+    if (!latest || command.createdAt.getTime() >= latest.createdAt.getTime()) latest = command;
+  });
+  return latest;
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import type { DeviceConfig } from '../types';
+import { decodeDeviceConfig, DEFAULT_DEVICE_CONFIG, diffDeviceConfig, encodeDeviceConfig, validateDeviceConfig } from './deviceConfig';
+
+describe('validateDeviceConfig', () => {
+  it('accepts the defaults and quiet hours across midnight', () => {
+    expect(validateDeviceConfig(DEFAULT_DEVICE_CONFIG)).toBeNull();
+    expect(validateDeviceConfig({ ...DEFAULT_DEVICE_CONFIG, quietHoursStart: '22:00', quietHoursEnd: '06:00' })).toBeNull();
+  });
+
+  it.each<[string, Partial<DeviceConfig>, RegExp]>([
+    ['threshold too low', { pingThreshold: 9 }, /Ping threshold/],
+    ['fractional threshold', { pingThreshold: 150.5 }, /Ping threshold/],
+    ['negative cooldown', { rebootCooldownMinutes: -1 }, /Cooldown/],
+    ['no reboots per day', { maxRebootsPerDay: 0 }, /Max reboots/],
+    ['blank ping target', { pingTarget: '  ' }, /Ping target/],
+    ['url as ping target', { pingTarget: 'http://example.com' }, /Ping target/],
+    ['too many failures', { failuresBeforeReboot: 21 }, /Failures/],
+    ['one end of quiet hours', { quietHoursStart: '22:00' }, /both ends/],
+    ['quiet hours not a time', { quietHoursStart: '24:00', quietHoursEnd: '06:00' }, /times like/],
+    ['empty quiet hours', { quietHoursStart: '06:00', quietHoursEnd: '06:00' }, /same time/],
+    ['escalation too late', { escalateAfterReboots: 11 }, /Escalation/],
+    ['no power cycle time', { powerCycleMinutes: 0 }, /Power cycle/],
+    ['NaN from an empty field', { maxRebootsPerDay: NaN }, /Max reboots/],
+  ])('rejects %s', (_, fields, message) => {
+    expect(validateDeviceConfig({ ...DEFAULT_DEVICE_CONFIG, ...fields })).toMatch(message);
+  });
+});
+
+describe('decodeDeviceConfig', () => {
+  it('reads back what was sent', () => {
+    const config: DeviceConfig = { ...DEFAULT_DEVICE_CONFIG, autoPingReboot: true, quietHoursStart: '22:00', quietHoursEnd: '06:00' };
+    expect(decodeDeviceConfig(JSON.parse(encodeDeviceConfig(config, 'Europe/Berlin')))).toEqual(config);
+  });
+
+  it('keeps only the fields older firmware reports', () => {
+    expect(decodeDeviceConfig({ enabled: true, threshold: 250 })).toEqual({ autoPingReboot: true, pingThreshold: 250 });
+  });
+
+  it('reads numbers and flags sent as strings', () => {
+    expect(decodeDeviceConfig({ enabled: 'true', threshold: '300', cooldown: '0' })).toEqual({
+      autoPingReboot: true,
+      pingThreshold: 300,
+      rebootCooldownMinutes: 0,
+    });
+    expect(decodeDeviceConfig({ enabled: 'yes' })).toEqual({ autoPingReboot: false });
+  });
+
+  it('drops values of the wrong type', () => {
+    expect(decodeDeviceConfig({ threshold: 'fast', cooldown: null, max_per_day: '', target: 8, quiet_start: 2200, failures: 4 }))
+      .toEqual({ failuresBeforeReboot: 4 });
+  });
+
+  it.each<[string, unknown]>([
+    ['null', null],
+    ['a string', 'enabled'],
+    ['an array', [1, 2]],
+    ['an empty object', {}],
+    ['only unknown keys', { firmware: '1.2.0' }],
+  ])('is null for %s', (_, data) => {
+    expect(decodeDeviceConfig(data)).toBeNull();
+  });
+});
+
+describe('diffDeviceConfig', () => {
+  it('compares only the fields the device reported', () => {
+    expect(diffDeviceConfig(DEFAULT_DEVICE_CONFIG, { pingThreshold: 300, pingTarget: DEFAULT_DEVICE_CONFIG.pingTarget })).toEqual([
+      { key: 'pingThreshold', local: 200, device: 300 },
+    ]);
+  });
+});
@@ -0,0 +1,147 @@
+import type { Device, DeviceConfig } from '../types';
+import { toPosixTimeZone } from './timezone';
+
+// Settings the firmware applies on its own (auto-reboot by ping). The app keeps
+// the intended values on the Device, publishes the whole set on every change
+// and compares it with what the device reports on config/state.
+
+export const DEFAULT_DEVICE_CONFIG: DeviceConfig = {
+  autoPingReboot: false,
+  pingThreshold: 200,
+  rebootCooldownMinutes: 30,
+  maxRebootsPerDay: 6,
+  pingTarget: '8.8.8.8',
+  failuresBeforeReboot: 3,
+  quietHoursStart: '',
+  quietHoursEnd: '',
+  escalateAfterReboots: 0,
+  powerCycleMinutes: 5,
+};
+
+// Wire keys; "enabled" and "threshold" are what older firmware already reads.
+interface WireDeviceConfig {
+  enabled?: boolean;
+  threshold?: number;
+  cooldown?: number; // minutes
+  max_per_day?: number;
+  target?: string;
+  failures?: number;
+  quiet_start?: string; // "HH:MM", "" = none
+  quiet_end?: string;
+  posix?: string; // zone the quiet hours are in, as for schedule/set
+  escalate_after?: number;
+  power_cycle_minutes?: number;
+}
+
+export const resolveDeviceConfig = (device: Device): DeviceConfig => ({
+  autoPingReboot: device.autoPingReboot ?? DEFAULT_DEVICE_CONFIG.autoPingReboot,
+  pingThreshold: device.pingThreshold ?? DEFAULT_DEVICE_CONFIG.pingThreshold,
+  rebootCooldownMinutes: device.rebootCooldownMinutes ?? DEFAULT_DEVICE_CONFIG.rebootCooldownMinutes,
+  maxRebootsPerDay: device.maxRebootsPerDay ?? DEFAULT_DEVICE_CONFIG.maxRebootsPerDay,
+  pingTarget: device.pingTarget ?? DEFAULT_DEVICE_CONFIG.pingTarget,
+  failuresBeforeReboot: device.failuresBeforeReboot ?? DEFAULT_DEVICE_CONFIG.failuresBeforeReboot,
+  quietHoursStart: device.quietHoursStart ?? DEFAULT_DEVICE_CONFIG.quietHoursStart,
+  quietHoursEnd: device.quietHoursEnd ?? DEFAULT_DEVICE_CONFIG.quietHoursEnd,
+  escalateAfterReboots: device.escalateAfterReboots ?? DEFAULT_DEVICE_CONFIG.escalateAfterReboots,
+  powerCycleMinutes: device.powerCycleMinutes ?? DEFAULT_DEVICE_CONFIG.powerCycleMinutes,
+});
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const HOST_PATTERN = /^[A-Za-z0-9.-]+$|^\[?[0-9A-Fa-f:]+\]?$/;
+
+// Returns an error message, or null when the config can be sent.
+export const validateDeviceConfig = (config: DeviceConfig): string | null => {
+  if (!Number.isInteger(config.pingThreshold) || config.pingThreshold < 10 || config.pingThreshold > 10000) {
+    return 'Ping threshold must be between 10 and 10000 ms.';
+  }
+  if (!Number.isInteger(config.rebootCooldownMinutes) || config.rebootCooldownMinutes < 0 || config.rebootCooldownMinutes > 1440) {
+    return 'Cooldown must be between 0 and 1440 minutes.';
+  }
+  if (!Number.isInteger(config.maxRebootsPerDay) || config.maxRebootsPerDay < 1 || config.maxRebootsPerDay > 48) {
+    return 'Max reboots per day must be between 1 and 48.';
+  }
+  if (!config.pingTarget.trim() || !HOST_PATTERN.test(config.pingTarget.trim())) {
+    return 'Ping target must be a host name or IP address.';
+  }
+  if (!Number.isInteger(config.failuresBeforeReboot) || config.failuresBeforeReboot < 1 || config.failuresBeforeReboot > 20) {
+    return 'Failures before reboot must be between 1 and 20.';
+  }
+  if (!!config.quietHoursStart !== !!config.quietHoursEnd) {
+    return 'Set both ends of the quiet hours, or neither.';
+  }
+  if (config.quietHoursStart && (!TIME_PATTERN.test(config.quietHoursStart) || !TIME_PATTERN.test(config.quietHoursEnd))) {
+    return 'Quiet hours must be times like 22:00.';
+  }
+  if (config.quietHoursStart && config.quietHoursStart === config.quietHoursEnd) {
+    return 'Quiet hours must not start and end at the same time.';
+  }
+  if (!Number.isInteger(config.escalateAfterReboots) || config.escalateAfterReboots < 0 || config.escalateAfterReboots > 10) {
+    return 'Escalation must be after 0 (never) to 10 reboots.';
+  }
+  if (!Number.isInteger(config.powerCycleMinutes) || config.powerCycleMinutes < 1 || config.powerCycleMinutes > 120) {
+    return 'Power cycle must be between 1 and 120 minutes.';
+  }
+  return null;
+};
+
+export const encodeDeviceConfig = (config: DeviceConfig, timeZone?: string): string => {
+  const wire: WireDeviceConfig = {
+    enabled: config.autoPingReboot,
+    threshold: config.pingThreshold,
+    cooldown: config.rebootCooldownMinutes,
+    max_per_day: config.maxRebootsPerDay,
+    target: config.pingTarget.trim(),
+    failures: config.failuresBeforeReboot,
+    quiet_start: config.quietHoursStart,
+    quiet_end: config.quietHoursEnd,
+    posix: config.quietHoursStart && timeZone ? toPosixTimeZone(timeZone) : undefined,
+    escalate_after: config.escalateAfterReboots,
+    power_cycle_minutes: config.powerCycleMinutes,
+  };
+  return JSON.stringify(wire);
+};
+
+// Keeps only the fields the device actually reported; older firmware knows fewer.
+export const decodeDeviceConfig = (data: any): Partial<DeviceConfig> | null => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return null;
+  const config: Partial<DeviceConfig> = {};
+  const number = (value: unknown) => (value === undefined || value === null || value === '' ? NaN : Number(value));
+  if (data.enabled !== undefined) config.autoPingReboot = data.enabled === true || data.enabled === 'true' || data.enabled === 1;
+  if (!isNaN(number(data.threshold))) config.pingThreshold = number(data.threshold);
+  if (!isNaN(number(data.cooldown))) config.rebootCooldownMinutes = number(data.cooldown);
+  if (!isNaN(number(data.max_per_day))) config.maxRebootsPerDay = number(data.max_per_day);
+  if (typeof data.target === 'string') config.pingTarget = data.target;
+  if (!isNaN(number(data.failures))) config.failuresBeforeReboot = number(data.failures);
+  if (typeof data.quiet_start === 'string') config.quietHoursStart = data.quiet_start;
+  if (typeof data.quiet_end === 'string') config.quietHoursEnd = data.quiet_end;
+  if (!isNaN(number(data.escalate_after))) config.escalateAfterReboots = number(data.escalate_after);
+  if (!isNaN(number(data.power_cycle_minutes))) config.powerCycleMinutes = number(data.power_cycle_minutes);
+  return Object.keys(config).length > 0 ? config : null;
+};
+
+export const DEVICE_CONFIG_LABELS: { [key in keyof DeviceConfig]: string } = {
+  autoPingReboot: 'Auto-reboot',
+  pingThreshold: 'Ping threshold (ms)',
+  rebootCooldownMinutes: 'Cooldown (min)',
+  maxRebootsPerDay: 'Max reboots per day',
+  pingTarget: 'Ping target',
+  failuresBeforeReboot: 'Failures before reboot',
+  quietHoursStart: 'Quiet hours from',
+  quietHoursEnd: 'Quiet hours until',
+  escalateAfterReboots: 'Power cycle after reboots',
+  powerCycleMinutes: 'Power cycle (min)',
+};
+
+export interface ConfigMismatch {
+  key: keyof DeviceConfig;
+  local: DeviceConfig[keyof DeviceConfig];
+  device: DeviceConfig[keyof DeviceConfig];
+}
+
+export const diffDeviceConfig = (local: DeviceConfig, reported: Partial<DeviceConfig>): ConfigMismatch[] =>
+  (Object.keys(reported) as (keyof DeviceConfig)[])
+    .filter(key => reported[key] !== local[key])
+    .map(key => ({ key, local: local[key], device: reported[key] as DeviceConfig[keyof DeviceConfig] }));
+
+export const formatConfigValue = (value: DeviceConfig[keyof DeviceConfig]) =>
+  typeof value === 'boolean' ? (value ? 'On' : 'Off') : value === '' ? '—' : String(value);
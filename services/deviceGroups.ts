@@ -0,0 +1,30 @@
+import type { Device } from '../types';
+
+// Devices are grouped by free-form tags (site, customer, ...). Tags are
+// compared case-insensitively and stored lowercased.
+
+export const UNTAGGED = '__untagged__';
+
+export const normalizeTag = (tag: string) => tag.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const parseTags = (input: string): string[] =>
+  Array.from(new Set(input.split(',').map(normalizeTag).filter(Boolean)));
+
+export const collectTags = (devices: Device[]): string[] =>
+  Array.from(new Set(devices.flatMap(d => d.tags || []))).sort();
+
+// group is a tag, UNTAGGED, or null for every device.
+export const matchesGroup = (device: Device, group: string | null) => {
+  if (group === null) return true;
+  const tags = device.tags || [];
+  return group === UNTAGGED ? tags.length === 0 : tags.includes(group);
+};
+
+export const addTag = (tags: string[] | undefined, tag: string): string[] => {
+  const normalized = normalizeTag(tag);
+  const current = tags || [];
+  return !normalized || current.includes(normalized) ? current : [...current, normalized];
+};
+
+export const removeTag = (tags: string[] | undefined, tag: string): string[] =>
+  (tags || []).filter(t => t !== tag);
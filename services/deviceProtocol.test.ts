@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { parseDeviceMessage, parsePayload, type DeviceEvent } from './deviceProtocol';
+
+const NOW = new Date('2026-01-01T12:00:00Z');
+const TS = 1764448611; // 2025-11-29T20:36:51Z
+
+describe('parsePayload', () => {
+  it.each([
+    ['pipe-delimited timestamp in seconds', 'reset_done|1764448611', 'reset_done', TS * 1000],
+    ['space-delimited timestamp', 'online 1764448611', 'online', TS * 1000],
+    ['timestamp in milliseconds', 'boot|1764448611123', 'boot', 1764448611123],
+    ['JSON ts in seconds', '{"status":"online","ts":1764448611}', 'online', TS * 1000],
+    ['JSON ts as ISO string', '{"event":"reset_done","ts":"2025-11-29T20:36:51Z"}', 'reset_done', TS * 1000],
+    ['JSON timestamp key', '{"action":"reset_manual","timestamp":1764448611}', 'reset_manual', TS * 1000],
+    ['JSON uptime', '{"event":"boot","uptime":120}', 'boot', NOW.getTime() - 120000],
+    ['bare number', '1', '1', NOW.getTime()],
+    ['quoted string', '"online"', 'online', NOW.getTime()],
+    ['quoted string with timestamp', '"reset_done|1764448611"', 'reset_done', TS * 1000],
+    ['mixed case and dashes', 'Reboot-Done', 'reboot_done', NOW.getTime()],
+    ['control characters', 'online\u0000\n', 'online', NOW.getTime()],
+  ])('%s', (_, message, token, time) => {
+    const payload = parsePayload(message, false, NOW);
+    expect(payload.token).toBe(token);
+    expect(payload.time?.getTime()).toBe(time);
+  });
+
+  it('keeps the parsed JSON', () => {
+    expect(parsePayload('{"status":"online","rssi":-70}', false, NOW).json).toEqual({ status: 'online', rssi: -70 });
+    expect(parsePayload('{not json}', false, NOW).json).toBeNull();
+  });
+
+  it('leaves retained messages without a timestamp undated', () => {
+    expect(parsePayload('online', true, NOW).time).toBeNull();
+    expect(parsePayload('online|1764448611', true, NOW).time?.getTime()).toBe(TS * 1000);
+  });
+});
+
+describe('parseDeviceMessage', () => {
+  const time = new Date(TS * 1000);
+
+  it.each<[string, Parameters<typeof parseDeviceMessage>[0], string, boolean, DeviceEvent[]]>([
+    ['reboot completion with timestamp', 'status', 'reset_done|1764448611', false, [
+      { kind: 'presence', state: 'online', time },
+      { kind: 'reboot', phase: 'completed', time },
+    ]],
+    ['quoted presence', 'online', '"offline"', false, [{ kind: 'presence', state: 'offline', time: NOW }]],
+    ['bare number presence', 'online', '1', false, [{ kind: 'presence', state: 'online', time: NOW }]],
+    ['power off', 'status', 'power_off', false, [{ kind: 'power', poweredOff: true, time: NOW }]],
+    ['auto-reboot request on events', 'events', '{"event":"reset_autoping","ts":1764448611}', false, [
+      { kind: 'reboot', phase: 'requested', reason: 'autoping', time },
+    ]],
+    ['suppressed auto-reboot', 'events', '{"event":"autoping_skipped","reason":"cooldown"}', false, [
+      { kind: 'autoping_skipped', reason: 'cooldown', time: NOW },
+    ]],
+    ['explicit ack', 'status', '{"ack":"/schedule/set","ok":true}', false, [{ kind: 'ack', command: 'schedule/set', ok: true, error: undefined }]],
+    ['ack with command id', 'events', '{"ack":"config/ping_reboot","cid":"cmd_abc","ok":true}', false, [
+      { kind: 'ack', command: 'config/ping_reboot', cid: 'cmd_abc', ok: true, error: undefined },
+    ]],
+    ['failed ack', 'status', '{"ack":"reset","error":"busy"}', false, [{ kind: 'ack', command: 'reset', ok: false, error: 'busy' }]],
+    ['last reset without timestamp, retained', 'last_reset', 'reset_done', true, [{ kind: 'reboot', phase: 'completed', time: null }]],
+    ['OTA progress as bare number', 'ota/progress', '55', false, [{ kind: 'ota_progress', progress: 55 }]],
+    ['OTA progress as JSON', 'ota/progress', '{"progress":80}', false, [{ kind: 'ota_progress', progress: 80 }]],
+    ['OTA hash mismatch', 'ota/status', 'hash_mismatch', false, [{ kind: 'ota_status', status: 'hash_mismatch', failed: true, verification: 'failed' }]],
+    ['version', 'version', '"1.4.2"', false, [{ kind: 'version', version: '1.4.2' }]],
+    ['unknown status word', 'status', 'whatever', false, []],
+  ])('%s', (_, topic, message, retained, events) => {
+    expect(parseDeviceMessage(topic, message, retained, NOW)).toEqual(events);
+  });
+
+  it.each<[string, string, number | null]>([
+    ['JSON ping', '{"ping":23.5,"uptime":123}', 23.5],
+    ['JSON latency as string', '{"latency":"41"}', 41],
+    ['JSON without a ping field', '{"uptime":123,"rssi":-70}', null],
+    ['JSON with a non-numeric ping', '{"ping":"n/a","uptime":123}', null],
+    ['malformed JSON', '{"ping":12', null],
+    ['plain text', 'OK 42ms', 42],
+    ['bare number', '17', 17],
+    ['text without a number', 'degraded', null],
+  ])('health ping from %s', (_, message, ping) => {
+    expect(parseDeviceMessage('health/status', message, false, NOW)).toEqual([{ kind: 'health', ping, raw: message }]);
+  });
+
+  it('ignores retained health reports', () => {
+    expect(parseDeviceMessage('health/status', '{"ping":20}', true, NOW)).toEqual([]);
+  });
+});
@@ -0,0 +1,269 @@
+// Topics and payload parsing for the rebooter firmware. Every topic the app
+// subscribes to is listed here, and each one has a parser that turns the raw
+// payload into typed events for useMqttManager to apply.
+
+import type { DeviceConfig } from '../types';
+import { decodeDeviceConfig } from './deviceConfig';
+import { isWireSchedule, type WireSchedule } from './scheduleCodec';
+
+export const DEVICE_TOPICS = [
+  'online',
+  'heartbeat',
+  'status',
+  'health/status',
+  'ota/status',
+  'ota/progress',
+  'version',
+  'last_reset',
+  'last_reboot',
+  'events',
+  'log',
+  'schedule/state',
+  'config/state',
+] as const;
+
+export type DeviceTopic = typeof DEVICE_TOPICS[number];
+
+export const getDeviceTopics = (deviceId: string) => DEVICE_TOPICS.map(topic => `${deviceId}/${topic}`);
+
+export type RebootPhase = 'requested' | 'resetting' | 'completed';
+export type RebootReason = 'manual' | 'schedule' | 'autoping' | 'escalation';
+
+export type DeviceEvent =
+  | { kind: 'presence'; state: 'online' | 'resetting' | 'offline'; time: Date | null }
+  | { kind: 'reboot'; phase: RebootPhase; reason?: RebootReason; time: Date | null }
+  | { kind: 'power'; poweredOff: boolean; time: Date | null }
+  | { kind: 'autoping_skipped'; reason: string | null; time: Date | null }
+  | { kind: 'schedules_cleared' }
+  | { kind: 'schedules_set' }
+  | { kind: 'schedules_report'; schedules: WireSchedule[] }
+  | { kind: 'config_report'; config: Partial<DeviceConfig> }
+  | { kind: 'ack'; command: string; cid?: string; ok: boolean; error?: string }
+  | { kind: 'health'; ping: number | null; raw: string }
+  | { kind: 'ota_status'; status: string; failed: boolean; verification?: OtaVerification }
+  | { kind: 'ota_progress'; progress: number }
+  | { kind: 'version'; version: string }
+  | { kind: 'log'; message: string; time: Date | null };
+
+export type OtaVerification = 'passed' | 'failed';
+
+export interface ParsedPayload {
+  raw: string;     // control characters and wrapping quotes removed
+  token: string;   // the command/state word, lowercased, timestamp removed
+  json: any | null;
+  time: Date | null;
+}
+
+const ONLINE_TOKENS = ['online', '1', 'true', 'on', 'connected', 'idle'];
+const OFFLINE_TOKENS = ['offline', 'disconnected'];
+const REBOOT_DONE_TOKENS = ['reset_done', 'reboot_done', 'boot', 'booted', 'start', 'started'];
+const RESETTING_TOKENS = ['resetting', 'rebooting'];
+const REBOOT_REQUEST_TOKENS: { [token: string]: RebootReason | undefined } = {
+  reset_manual: 'manual',
+  reset_schedule: 'schedule',
+  reset_autoping: 'autoping',
+  power_cycle_autoping: 'escalation', // the auto-reboot policy escalated to a power cycle
+  autoping_power_cycle: 'escalation',
+  reboot: undefined,
+  reset: undefined,
+};
+const POWER_OFF_TOKENS = ['power_off', 'turn_off', 'off', '0'];
+const POWER_ON_TOKENS = ['power_on', 'turn_on'];
+const SCHEDULES_SET_TOKENS = ['schedules_set', 'schedule_set', 'schedules_updated'];
+
+// Seconds vs milliseconds, using the year 2000 as the cutoff.
+const toDate = (value: number) => new Date(value > 946684800000 ? value : value * 1000);
+
+export const parsePayload = (message: string, retained: boolean, now: Date = new Date()): ParsedPayload => {
+  const raw = message.replace(/[\x00-\x1F\x7F-\x9F]/g, '').replace(/^"|"$/g, '').trim();
+  let text = raw;
+  let timestamp: number | null = null;
+  let uptime: number | null = null;
+  let json: any | null = null;
+
+  // A 10-14 digit run is a unix timestamp, e.g. "reset_done|1764448611" or "online 1764448611".
+  const digitRuns = raw.match(/(\d{10,14})/g);
+  if (digitRuns && digitRuns.length > 0) {
+    const tsString = digitRuns[digitRuns.length - 1];
+    timestamp = parseInt(tsString, 10);
+    text = raw.replace(tsString, '');
+  }
+
+  if (raw.startsWith('{') && raw.endsWith('}')) {
+    try {
+      json = JSON.parse(raw);
+      const ts = json.ts || json.timestamp || json.time || json.last_seen || json.boot_time || json.last_reset || json.last_reboot;
+      if (ts) timestamp = isNaN(Number(ts)) ? Date.parse(ts) : Number(ts);
+      if (json.uptime && !isNaN(Number(json.uptime))) uptime = Number(json.uptime);
+      text = (json.status || json.event || json.action || json.msg || '').toString();
+    } catch (e) {
+      json = null;
+    }
+  }
+
+  let time: Date | null = null;
+  if (timestamp !== null && !isNaN(timestamp)) {
+    time = toDate(timestamp);
+  } else if (uptime !== null) {
+    time = new Date(now.getTime() - uptime * 1000);
+  }
+  // Retained messages without a timestamp say nothing about when they happened.
+  if (!time && !retained) {
+    time = now;
+  }
+
+  const token = text
+    .replace(/^[|:\-\s]+|[|:\-\s]+$/g, '')
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_');
+
+  return { raw, token, json, time };
+};
+
+// The auto-reboot policy held back a reboot, e.g. {"event":"autoping_skipped","reason":"cooldown"}
+// or "autoping_skipped_quiet_hours".
+const AUTOPING_SKIPPED = /^autoping_(skipped|suppressed)_?/;
+
+const parseAutopingSkipped = ({ token, json, time }: ParsedPayload): DeviceEvent | null => {
+  if (!AUTOPING_SKIPPED.test(token)) return null;
+  const reason = json && json.reason ? json.reason.toString() : token.replace(AUTOPING_SKIPPED, '') || null;
+  return { kind: 'autoping_skipped', reason, time };
+};
+
+const parseAction = ({ token, time }: ParsedPayload): DeviceEvent | null => {
+  if (REBOOT_DONE_TOKENS.includes(token)) return { kind: 'reboot', phase: 'completed', time };
+  if (RESETTING_TOKENS.includes(token)) return { kind: 'reboot', phase: 'resetting', time };
+  if (token in REBOOT_REQUEST_TOKENS) return { kind: 'reboot', phase: 'requested', reason: REBOOT_REQUEST_TOKENS[token], time };
+  if (POWER_OFF_TOKENS.includes(token)) return { kind: 'power', poweredOff: true, time };
+  if (POWER_ON_TOKENS.includes(token)) return { kind: 'power', poweredOff: false, time };
+  return null;
+};
+
+const parsePresence = (payload: ParsedPayload): DeviceEvent[] => {
+  const { token, time } = payload;
+  const action = parseAction(payload);
+
+  if (action && action.kind === 'reboot') {
+    return [{ kind: 'presence', state: action.phase === 'resetting' ? 'resetting' : 'online', time }, action];
+  }
+  if (action && action.kind === 'power') {
+    return [action];
+  }
+  if (ONLINE_TOKENS.includes(token)) return [{ kind: 'presence', state: 'online', time }];
+  if (OFFLINE_TOKENS.includes(token)) return [{ kind: 'presence', state: 'offline', time }];
+  return [];
+};
+
+// Explicit command results, e.g. {"ack":"schedule/set","cid":"cmd_m1x2_ab12cd","ok":true}
+// or {"ack":"reset","error":"busy"}. The cid echoes the id sent with the command.
+const parseAck = ({ json }: ParsedPayload): DeviceEvent | null => {
+  if (!json || typeof json.ack !== 'string') return null;
+  const error = json.error ? json.error.toString() : undefined;
+  const ok = json.ok !== undefined ? json.ok === true || json.ok === 'true' || json.ok === 1 : !error;
+  const cid = typeof json.cid === 'string' && json.cid ? json.cid : undefined;
+  return { kind: 'ack', command: json.ack.replace(/^\/+/, ''), cid, ok, error };
+};
+
+const parseStatus = (payload: ParsedPayload): DeviceEvent[] => {
+  const ack = parseAck(payload);
+  if (ack) return [ack];
+  if (payload.token === 'schedules_cleared') return [{ kind: 'schedules_cleared' }];
+  if (SCHEDULES_SET_TOKENS.includes(payload.token)) return [{ kind: 'schedules_set' }];
+  const skipped = parseAutopingSkipped(payload);
+  if (skipped) return [skipped];
+  return parsePresence(payload);
+};
+
+export const isOtaFailure = (status: string) => /fail|error|mismatch/i.test(status);
+
+// Firmware checks the downloaded image against the sha256 sent with ota/start
+// and reports e.g. "hash_ok" / "verified" or "hash_mismatch" / "sha256_failed".
+const HASH_WORDS = /hash|sha|checksum|digest|integrity|verif/i;
+
+export const getOtaVerification = (status: string): OtaVerification | undefined => {
+  if (!HASH_WORDS.test(status)) return undefined;
+  if (/fail|error|mismatch|invalid|bad/i.test(status)) return 'failed';
+  return /ok|pass|match|verified|valid/i.test(status) ? 'passed' : undefined;
+};
+
+// Payload of ota/start. The device refuses to flash an image whose size or
+// sha256 differs, and checks the version it reports after the reboot.
+export interface OtaStartCommand {
+  url: string;
+  version: string;
+  size?: number;
+  sha256?: string;
+}
+
+export const encodeOtaStart = ({ url, version, size, sha256 }: OtaStartCommand) =>
+  JSON.stringify({ url, version, size, sha256 });
+
+// JSON reports only carry a latency in `ping` or `latency`; other numbers in
+// them (uptime, rssi, ...) are not pings. Plain-text reports like "OK 23ms"
+// use the first number.
+const parseHealthPing = ({ raw, json }: ParsedPayload): number | null => {
+  if (raw.startsWith('{')) {
+    const value = json ? json.ping ?? json.latency : undefined;
+    const ping = typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value) : NaN;
+    return isNaN(ping) ? null : ping;
+  }
+  const match = raw.match(/(\d+)/);
+  return match ? parseInt(match[1], 10) : null;
+};
+
+const parseHealth = (payload: ParsedPayload, retained: boolean): DeviceEvent[] => {
+  // A retained health report is stale and must not refresh the watchdog.
+  if (retained) return [];
+  return [{ kind: 'health', ping: parseHealthPing(payload), raw: payload.raw }];
+};
+
+// Reply to schedule/get: the bare array, or {"schedules": [...]}.
+const parseScheduleState = ({ raw }: ParsedPayload): DeviceEvent[] => {
+  let data: any;
+  try {
+    data = JSON.parse(raw);
+  } catch (e) {
+    return [];
+  }
+  const entries = Array.isArray(data) ? data : data && Array.isArray(data.schedules) ? data.schedules : null;
+  if (!entries) return [];
+  return [{ kind: 'schedules_report', schedules: entries.filter(isWireSchedule) }];
+};
+
+// Reply to config/get, also published after the device applies config/ping_reboot.
+const parseConfigState = ({ json }: ParsedPayload): DeviceEvent[] => {
+  const config = decodeDeviceConfig(json);
+  return config ? [{ kind: 'config_report', config }] : [];
+};
+
+const parseLastReset = ({ time }: ParsedPayload): DeviceEvent[] => [{ kind: 'reboot', phase: 'completed', time }];
+
+const parseOtaProgress = ({ raw, json }: ParsedPayload): DeviceEvent[] => {
+  const progress = parseInt(json && json.progress !== undefined ? json.progress : raw, 10);
+  return isNaN(progress) ? [] : [{ kind: 'ota_progress', progress }];
+};
+
+const parsers: Record<DeviceTopic, (payload: ParsedPayload, retained: boolean) => DeviceEvent[]> = {
+  'online': parsePresence,
+  'heartbeat': parsePresence,
+  'status': parseStatus,
+  'health/status': parseHealth,
+  'ota/status': ({ raw }) => [{ kind: 'ota_status', status: raw, failed: isOtaFailure(raw), verification: getOtaVerification(raw) }],
+  'ota/progress': parseOtaProgress,
+  'version': ({ raw }) => (raw ? [{ kind: 'version', version: raw }] : []),
+  'last_reset': parseLastReset,
+  'last_reboot': parseLastReset,
+  'events': payload => {
+    const action = parseAck(payload) || parseAutopingSkipped(payload) || parseAction(payload);
+    return action ? [action] : [];
+  },
+  'log': ({ raw, time }) => [{ kind: 'log', message: raw, time }],
+  'schedule/state': parseScheduleState,
+  'config/state': parseConfigState,
+};
+
+export const isDeviceTopic = (suffix: string): suffix is DeviceTopic =>
+  (DEVICE_TOPICS as readonly string[]).includes(suffix);
+
+export const parseDeviceMessage = (topic: DeviceTopic, message: string, retained: boolean, now: Date = new Date()): DeviceEvent[] =>
+  parsers[topic](parsePayload(message, retained, now), retained);
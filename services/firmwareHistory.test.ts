@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import type { FirmwareHistoryEntry } from '../types';
+import { applyFirmwareEvent, type FirmwareEvent, type FirmwareEventContext } from './firmwareHistory';
+
+const status = (text: string): FirmwareEvent => ({ kind: 'ota_status', status: text, failed: /fail/.test(text) });
+const version = (v: string): FirmwareEvent => ({ kind: 'version', version: v });
+
+// Feeds live (non-retained) events for device "d1" in order.
+const replay = (events: FirmwareEvent[], context: Partial<FirmwareEventContext> = {}) =>
+  events.reduce<FirmwareHistoryEntry[]>(
+    (history, event, i) => applyFirmwareEvent(history, 'd1', event, { retained: false, ...context }, new Date(Date.UTC(2026, 0, 1, 0, 0, i))),
+    []
+  );
+
+describe('applyFirmwareEvent', () => {
+  it('closes on a version that differs from the one before the update', () => {
+    const [entry] = replay([status('downloading'), version('1.4.0'), version('1.5.0')], { previousVersion: '1.4.0' });
+    expect(entry).toMatchObject({ outcome: 'succeeded', fromVersion: '1.4.0', toVersion: '1.5.0' });
+  });
+
+  it('ignores the pre-reboot version report when neither version is known', () => {
+    const [entry] = replay([status('downloading'), version('1.4.0')], { otaPayload: 'https://example.com/fw.bin' });
+    expect(entry.outcome).toBe('in_progress');
+  });
+
+  it('closes on the next version report once the device reported success', () => {
+    const [entry] = replay([status('downloading'), version('1.4.0'), status('success'), version('1.5.0')]);
+    expect(entry).toMatchObject({ outcome: 'succeeded', toVersion: '1.5.0' });
+  });
+
+  it('closes on the target version sent with ota/start', () => {
+    const otaPayload = JSON.stringify({ url: 'https://example.com/fw.bin', version: '1.5.0' });
+    const history = replay([status('downloading'), version('1.4.0')], { otaPayload });
+    expect(history[0].outcome).toBe('in_progress');
+    const [entry] = applyFirmwareEvent(history, 'd1', version('v1.5.0'), { retained: false, otaPayload });
+    expect(entry.outcome).toBe('succeeded');
+  });
+
+  it('records a failure', () => {
+    const [entry] = replay([status('downloading'), status('download_failed')], { previousVersion: '1.4.0' });
+    expect(entry).toMatchObject({ outcome: 'failed', error: 'download_failed' });
+  });
+});
@@ -0,0 +1,124 @@
+import type { FirmwareAsset, FirmwareHistoryEntry } from '../types';
+import type { DeviceEvent } from './deviceProtocol';
+import { isSameVersion } from './firmwareRollout';
+
+// Per-device record of OTA updates, built from ota/status, ota/progress and
+// version messages. An update opens when the device starts downloading and
+// closes when it reports a failure, or a version that differs from the one it
+// ran before. Without a known previous version that could be the old firmware
+// answering before it reboots, so the version only counts once ota/status
+// reported the update complete, or when it is the version being installed.
+
+export type FirmwareEvent = Extract<DeviceEvent, { kind: 'ota_status' | 'ota_progress' | 'version' }>;
+
+export interface FirmwareEventContext {
+  retained: boolean;
+  previousVersion?: string; // version the app knew before this message
+  otaPayload?: string; // payload of the last ota/start sent to the device this session
+}
+
+const MAX_ENTRIES = 200;
+// An update that never reported back is closed when the next one starts.
+const STALE_UPDATE_MS = 30 * 60000;
+
+const isStarting = (status: string) => /start|download|progress|resolving|redirect/i.test(status);
+const isComplete = (status: string) => /success/i.test(status);
+
+// The JSON ota/start payload; older raw-URL payloads carry no version.
+const parseOtaPayload = (payload?: string): FirmwareAsset | undefined => {
+  if (!payload) return undefined;
+  try {
+    const data = JSON.parse(payload);
+    if (data && typeof data.url === 'string' && typeof data.version === 'string') {
+      return { url: data.url, version: data.version, size: data.size, sha256: data.sha256 };
+    }
+  } catch (e) {
+    // Not JSON: a bare download URL.
+  }
+  return undefined;
+};
+
+const findOpen = (history: FirmwareHistoryEntry[], deviceId: string) =>
+  history.find(e => e.deviceId === deviceId && e.outcome === 'in_progress');
+
+const replace = (history: FirmwareHistoryEntry[], entry: FirmwareHistoryEntry) =>
+  history.map(e => (e.id === entry.id ? entry : e));
+
+export const applyFirmwareEvent = (
+  history: FirmwareHistoryEntry[],
+  deviceId: string,
+  event: FirmwareEvent,
+  context: FirmwareEventContext,
+  now: Date = new Date()
+): FirmwareHistoryEntry[] => {
+  const stamp = now.toISOString();
+  let open = findOpen(history, deviceId);
+
+  if (event.kind === 'version') {
+    if (!open) return history;
+    const closes = open.flashed || (open.fromVersion
+      ? !isSameVersion(event.version, open.fromVersion)
+      : isSameVersion(event.version, open.toVersion));
+    if (!closes) return history;
+    return replace(history, { ...open, outcome: 'succeeded', toVersion: event.version, finishedAt: stamp });
+  }
+
+  // A retained status or progress describes an update this session didn't see start.
+  if (context.retained) return history;
+
+  if (event.kind === 'ota_status' && event.failed) {
+    if (open) return replace(history, { ...open, outcome: 'failed', error: event.status, finishedAt: stamp });
+    const entry: FirmwareHistoryEntry = {
+      id: `${deviceId}|${stamp}`,
+      deviceId,
+      startedAt: stamp,
+      finishedAt: stamp,
+      fromVersion: context.previousVersion,
+      outcome: 'failed',
+      error: event.status,
+    };
+    return [entry, ...history].slice(0, MAX_ENTRIES);
+  }
+
+  if (event.kind === 'ota_status' && isComplete(event.status)) {
+    return open ? replace(history, { ...open, flashed: true }) : history;
+  }
+  if (event.kind === 'ota_status' && !isStarting(event.status)) return history;
+
+  if (open && now.getTime() - new Date(open.startedAt).getTime() > STALE_UPDATE_MS) {
+    history = replace(history, { ...open, outcome: 'failed', error: 'No result reported.', finishedAt: stamp });
+    open = undefined;
+  }
+  if (open) return history;
+
+  const asset = parseOtaPayload(context.otaPayload);
+  const entry: FirmwareHistoryEntry = {
+    id: `${deviceId}|${stamp}`,
+    deviceId,
+    startedAt: stamp,
+    fromVersion: context.previousVersion,
+    toVersion: asset?.version,
+    outcome: 'in_progress',
+    asset,
+  };
+  return [entry, ...history].slice(0, MAX_ENTRIES);
+};
+
+export const deviceFirmwareHistory = (history: FirmwareHistoryEntry[], deviceId: string) =>
+  history.filter(e => e.deviceId === deviceId);
+
+export const formatDuration = (entry: FirmwareHistoryEntry) => {
+  if (!entry.finishedAt) return null;
+  const seconds = Math.round((new Date(entry.finishedAt).getTime() - new Date(entry.startedAt).getTime()) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+// The asset of the version the device ran before its last successful update,
+// as long as some earlier update from this app installed it.
+export const findRollbackTarget = (history: FirmwareHistoryEntry[], deviceId: string, currentVersion?: string | null) => {
+  const entries = deviceFirmwareHistory(history, deviceId); // newest first
+  const last = entries.find(e => e.outcome === 'succeeded' && (!currentVersion || isSameVersion(e.toVersion, currentVersion)));
+  if (!last?.fromVersion) return null;
+  const previous = entries.find(e => e.asset && isSameVersion(e.asset.version, last.fromVersion));
+  return { version: last.fromVersion, asset: previous?.asset };
+};
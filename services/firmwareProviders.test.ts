@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createFirmwareProvider, describeHardwareRange, parseManifest, supportsHardware, type FirmwareRelease } from './firmwareProviders';
+
+const MANIFEST_URL = 'https://fw.example.com/boards/manifest.json';
+const SHA = 'AB'.repeat(32);
+
+describe('parseManifest', () => {
+  it('reads a plain list and resolves relative urls against the manifest', () => {
+    const { releases, skipped } = parseManifest([
+      { version: '1.5.0', url: 'fw-1.5.0.bin', sha256: SHA, size: 912384, minHardware: 2, maxHardware: 3, notes: 'Fixes', publishedAt: '2026-05-01' },
+      { version: '1.4.0', url: 'https://cdn.example.com/fw-1.4.0.bin', size: '12' },
+    ], MANIFEST_URL);
+    expect(skipped).toEqual([]);
+    expect(releases[0]).toEqual({
+      id: '1.5.0|fw-1.5.0.bin',
+      version: '1.5.0',
+      url: 'https://fw.example.com/boards/fw-1.5.0.bin',
+      sha256: SHA.toLowerCase(),
+      size: 912384,
+      minHardware: 2,
+      maxHardware: 3,
+      notes: 'Fixes',
+      publishedAt: '2026-05-01',
+    });
+    expect(releases[1]).toMatchObject({ url: 'https://cdn.example.com/fw-1.4.0.bin', size: undefined });
+  });
+
+  it('reads { "releases": [...] }', () => {
+    expect(parseManifest({ releases: [{ version: '1.0.0', url: 'a.bin' }] }, MANIFEST_URL).releases).toHaveLength(1);
+  });
+
+  it('skips unreadable entries and reports them', () => {
+    const { releases, skipped } = parseManifest([
+      { version: '1.5.0', url: 'fw-1.5.0.bin' },
+      { url: 'no-version.bin' },
+      null,
+      { version: '1.3.0', url: 'fw-1.3.0.bin', sha256: 'not-a-hash' },
+      { version: '1.2.0', url: 'http://[broken' },
+    ], MANIFEST_URL);
+    expect(releases.map(r => r.version)).toEqual(['1.5.0']);
+    expect(skipped).toEqual([
+      'Entry 2: needs a version and a url',
+      'Entry 3: needs a version and a url',
+      '1.3.0: invalid sha256',
+      '1.2.0: invalid url',
+    ]);
+  });
+
+  it('rejects a manifest without a releases list', () => {
+    expect(() => parseManifest({ version: '1.0.0' }, MANIFEST_URL)).toThrow('Manifest has no releases list');
+  });
+});
+
+describe('createFirmwareProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const stubFetch = (body: unknown) => {
+    const fetch = vi.fn(async (_input: RequestInfo | URL) => new Response(JSON.stringify(body), { status: 200 }));
+    vi.stubGlobal('fetch', fetch);
+    return fetch;
+  };
+
+  it('reads manifest.json from a directory source', async () => {
+    const fetch = stubFetch([{ version: '1.0.0', url: 'a.bin' }]);
+    const { releases } = await createFirmwareProvider('https://fw.example.com/boards/').listReleases();
+    expect(fetch.mock.calls[0][0]).toBe(MANIFEST_URL);
+    expect(releases[0].url).toBe('https://fw.example.com/boards/a.bin');
+  });
+
+  it('takes the first .bin asset of each GitHub release', async () => {
+    const fetch = stubFetch([
+      { id: 2, tag_name: 'v1.5.0', body: '', assets: [{ name: 'notes.txt' }, { name: 'fw.bin', browser_download_url: 'https://github.com/o/r/fw.bin', size: 10, digest: `sha256:${SHA}` }] },
+      { id: 1, tag_name: 'v1.4.0', assets: [{ name: 'source.zip' }] },
+    ]);
+    const { releases, skipped } = await createFirmwareProvider('owner/repo').listReleases();
+    expect(fetch.mock.calls[0][0]).toBe('https://api.github.com/repos/owner/repo/releases');
+    expect(releases).toEqual([expect.objectContaining({ id: '2', version: 'v1.5.0', sha256: SHA.toLowerCase(), size: 10 })]);
+    expect(skipped).toEqual([]);
+  });
+});
+
+describe('hardware revision range', () => {
+  const release = (minHardware?: number, maxHardware?: number): FirmwareRelease =>
+    ({ id: 'r', version: '1.0.0', url: 'https://fw.example.com/a.bin', minHardware, maxHardware });
+
+  it.each<[string, FirmwareRelease, number | undefined, boolean]>([
+    ['no range', release(), 7, true],
+    ['unknown revision', release(2, 3), undefined, true],
+    ['at the lower bound', release(2, 3), 2, true],
+    ['at the upper bound', release(2, 3), 3, true],
+    ['below the range', release(2, 3), 1, false],
+    ['above the range', release(2, 3), 4, false],
+    ['open upper bound', release(2), 9, true],
+    ['open lower bound', release(undefined, 3), 0, true],
+  ])('%s', (_, r, revision, expected) => {
+    expect(supportsHardware(r, revision)).toBe(expected);
+  });
+
+  it('describes the range', () => {
+    expect(describeHardwareRange(release())).toBeNull();
+    expect(describeHardwareRange(release(2, 2))).toBe('HW rev 2');
+    expect(describeHardwareRange(release(2, 3))).toBe('HW rev 2–3');
+    expect(describeHardwareRange(release(2))).toBe('HW rev 2+');
+    expect(describeHardwareRange(release(undefined, 3))).toBe('HW rev ≤ 3');
+  });
+});
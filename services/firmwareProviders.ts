@@ -0,0 +1,139 @@
+import { isManifestSource } from './firmwareSource';
+
+// Release discovery behind one interface, so GitHub and self-hosted sources
+// look the same to the update screens.
+
+export interface FirmwareRelease {
+  id: string;
+  version: string; // e.g. "v1.4.0"
+  url: string; // the .bin the device downloads
+  sha256?: string; // lowercase hex
+  size?: number; // bytes
+  minHardware?: number; // lowest hardware revision the build runs on
+  maxHardware?: number;
+  notes?: string;
+  publishedAt?: string; // ISO date
+}
+
+export interface ReleaseListing {
+  releases: FirmwareRelease[]; // newest first
+  skipped: string[]; // manifest entries that could not be read, with the reason
+}
+
+export interface FirmwareProvider {
+  source: string;
+  listReleases: () => Promise<ReleaseListing>;
+}
+
+export const createGitHubProvider = (repo: string): FirmwareProvider => ({
+  source: repo,
+  listReleases: async () => {
+    // Fetch ALL releases, not just 'latest'
+    const response = await fetch(`https://api.github.com/repos/${repo}/releases`);
+    if (!response.ok) {
+      throw new Error(response.status === 404 ? "Repo/Releases not found" : "GitHub API Error");
+    }
+    const data = await response.json();
+    const releases: any[] = Array.isArray(data) ? data : [data];
+
+    // GitHub releases carry no hardware range; the first .bin asset is the build.
+    // Its digest ("sha256:<hex>") is only present on assets uploaded since mid 2025.
+    // Releases without one are not builds, so they are left out silently.
+    const builds = releases.flatMap(release => {
+      const asset = release.assets?.find((a: any) => a.name.endsWith('.bin'));
+      if (!asset) return [];
+      const digest = typeof asset.digest === 'string' ? asset.digest.match(/^sha256:([0-9a-f]{64})$/i) : null;
+      return [{
+        id: String(release.id),
+        version: release.tag_name,
+        url: asset.browser_download_url,
+        sha256: digest ? digest[1].toLowerCase() : undefined,
+        size: typeof asset.size === 'number' ? asset.size : undefined,
+        notes: release.body || undefined,
+        publishedAt: release.published_at || undefined,
+      }];
+    });
+    return { releases: builds, skipped: [] };
+  },
+});
+
+const optionalNumber = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+
+// A manifest is JSON, either a list of releases or { "releases": [...] }:
+//   { "version": "1.4.0", "url": "fw-1.4.0.bin", "sha256": "...", "size": 912384,
+//     "minHardware": 2, "maxHardware": 3, "notes": "...", "publishedAt": "2026-05-01" }
+// Relative URLs resolve against the manifest. An entry that can't be read is
+// skipped and reported instead of hiding the rest of the manifest.
+export const parseManifest = (data: unknown, manifestUrl: string): ReleaseListing => {
+  const entries = Array.isArray(data) ? data : (data as { releases?: unknown } | null)?.releases;
+  if (!Array.isArray(entries)) throw new Error("Manifest has no releases list");
+
+  const releases: FirmwareRelease[] = [];
+  const skipped: string[] = [];
+  entries.forEach((entry: any, index: number) => {
+    const name = typeof entry?.version === 'string' ? entry.version : `Entry ${index + 1}`;
+    if (typeof entry?.version !== 'string' || typeof entry?.url !== 'string') {
+      skipped.push(`${name}: needs a version and a url`);
+      return;
+    }
+    const sha256 = typeof entry.sha256 === 'string' ? entry.sha256.toLowerCase() : undefined;
+    if (sha256 && !/^[0-9a-f]{64}$/.test(sha256)) {
+      skipped.push(`${name}: invalid sha256`);
+      return;
+    }
+    let url: string;
+    try {
+      url = new URL(entry.url, manifestUrl).toString();
+    } catch (e) {
+      skipped.push(`${name}: invalid url`);
+      return;
+    }
+    releases.push({
+      id: `${entry.version}|${entry.url}`,
+      version: entry.version,
+      url,
+      sha256,
+      size: optionalNumber(entry.size),
+      minHardware: optionalNumber(entry.minHardware),
+      maxHardware: optionalNumber(entry.maxHardware),
+      notes: typeof entry.notes === 'string' ? entry.notes : undefined,
+      publishedAt: typeof entry.publishedAt === 'string' ? entry.publishedAt : undefined,
+    });
+  });
+  return { releases, skipped };
+};
+
+// A source ending in "/" is a directory served over HTTP and reads its manifest.json.
+export const createManifestProvider = (source: string): FirmwareProvider => ({
+  source,
+  listReleases: async () => {
+    const manifestUrl = source.endsWith('/') ? `${source}manifest.json` : source;
+    const response = await fetch(manifestUrl, { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error(response.status === 404 ? "Manifest not found" : `Manifest request failed (${response.status})`);
+    }
+    let data: unknown;
+    try {
+      data = await response.json();
+    } catch (e) {
+      throw new Error("Manifest is not valid JSON");
+    }
+    return parseManifest(data, manifestUrl);
+  },
+});
+
+export const createFirmwareProvider = (source: string): FirmwareProvider =>
+  isManifestSource(source) ? createManifestProvider(source) : createGitHubProvider(source);
+
+// Devices that don't report a hardware revision accept every build.
+export const supportsHardware = (release: FirmwareRelease, hardwareRevision?: number) =>
+  hardwareRevision === undefined ||
+  ((release.minHardware === undefined || hardwareRevision >= release.minHardware) &&
+   (release.maxHardware === undefined || hardwareRevision <= release.maxHardware));
+
+export const describeHardwareRange = (release: FirmwareRelease) => {
+  const { minHardware: min, maxHardware: max } = release;
+  if (min === undefined && max === undefined) return null;
+  if (min !== undefined && max !== undefined) return min === max ? `HW rev ${min}` : `HW rev ${min}–${max}`;
+  return min !== undefined ? `HW rev ${min}+` : `HW rev ≤ ${max}`;
+};
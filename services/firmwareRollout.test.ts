@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { createRollout, evaluateRollout, resumeRollout, type FirmwareRollout, type RolloutDeviceSnapshot } from './firmwareRollout';
+
+const release = { url: 'https://example.com/fw.bin', version: '1.5.0' };
+const settings = { canarySize: 1, batchSize: 2, timeoutMinutes: 10 };
+const T0 = new Date('2026-03-01T10:00:00Z');
+const later = (seconds: number) => new Date(T0.getTime() + seconds * 1000);
+
+const online = (fields: Partial<RolloutDeviceSnapshot> = {}): RolloutDeviceSnapshot => ({ online: true, version: '1.4.0', ...fields });
+const offline: RolloutDeviceSnapshot = { online: false };
+
+const run = (rollout: FirmwareRollout, snapshots: { [deviceId: string]: RolloutDeviceSnapshot }, at: Date) =>
+  evaluateRollout(rollout, snapshots, {}, at);
+
+describe('evaluateRollout', () => {
+  it('starts the canary batch first', () => {
+    const { rollout, toStart } = run(createRollout(['a', 'b', 'c'], release, settings), { a: online(), b: online(), c: online() }, T0);
+    expect(toStart).toEqual(['a']);
+    expect(rollout.currentBatch).toBe(0);
+  });
+
+  it('halts instead of moving on when every canary device was offline', () => {
+    const started = run(createRollout(['a', 'b'], release, settings), { a: offline, b: online() }, T0).rollout;
+    expect(started.devices[0].state).toBe('skipped');
+    const { rollout, toStart } = run(started, { a: offline, b: online() }, later(5));
+    expect(toStart).toEqual([]);
+    expect(rollout.status).toBe('halted');
+    expect(rollout.devices[1].state).toBe('waiting');
+  });
+
+  it('retries skipped canary devices on resume', () => {
+    const started = run(createRollout(['a', 'b'], release, settings), { a: offline, b: online() }, T0).rollout;
+    const halted = run(started, { a: offline, b: online() }, later(5)).rollout;
+    const { rollout, toStart } = run(resumeRollout(halted), { a: online(), b: online() }, later(10));
+    expect(toStart).toEqual(['a']);
+    expect(rollout.devices[0].state).toBe('updating');
+  });
+
+  it('moves to the next batch once a canary device runs the new version', () => {
+    const started = run(createRollout(['a', 'b', 'c'], release, settings), { a: online(), b: online(), c: online() }, T0).rollout;
+    const { rollout, toStart } = run(started, { a: online({ version: '1.5.0' }), b: online(), c: online() }, later(60));
+    expect(rollout.devices[0].state).toBe('succeeded');
+    expect(toStart).toEqual(['b', 'c']);
+  });
+
+  it('ignores a failure reported before the update started', () => {
+    const snapshot = online({ otaStatus: 'download_failed', otaStatusAt: T0.getTime() - 60000 });
+    const started = run(createRollout(['a'], release, settings), { a: snapshot }, T0).rollout;
+    expect(run(started, { a: snapshot }, later(5)).rollout.status).toBe('running');
+  });
+
+  it('catches a new failure with the same text as the previous one', () => {
+    const stale = online({ otaStatus: 'download_failed', otaStatusAt: T0.getTime() - 60000 });
+    const started = run(createRollout(['a'], release, settings), { a: stale }, T0).rollout;
+    const { rollout } = run(started, { a: { ...stale, otaStatusAt: later(30).getTime() } }, later(30));
+    expect(rollout.status).toBe('halted');
+    expect(rollout.devices[0]).toMatchObject({ state: 'failed', error: 'Device reported: download_failed' });
+  });
+});
@@ -0,0 +1,247 @@
+import type { TrackedCommand } from './commandTracker';
+import { getOtaVerification, isOtaFailure, type OtaStartCommand } from './deviceProtocol';
+
+// Staged firmware rollout. Devices are updated a batch at a time, starting with
+// a small canary batch; the next batch only starts once every device in the
+// current one is back online reporting the new version, and at least one
+// canary device has. Any failure halts the rollout. The whole state is plain
+// JSON so it survives an app reload.
+
+export type RolloutDeviceState = 'waiting' | 'updating' | 'succeeded' | 'failed' | 'skipped';
+export type RolloutStatus = 'running' | 'halted' | 'completed' | 'cancelled';
+
+export interface RolloutDevice {
+  deviceId: string;
+  batch: number; // 0 is the canary batch
+  state: RolloutDeviceState;
+  startedAt?: string;
+  finishedAt?: string;
+  commandId?: string;
+  error?: string;
+}
+
+export interface RolloutSettings {
+  canarySize: number;
+  batchSize: number;
+  timeoutMinutes: number; // per device, from ota/start until it reports the new version
+}
+
+export interface FirmwareRollout {
+  id: string;
+  version: string;
+  downloadUrl: string;
+  sha256?: string; // sent with ota/start so every device checks the image it downloaded
+  size?: number;
+  settings: RolloutSettings;
+  status: RolloutStatus;
+  currentBatch: number;
+  devices: RolloutDevice[];
+  createdAt: string;
+  updatedAt: string;
+  haltReason?: string;
+}
+
+// What the engine needs to know about each device right now.
+export interface RolloutDeviceSnapshot {
+  online: boolean;
+  connecting?: boolean; // state not known yet, e.g. right after a reload
+  otaStatus?: string;
+  otaStatusAt?: number; // when otaStatus arrived live; earlier reports belong to an older update
+  version?: string;
+}
+
+export const DEFAULT_ROLLOUT_SETTINGS: RolloutSettings = { canarySize: 1, batchSize: 5, timeoutMinutes: 10 };
+
+const normalizeVersion = (version: string) => version.trim().toLowerCase().replace(/^v/, '');
+
+export const isSameVersion = (a?: string | null, b?: string | null) =>
+  !!a && !!b && normalizeVersion(a) === normalizeVersion(b);
+
+// Dotted numeric comparison: 1 when v1 is newer, -1 when older, 0 when equal.
+export const compareVersions = (v1: string, v2: string) => {
+  const clean1 = normalizeVersion(v1);
+  const clean2 = normalizeVersion(v2);
+  if (clean1 === clean2) return 0;
+
+  const parts1 = clean1.split('.').map(Number);
+  const parts2 = clean2.split('.').map(Number);
+  for (let i = 0; i < Math.max(parts1.length, parts2.length); i++) {
+    const p1 = parts1[i] || 0;
+    const p2 = parts2[i] || 0;
+    if (p1 > p2) return 1;
+    if (p1 < p2) return -1;
+  }
+  return 0;
+};
+
+export const createRollout = (deviceIds: string[], release: OtaStartCommand, settings: RolloutSettings): FirmwareRollout => {
+  const canarySize = Math.max(1, settings.canarySize);
+  const batchSize = Math.max(1, settings.batchSize);
+  const now = new Date().toISOString();
+  return {
+    id: `rollout_${Date.now().toString(36)}`,
+    version: release.version,
+    downloadUrl: release.url,
+    sha256: release.sha256,
+    size: release.size,
+    settings: { ...settings, canarySize, batchSize },
+    status: 'running',
+    currentBatch: -1, // nothing started yet; the first evaluation starts the canary batch
+    devices: deviceIds.map((deviceId, index) => ({
+      deviceId,
+      batch: index < canarySize ? 0 : 1 + Math.floor((index - canarySize) / batchSize),
+      state: 'waiting',
+    })),
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const batchCount = (rollout: FirmwareRollout) =>
+  rollout.devices.reduce((max, d) => Math.max(max, d.batch + 1), 0);
+
+export const isRolloutActive = (rollout: FirmwareRollout | null) =>
+  !!rollout && (rollout.status === 'running' || rollout.status === 'halted');
+
+const isFinished = (device: RolloutDevice) => device.state === 'succeeded' || device.state === 'skipped';
+
+// Checks devices that are updating, then decides whether to halt, finish or
+// start the next batch. Returns the new rollout and the devices to send
+// ota/start to; the caller records their command ids with markStarted.
+export const evaluateRollout = (
+  rollout: FirmwareRollout,
+  snapshots: { [deviceId: string]: RolloutDeviceSnapshot },
+  commands: { [commandId: string]: TrackedCommand },
+  now: Date = new Date()
+): { rollout: FirmwareRollout; toStart: string[] } => {
+  if (rollout.status !== 'running') return { rollout, toStart: [] };
+
+  const timeoutMs = rollout.settings.timeoutMinutes * 60000;
+  const stamp = now.toISOString();
+  let changed = false;
+
+  const devices = rollout.devices.map(device => {
+    if (device.state !== 'updating') return device;
+    const snapshot = snapshots[device.deviceId] || { online: false };
+    const command = device.commandId ? commands[device.commandId] : undefined;
+
+    let error: string | null = null;
+    if (command && (command.state === 'failed' || command.state === 'timed_out')) {
+      error = command.error || 'Update command was not confirmed.';
+    } else if (
+      snapshot.otaStatus && isOtaFailure(snapshot.otaStatus) &&
+      snapshot.otaStatusAt !== undefined && device.startedAt && snapshot.otaStatusAt >= new Date(device.startedAt).getTime()
+    ) {
+      error = getOtaVerification(snapshot.otaStatus) === 'failed'
+        ? `Firmware hash check failed (${snapshot.otaStatus})`
+        : `Device reported: ${snapshot.otaStatus}`;
+    }
+
+    if (!error && snapshot.online && isSameVersion(snapshot.version, rollout.version)) {
+      changed = true;
+      return { ...device, state: 'succeeded' as const, finishedAt: stamp };
+    }
+    if (!error && device.startedAt && now.getTime() - new Date(device.startedAt).getTime() > timeoutMs) {
+      error = `Did not come back with ${rollout.version} within ${rollout.settings.timeoutMinutes} min.`;
+    }
+    if (!error) return device;
+    changed = true;
+    return { ...device, state: 'failed' as const, finishedAt: stamp, error };
+  });
+
+  const failed = devices.find(d => d.state === 'failed');
+  if (failed) {
+    return {
+      rollout: { ...rollout, devices, status: 'halted', haltReason: `${failed.deviceId}: ${failed.error}`, updatedAt: stamp },
+      toStart: [],
+    };
+  }
+
+  // Devices still waiting in the current batch were reset by a resume: start them again.
+  if (rollout.currentBatch >= 0 && devices.some(d => d.batch === rollout.currentBatch && d.state === 'waiting')) {
+    const result = startBatch({ ...rollout, devices, updatedAt: stamp }, rollout.currentBatch, snapshots, stamp);
+    // Nothing to do while those devices are still connecting.
+    return changed || result.rollout.devices !== devices ? result : { rollout, toStart: [] };
+  }
+
+  const current = devices.filter(d => d.batch === rollout.currentBatch);
+  if (rollout.currentBatch >= 0 && !current.every(isFinished)) {
+    return { rollout: changed ? { ...rollout, devices, updatedAt: stamp } : rollout, toStart: [] };
+  }
+
+  // Skipped canary devices prove nothing; the firmware must have run somewhere first.
+  if (rollout.currentBatch === 0 && !current.some(d => d.state === 'succeeded')) {
+    return {
+      rollout: { ...rollout, devices, status: 'halted', haltReason: 'No canary device took the update; they were offline. Resume once one is online.', updatedAt: stamp },
+      toStart: [],
+    };
+  }
+
+  const next = rollout.currentBatch + 1;
+  if (next >= batchCount(rollout)) {
+    return { rollout: { ...rollout, devices, status: 'completed', updatedAt: stamp }, toStart: [] };
+  }
+  return startBatch({ ...rollout, devices, updatedAt: stamp }, next, snapshots, stamp);
+};
+
+const startBatch = (
+  rollout: FirmwareRollout,
+  batch: number,
+  snapshots: { [deviceId: string]: RolloutDeviceSnapshot },
+  stamp: string
+): { rollout: FirmwareRollout; toStart: string[] } => {
+  const toStart: string[] = [];
+  let changed = false;
+  const devices = rollout.devices.map(device => {
+    if (device.batch !== batch || device.state !== 'waiting') return device;
+    const snapshot = snapshots[device.deviceId] || { online: false };
+    if (snapshot.connecting) return device; // tried again on the next evaluation
+    changed = true;
+    if (isSameVersion(snapshot.version, rollout.version)) {
+      return { ...device, state: 'succeeded' as const, finishedAt: stamp };
+    }
+    if (!snapshot.online) {
+      return { ...device, state: 'skipped' as const, finishedAt: stamp, error: 'Offline when its batch started.' };
+    }
+    toStart.push(device.deviceId);
+    return { ...device, state: 'updating' as const, startedAt: stamp };
+  });
+  return { rollout: { ...rollout, devices: changed ? devices : rollout.devices, currentBatch: batch }, toStart };
+};
+
+export const rolloutOtaCommand = (rollout: FirmwareRollout): OtaStartCommand => ({
+  url: rollout.downloadUrl,
+  version: rollout.version,
+  size: rollout.size,
+  sha256: rollout.sha256,
+});
+
+export const markStarted = (rollout: FirmwareRollout, commandIds: { [deviceId: string]: string }): FirmwareRollout => ({
+  ...rollout,
+  devices: rollout.devices.map(d => commandIds[d.deviceId] ? { ...d, commandId: commandIds[d.deviceId] } : d),
+});
+
+export const haltRollout = (rollout: FirmwareRollout, reason: string): FirmwareRollout => ({
+  ...rollout,
+  status: 'halted',
+  haltReason: reason,
+  updatedAt: new Date().toISOString(),
+});
+
+// Puts the failed devices, and those of the current batch that were skipped
+// while offline, back in the queue; the next evaluation retries them.
+export const resumeRollout = (rollout: FirmwareRollout): FirmwareRollout => ({
+  ...rollout,
+  status: 'running',
+  haltReason: undefined,
+  devices: rollout.devices.map(d => d.state === 'failed' || (d.state === 'skipped' && d.batch === rollout.currentBatch)
+    ? { deviceId: d.deviceId, batch: d.batch, state: 'waiting' as const }
+    : d),
+  updatedAt: new Date().toISOString(),
+});
+
+export const cancelRollout = (rollout: FirmwareRollout): FirmwareRollout => ({
+  ...rollout,
+  status: 'cancelled',
+  updatedAt: new Date().toISOString(),
+});
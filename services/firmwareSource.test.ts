@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import type { Device } from '../types';
+import { DEFAULT_FIRMWARE_REPO, groupByFirmwareSource, isManifestSource, normalizeFirmwareSource } from './firmwareSource';
+
+describe('normalizeFirmwareSource', () => {
+  it.each<[string, string | null]>([
+    ['owner/repo', 'owner/repo'],
+    ['  owner/repo  ', 'owner/repo'],
+    ['https://github.com/owner/repo', 'owner/repo'],
+    ['https://www.github.com/owner/repo/', 'owner/repo'],
+    ['github.com/owner/repo.git', 'owner/repo'],
+    ['http://github.com/Owner/My.Repo', 'Owner/My.Repo'],
+    ['https://github.com/owner/repo/releases', null],
+    ['owner', null],
+    ['owner/repo/extra', null],
+    ['https://fw.example.com/boards/', 'https://fw.example.com/boards/'],
+    ['https://fw.example.com/manifest.json', 'https://fw.example.com/manifest.json'],
+    // Plain http is a manifest too, for receivers on the local network.
+    ['http://192.168.1.10/fw/manifest.json', 'http://192.168.1.10/fw/manifest.json'],
+    ['ftp://fw.example.com/manifest.json', null],
+    ['https://', null],
+  ])('%s', (value, expected) => {
+    expect(normalizeFirmwareSource(value)).toBe(expected);
+  });
+});
+
+describe('isManifestSource', () => {
+  it('tells manifest urls from GitHub sources', () => {
+    expect(isManifestSource('https://fw.example.com/manifest.json')).toBe(true);
+    expect(isManifestSource('https://github.com/owner/repo')).toBe(false);
+    expect(isManifestSource('owner/repo')).toBe(false);
+  });
+});
+
+describe('groupByFirmwareSource', () => {
+  const device = (device_id: string, firmwareRepo?: string) => ({ device_id, firmwareRepo } as Device);
+
+  it('groups GitHub repos case-insensitively and falls back to the default repo', () => {
+    const groups = groupByFirmwareSource([device('a', 'Owner/Repo'), device('b'), device('c', 'owner/repo'), device('d', 'https://fw.example.com/')]);
+    expect(groups.map(g => [g.source, g.devices.map(d => d.device_id)])).toEqual([
+      ['Owner/Repo', ['a', 'c']],
+      [DEFAULT_FIRMWARE_REPO, ['b']],
+      ['https://fw.example.com/', ['d']],
+    ]);
+  });
+});
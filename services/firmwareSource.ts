@@ -0,0 +1,53 @@
+import type { Device } from '../types';
+
+// Where a device's firmware releases come from. Hardware revisions run
+// different firmware, so each device can point at its own source: a GitHub
+// repo ("owner/name") or the URL of a self-hosted release manifest.
+
+export const DEFAULT_FIRMWARE_REPO = 'remoterbooter001/auto_update';
+
+const REPO_PATTERN = /^[A-Za-z0-9_.-]+\/[A-Za-z0-9_.-]+$/;
+const GITHUB_URL = /^(https?:\/\/)?(www\.)?github\.com\//i;
+
+export const isManifestSource = (source: string) => /^https?:\/\//i.test(source) && !GITHUB_URL.test(source);
+
+// Accepts "owner/name", a pasted GitHub URL or a manifest URL. Returns null if it is none of these.
+export const normalizeFirmwareSource = (value: string): string | null => {
+  const source = value.trim();
+  if (isManifestSource(source)) {
+    try {
+      return new URL(source).toString();
+    } catch (e) {
+      return null;
+    }
+  }
+  const repo = source
+    .replace(GITHUB_URL, '')
+    .replace(/\.git$/i, '')
+    .replace(/\/+$/, '');
+  return REPO_PATTERN.test(repo) ? repo : null;
+};
+
+export const resolveFirmwareSource = (device: Device) => device.firmwareRepo || DEFAULT_FIRMWARE_REPO;
+
+// GitHub repo names are case-insensitive; manifest URLs may not be.
+const sourceKey = (source: string) => (isManifestSource(source) ? source : source.toLowerCase());
+
+export const isSameFirmwareSource = (a: string, b: string) => sourceKey(a) === sourceKey(b);
+
+export interface FirmwareGroup {
+  source: string;
+  devices: Device[];
+}
+
+// Devices split by firmware source, in the order each source first appears.
+export const groupByFirmwareSource = (devices: Device[]): FirmwareGroup[] => {
+  const groups: FirmwareGroup[] = [];
+  devices.forEach(device => {
+    const source = resolveFirmwareSource(device);
+    const group = groups.find(g => isSameFirmwareSource(g.source, source));
+    if (group) group.devices.push(device);
+    else groups.push({ source, devices: [device] });
+  });
+  return groups;
+};
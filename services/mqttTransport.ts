@@ -0,0 +1,33 @@
+import type { Device, MqttTransport } from '../types';
+
+// Defaults for devices whose credentials leave the transport or port out.
+export const LEGACY_TRANSPORT: MqttTransport = { scheme: 'wss', path: '/mqtt' };
+export const LEGACY_PORT = 8884;
+
+const isValidPort = (port: unknown): port is number =>
+  typeof port === 'number' && Number.isInteger(port) && port > 0 && port <= 65535;
+
+export const resolveTransport = (device: Device): { transport: MqttTransport; port: number } => ({
+  transport: device.transport || LEGACY_TRANSPORT,
+  port: isValidPort(device.port) ? device.port : LEGACY_PORT,
+});
+
+export const buildBrokerUrl = (device: Device): string => {
+  const { transport, port } = resolveTransport(device);
+  const path = transport.path.startsWith('/') ? transport.path : `/${transport.path}`;
+  return `${transport.scheme}://${device.broker}:${port}${path}`;
+};
+
+// Accepts either a nested `transport` object or the flat keys used by older QR generators.
+export const parseTransport = (data: any): MqttTransport | undefined => {
+  const raw = data.transport || data;
+  const scheme = (raw.scheme || raw.protocol || '').toString().toLowerCase().replace(/:\/*$/, '');
+  if (scheme !== 'ws' && scheme !== 'wss') return undefined;
+
+  // A rejectUnauthorized key in the QR code is ignored: a browser WebSocket
+  // always verifies the broker certificate.
+  return {
+    scheme,
+    path: (raw.path || raw.ws_path || LEGACY_TRANSPORT.path).toString(),
+  };
+};
@@ -0,0 +1,114 @@
+import { isOtaFailure } from './deviceProtocol';
+
+// Browser notifications for device state changes. Transitions are found by
+// comparing consecutive DeviceMqttState snapshots; preferences decide which
+// ones are shown and a per-device, per-event cooldown stops flapping devices
+// from flooding the notification tray.
+
+export type NotificationEventType = 'offline' | 'error' | 'reboot_completed' | 'ota_failed';
+
+export const NOTIFICATION_EVENT_TYPES: NotificationEventType[] = ['offline', 'error', 'reboot_completed', 'ota_failed'];
+
+export const NOTIFICATION_EVENT_LABELS: { [type in NotificationEventType]: string } = {
+  offline: 'Device went offline',
+  error: 'Connection error',
+  reboot_completed: 'Reboot completed',
+  ota_failed: 'Firmware update failed',
+};
+
+export interface NotificationPreferences {
+  enabled: boolean;
+  events: NotificationEventType[]; // default for every device
+  deviceEvents: { [deviceId: string]: NotificationEventType[] }; // per-device override
+  debounceMinutes: number; // minimum time between two notifications of the same kind for a device
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  enabled: false,
+  events: ['offline', 'ota_failed'],
+  deviceEvents: {},
+  debounceMinutes: 10,
+};
+
+// The parts of DeviceMqttState the transitions are read from.
+export interface NotificationSnapshot {
+  status: string;
+  errorMessage: string | null;
+  otaStatus?: string;
+  lastRebootAt?: Date | null;
+}
+
+export interface DeviceTransition {
+  type: NotificationEventType;
+  detail?: string;
+}
+
+// Retained messages replay old reboots when the app connects.
+const RECENT_REBOOT_MS = 10 * 60000;
+
+// Only changes away from a working state count: a device that was already
+// offline or unreachable when the app started is not news.
+export const detectTransitions = (prev: NotificationSnapshot | undefined, next: NotificationSnapshot, now: number): DeviceTransition[] => {
+  if (!prev || prev.status === 'connecting') return [];
+  const transitions: DeviceTransition[] = [];
+  const wasUp = prev.status === 'online' || prev.status === 'resetting';
+
+  if (wasUp && next.status === 'offline') {
+    transitions.push({ type: 'offline', detail: next.errorMessage || undefined });
+  }
+  if (wasUp && next.status === 'error') {
+    transitions.push({ type: 'error', detail: next.errorMessage || undefined });
+  }
+  const rebootAt = next.lastRebootAt?.getTime();
+  if (rebootAt && rebootAt !== prev.lastRebootAt?.getTime() && now - rebootAt < RECENT_REBOOT_MS) {
+    transitions.push({ type: 'reboot_completed' });
+  }
+  // Without an earlier status this is the retained result of some old update.
+  if (prev.otaStatus && next.otaStatus && next.otaStatus !== prev.otaStatus && isOtaFailure(next.otaStatus)) {
+    transitions.push({ type: 'ota_failed', detail: next.otaStatus });
+  }
+  return transitions;
+};
+
+export const deviceNotificationEvents = (preferences: NotificationPreferences, deviceId: string) =>
+  preferences.deviceEvents[deviceId] || preferences.events;
+
+export const shouldNotify = (preferences: NotificationPreferences, deviceId: string, type: NotificationEventType) =>
+  preferences.enabled && deviceNotificationEvents(preferences, deviceId).includes(type);
+
+// Last time each device/event pair was shown, keyed "deviceId|type".
+export type NotificationLog = { [key: string]: number };
+
+export const isDebounced = (log: NotificationLog, deviceId: string, type: NotificationEventType, debounceMinutes: number, now: number) => {
+  const last = log[`${deviceId}|${type}`];
+  return last !== undefined && now - last < debounceMinutes * 60000;
+};
+
+export const notificationText = (deviceName: string, transition: DeviceTransition) => ({
+  title: `${deviceName}: ${NOTIFICATION_EVENT_LABELS[transition.type]}`,
+  body: transition.detail || ({
+    offline: 'The device stopped reporting.',
+    error: 'The connection to the device failed.',
+    reboot_completed: 'The router is back up.',
+    ota_failed: 'The firmware update did not complete.',
+  })[transition.type],
+});
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+// Through the service worker when there is one, so notifications also work in
+// the installed PWA (where the Notification constructor is unavailable on Android).
+export const showDeviceNotification = async (title: string, body: string, deviceId: string, tag: string) => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  const options: NotificationOptions = { body, tag, icon: 'pwa-icon.png', data: { deviceId } };
+  try {
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (registration) {
+      await registration.showNotification(title, options);
+      return;
+    }
+    new Notification(title, options);
+  } catch (error) {
+    console.error('Failed to show notification:', error);
+  }
+};
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addPingSample,
+  BUCKET_MS,
+  compactPingBuckets,
+  decodePingHistory,
+  encodePingHistory,
+  findPingGaps,
+  HOURLY_BUCKET_MS,
+  resamplePings,
+  RETENTION_MS,
+  summarizePings,
+  type PingBucket,
+} from './pingHistory';
+
+const MINUTE = 60000;
+const T0 = Date.UTC(2026, 2, 1);
+const at = (minutes: number) => T0 + minutes * MINUTE;
+
+// One report per entry: [minutes after T0, ping or null].
+const record = (samples: [number, number | null][]) =>
+  samples.reduce<PingBucket[]>((buckets, [minutes, ping]) => addPingSample(buckets, ping, at(minutes)), []);
+
+describe('addPingSample', () => {
+  it('folds reports in the same 5 minutes into one bucket', () => {
+    expect(record([[0, 20], [1, 40], [4.9, 30], [2, null], [5, 10]])).toEqual([
+      [at(0), 3, 90, 20, 40, 1],
+      [at(5), 1, 10, 10, 10, 0],
+    ]);
+  });
+
+  it('keeps min and max unset until the first ping', () => {
+    expect(record([[0, null], [1, 50]])).toEqual([[at(0), 1, 50, 50, 50, 1]]);
+  });
+
+  it('keeps buckets sorted when a report arrives late', () => {
+    expect(record([[10, 1], [0, 2]]).map(b => b[0])).toEqual([at(0), at(10)]);
+  });
+
+  it('drops buckets past retention', () => {
+    const buckets = record([[0, 20], [60, 30]]);
+    const later = addPingSample(buckets, 40, at(30) + RETENTION_MS);
+    // The bucket at 0 is past retention; the one at 60 min survives, merged into its hour.
+    expect(later.map(b => b[0])).toEqual([at(60), at(30) + RETENTION_MS]);
+  });
+});
+
+describe('compactPingBuckets', () => {
+  it('merges whole hours older than a day and leaves the rest', () => {
+    const buckets = record([[0, 10], [5, 30], [30, null], [55, 20], [60, 50], [24 * 60 + 30, 5]]);
+    const compacted = compactPingBuckets(buckets, at(26 * 60));
+    expect(compacted).toEqual([
+      [at(0), 3, 60, 10, 30, 1, HOURLY_BUCKET_MS],
+      [at(60), 1, 50, 50, 50, 0, HOURLY_BUCKET_MS],
+      [at(24 * 60 + 30), 1, 5, 5, 5, 0],
+    ]);
+  });
+
+  it('adds late buckets to an hour that was already merged', () => {
+    const merged = compactPingBuckets(record([[0, 10]]), at(26 * 60));
+    const withLate = compactPingBuckets([...merged, [at(20), 1, 30, 30, 30, 0]], at(26 * 60));
+    expect(withLate).toEqual([[at(0), 2, 40, 10, 30, 0, HOURLY_BUCKET_MS]]);
+  });
+
+  it('returns the same array when nothing is old enough', () => {
+    const buckets = record([[0, 10]]);
+    expect(compactPingBuckets(buckets, at(60))).toBe(buckets);
+  });
+});
+
+describe('findPingGaps', () => {
+  // MIN_GAP_MS is two empty 5-minute buckets.
+  it('reports two empty buckets in a row as a gap', () => {
+    expect(findPingGaps(record([[0, 10], [15, 10]]), at(0), at(20))).toEqual([{ start: at(5), end: at(15) }]);
+  });
+
+  it('ignores a single empty bucket', () => {
+    expect(findPingGaps(record([[0, 10], [10, 10]]), at(0), at(15))).toEqual([]);
+  });
+
+  it('reports silence since the last report, not counting the bucket still filling', () => {
+    const buckets = record([[0, 10]]);
+    expect(findPingGaps(buckets, at(0), at(14))).toEqual([]);
+    expect(findPingGaps(buckets, at(0), at(15))).toEqual([{ start: at(5), end: at(15) }]);
+  });
+
+  it('measures hourly buckets by their span', () => {
+    const buckets: PingBucket[] = [[at(0), 5, 50, 10, 10, 0, HOURLY_BUCKET_MS], [at(60), 5, 50, 10, 10, 0, HOURLY_BUCKET_MS]];
+    expect(findPingGaps(buckets, at(0), at(65))).toEqual([]);
+  });
+});
+
+describe('summarizePings', () => {
+  it('takes the p95 over 5-minute averages', () => {
+    // Twenty buckets averaging 1..20 ms; one 20 ms bucket holds most of the samples.
+    const buckets: PingBucket[] = Array.from({ length: 20 }, (_, i) => [at(i * 5), i === 19 ? 10 : 1, i === 19 ? 200 : i + 1, i + 1, i + 1, 0]);
+    const stats = summarizePings(buckets, at(0), at(100))!;
+    expect(stats.p95).toBe(19);
+    expect(stats.samples).toBe(29);
+    expect(stats.avg).toBeCloseTo((190 + 200) / 29);
+    expect(stats.min).toBe(1);
+  });
+
+  it('takes the p95 over coarser intervals when asked', () => {
+    const buckets = record([[0, 10], [5, 30], [60, 100]]);
+    expect(summarizePings(buckets, at(0), at(120), HOURLY_BUCKET_MS)!.p95).toBe(100);
+    expect(summarizePings(buckets, at(0), at(30), HOURLY_BUCKET_MS)!.p95).toBe(20);
+  });
+
+  it('counts lost reports and is null without any ping', () => {
+    expect(summarizePings(record([[0, null]]), at(0), at(5))).toBeNull();
+    expect(summarizePings(record([[0, 10], [1, null], [6, null]]), at(0), at(10))!.lost).toBe(2);
+  });
+});
+
+describe('resamplePings', () => {
+  it('merges buckets per step and leaves empty steps null', () => {
+    const buckets = record([[0, 10], [5, 30], [35, 50]]);
+    expect(resamplePings(buckets, at(0), at(45), 15 * MINUTE)).toEqual([
+      { time: at(0), avg: 20, min: 10, max: 30 },
+      { time: at(15), avg: null, min: null, max: null },
+      { time: at(30), avg: 50, min: 50, max: 50 },
+    ]);
+  });
+
+  it('skips buckets with lost reports only', () => {
+    expect(resamplePings(record([[0, null]]), at(0), at(5), BUCKET_MS)).toEqual([{ time: at(0), avg: null, min: null, max: null }]);
+  });
+});
+
+describe('stored form', () => {
+  it('round-trips, rounding to whole milliseconds', () => {
+    const history = { a: [...compactPingBuckets(record([[0, 10.4], [1, 20.2]]), at(26 * 60)), ...record([[25 * 60, 33]])], b: [] };
+    expect(decodePingHistory(JSON.parse(JSON.stringify(encodePingHistory(history))))).toEqual({
+      a: [[at(0), 2, 31, 10, 20, 0, HOURLY_BUCKET_MS], [at(25 * 60), 1, 33, 33, 33, 0]],
+    });
+  });
+
+  it('reads the plain bucket arrays stored by earlier versions', () => {
+    const buckets = record([[0, 10]]);
+    expect(decodePingHistory({ a: buckets })).toEqual({ a: buckets });
+  });
+
+  it('keeps a week of reports every 5 minutes small', () => {
+    let buckets: PingBucket[] = [];
+    for (let minutes = 0; minutes < 7 * 24 * 60; minutes += 1) buckets = addPingSample(buckets, 20 + (minutes % 37), at(minutes));
+    // A day of 5-minute buckets, the hour not yet merged, then hourly buckets.
+    expect(buckets.length).toBeLessThanOrEqual(25 * 12 + 6 * 24);
+    // 100 devices like this stay far below the usual 5 MB localStorage quota.
+    expect(JSON.stringify(encodePingHistory({ device: buckets })).length * 100).toBeLessThan(2_000_000);
+  });
+});
@@ -0,0 +1,226 @@
+// Ping latency time-series per device. Samples from health/status are folded
+// into 5-minute buckets for the last day and hourly buckets before that, kept
+// for a week. That is at most about 430 buckets per device however often it
+// reports; encodePingHistory packs them into about 7 KB of JSON, so even a
+// large fleet stays well inside the localStorage quota.
+
+export const BUCKET_MS = 5 * 60000;
+export const HOURLY_BUCKET_MS = 60 * 60000;
+export const FINE_RETENTION_MS = 24 * 60 * 60000; // 5-minute buckets older than this are merged
+export const RETENTION_MS = 7 * 24 * 60 * 60000;
+
+// Ping counts as weak from half the device's auto-reboot threshold up, so the
+// list flags a connection well before the firmware would reboot over it.
+export const weakPingCutoff = (pingThreshold: number) => pingThreshold / 2;
+
+// [bucket start (ms), samples, sum, min, max, lost, span (ms)] — lost counts
+// reports without a ping value; span is left out for 5-minute buckets.
+export type PingBucket = [number, number, number, number, number, number, number?];
+
+export interface PingHistory {
+  [deviceId: string]: PingBucket[];
+}
+
+export interface PingStats {
+  min: number;
+  avg: number;
+  p95: number; // 95th percentile of the averages over `p95Interval`
+  samples: number;
+  lost: number;
+  gapMinutes: number; // time inside the observed span without any report
+}
+
+export interface PingGap {
+  start: number;
+  end: number;
+}
+
+export interface PingPoint {
+  time: number;
+  avg: number | null; // null when nothing was reported in this interval
+  min: number | null;
+  max: number | null;
+}
+
+const bucketStart = (time: number) => Math.floor(time / BUCKET_MS) * BUCKET_MS;
+const spanOf = (bucket: PingBucket) => bucket[6] ?? BUCKET_MS;
+
+const mergeBuckets = (start: number, buckets: PingBucket[]): PingBucket => {
+  const reported = buckets.filter(b => b[1] > 0);
+  return [
+    start,
+    reported.reduce((sum, b) => sum + b[1], 0),
+    reported.reduce((sum, b) => sum + b[2], 0),
+    reported.length ? Math.min(...reported.map(b => b[3])) : 0,
+    reported.length ? Math.max(...reported.map(b => b[4])) : 0,
+    buckets.reduce((sum, b) => sum + b[5], 0),
+    HOURLY_BUCKET_MS,
+  ];
+};
+
+// Merges 5-minute buckets from whole hours older than a day into hourly ones.
+export const compactPingBuckets = (buckets: PingBucket[], now: number): PingBucket[] => {
+  const cutoff = Math.floor((now - FINE_RETENTION_MS) / HOURLY_BUCKET_MS) * HOURLY_BUCKET_MS;
+  const isOld = (b: PingBucket) => spanOf(b) < HOURLY_BUCKET_MS && b[0] < cutoff;
+  if (!buckets.some(isOld)) return buckets;
+
+  const hours = new Map<number, PingBucket[]>();
+  const rest: PingBucket[] = [];
+  buckets.forEach(b => {
+    if (!isOld(b)) {
+      rest.push(b);
+      return;
+    }
+    const hour = Math.floor(b[0] / HOURLY_BUCKET_MS) * HOURLY_BUCKET_MS;
+    hours.set(hour, [...(hours.get(hour) || []), b]);
+  });
+  // An hour compacted earlier may already have its bucket.
+  const merged = Array.from(hours.entries()).map(([hour, parts]) => {
+    const existing = rest.findIndex(b => b[0] === hour && spanOf(b) === HOURLY_BUCKET_MS);
+    if (existing < 0) return mergeBuckets(hour, parts);
+    return mergeBuckets(hour, [...rest.splice(existing, 1), ...parts]);
+  });
+  return [...rest, ...merged].sort((a, b) => a[0] - b[0]);
+};
+
+// Adds one report, keeping buckets sorted and dropping anything past retention.
+export const addPingSample = (buckets: PingBucket[], ping: number | null, time: number): PingBucket[] => {
+  const start = bucketStart(time);
+  const kept = compactPingBuckets(buckets.filter(b => b[0] > time - RETENTION_MS), time);
+  const index = kept.findIndex(b => b[0] === start && spanOf(b) === BUCKET_MS);
+  const [, count, sum, min, max, lost]: PingBucket = index >= 0 ? kept[index] : [start, 0, 0, 0, 0, 0];
+
+  // min/max are meaningless until the bucket has its first sample.
+  const updated: PingBucket = ping === null
+    ? [start, count, sum, min, max, lost + 1]
+    : [start, count + 1, sum + ping, count ? Math.min(min, ping) : ping, count ? Math.max(max, ping) : ping, lost];
+
+  if (index >= 0) {
+    kept[index] = updated;
+    return kept;
+  }
+  return [...kept, updated].sort((a, b) => a[0] - b[0]);
+};
+
+const inRange = (buckets: PingBucket[], from: number, to: number) =>
+  buckets.filter(b => b[0] >= bucketStart(from) && b[0] < to);
+
+// A single empty bucket is normal for slow heartbeats; two or more in a row
+// (10+ minutes without any report) count as a gap.
+const MIN_GAP_MS = 2 * BUCKET_MS;
+
+// Stretches without reports between the first report in the range and `to`.
+export const findPingGaps = (buckets: PingBucket[], from: number, to: number): PingGap[] => {
+  const reported = inRange(buckets, from, to).filter(b => b[1] > 0);
+  if (reported.length === 0) return [];
+  const gaps: PingGap[] = [];
+  let expected = reported[0][0] + spanOf(reported[0]);
+  reported.slice(1).forEach(b => {
+    if (b[0] - expected >= MIN_GAP_MS) gaps.push({ start: expected, end: b[0] });
+    expected = b[0] + spanOf(b);
+  });
+  // Nothing since the last report, not counting the bucket that is still filling.
+  if (bucketStart(to) - expected >= MIN_GAP_MS) gaps.push({ start: expected, end: to });
+  return gaps;
+};
+
+// Only bucket totals are stored, so the p95 is taken over interval averages:
+// 5-minute ones by default, or coarser ones (e.g. hourly) for ranges that reach
+// past the day kept at 5 minutes.
+export const summarizePings = (buckets: PingBucket[], from: number, to: number, p95Interval: number = BUCKET_MS): PingStats | null => {
+  const range = inRange(buckets, from, to);
+  const reported = range.filter(b => b[1] > 0);
+  if (reported.length === 0) return null;
+
+  const samples = reported.reduce((sum, b) => sum + b[1], 0);
+  const intervals = new Map<number, [number, number]>(); // interval start -> [samples, sum]
+  reported.forEach(b => {
+    const key = Math.floor(b[0] / p95Interval);
+    const [count, sum] = intervals.get(key) || [0, 0];
+    intervals.set(key, [count + b[1], sum + b[2]]);
+  });
+  const averages = Array.from(intervals.values()).map(([count, sum]) => sum / count).sort((a, b) => a - b);
+  const gapMs = findPingGaps(buckets, from, to).reduce((sum, g) => sum + g.end - g.start, 0);
+
+  return {
+    min: Math.min(...reported.map(b => b[3])),
+    avg: reported.reduce((sum, b) => sum + b[2], 0) / samples,
+    p95: averages[Math.min(averages.length - 1, Math.ceil(averages.length * 0.95) - 1)],
+    samples,
+    lost: range.reduce((sum, b) => sum + b[5], 0),
+    gapMinutes: Math.round(gapMs / 60000),
+  };
+};
+
+// Merges buckets into chart points `step` ms apart (a multiple of BUCKET_MS).
+export const resamplePings = (buckets: PingBucket[], from: number, to: number, step: number): PingPoint[] => {
+  const points: PingPoint[] = [];
+  const range = inRange(buckets, from, to);
+  for (let time = Math.floor(from / step) * step; time < to; time += step) {
+    const slice = range.filter(b => b[0] >= time && b[0] < time + step && b[1] > 0);
+    const count = slice.reduce((sum, b) => sum + b[1], 0);
+    points.push(count === 0
+      ? { time, avg: null, min: null, max: null }
+      : {
+          time,
+          avg: slice.reduce((sum, b) => sum + b[2], 0) / count,
+          min: Math.min(...slice.map(b => b[3])),
+          max: Math.max(...slice.map(b => b[4])),
+        });
+  }
+  return points;
+};
+
+// Average over the last few buckets, steadier than the latest single report.
+export const recentAveragePing = (buckets: PingBucket[] | undefined, now: number, window: number = 15 * 60000) => {
+  if (!buckets) return null;
+  const reported = inRange(buckets, now - window, now + BUCKET_MS).filter(b => b[1] > 0);
+  const count = reported.reduce((sum, b) => sum + b[1], 0);
+  return count > 0 ? reported.reduce((sum, b) => sum + b[2], 0) / count : null;
+};
+
+// Removes devices that no longer exist and buckets past retention.
+export const prunePingHistory = (history: PingHistory, deviceIds: string[], now: number): PingHistory =>
+  deviceIds.reduce((acc, id) => {
+    const buckets = (history[id] || []).filter(b => b[0] > now - RETENTION_MS);
+    return buckets.length > 0 ? { ...acc, [id]: buckets } : acc;
+  }, {} as PingHistory);
+
+// Storage form: per device the first bucket's start in minutes, then seven
+// whole numbers per bucket: minutes since the previous bucket's start, span in
+// minutes, samples, sum, min, max, lost. Sums and extremes are rounded to the
+// millisecond, which the charts never show finer anyway.
+type StoredPingHistory = { [deviceId: string]: number[] };
+
+export const encodePingHistory = (history: PingHistory): StoredPingHistory =>
+  Object.entries(history).reduce((acc, [deviceId, buckets]) => {
+    if (buckets.length === 0) return acc;
+    const values = [buckets[0][0] / 60000];
+    buckets.forEach((b, i) => {
+      values.push(
+        i === 0 ? 0 : (b[0] - buckets[i - 1][0]) / 60000,
+        spanOf(b) / 60000,
+        b[1], Math.round(b[2]), Math.round(b[3]), Math.round(b[4]), b[5]
+      );
+    });
+    return { ...acc, [deviceId]: values };
+  }, {} as StoredPingHistory);
+
+// Also reads the plain bucket arrays stored before the compact form.
+export const decodePingHistory = (stored: unknown): PingHistory => {
+  if (!stored || typeof stored !== 'object') return {};
+  return Object.entries(stored as { [deviceId: string]: unknown }).reduce((acc, [deviceId, series]) => {
+    if (!Array.isArray(series) || series.length === 0) return acc;
+    if (Array.isArray(series[0])) return { ...acc, [deviceId]: series as PingBucket[] };
+    const buckets: PingBucket[] = [];
+    let start = series[0] * 60000;
+    for (let i = 1; i + 7 <= series.length; i += 7) {
+      const [delta, span, samples, sum, min, max, lost] = series.slice(i, i + 7);
+      start += delta * 60000;
+      const bucket: PingBucket = [start, samples, sum, min, max, lost];
+      if (span * 60000 !== BUCKET_MS) bucket.push(span * 60000);
+      buckets.push(bucket);
+    }
+    return { ...acc, [deviceId]: buckets };
+  }, {} as PingHistory);
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { addRebootEvent, pruneRebootLog, REBOOT_LOG_RETENTION_MS, type RebootLog } from './rebootLog';
+import { AUTO_REBOOT_EVENT, autoRebootTimes, describeSuppression } from './rebootPolicy';
+
+const T0 = Date.UTC(2026, 2, 1, 12);
+const MINUTE = 60000;
+
+describe('addRebootEvent', () => {
+  it('keeps reboots only', () => {
+    let log: RebootLog = {};
+    log = addRebootEvent(log, 'd1', AUTO_REBOOT_EVENT, T0);
+    log = addRebootEvent(log, 'd1', describeSuppression('cooldown'), T0 + MINUTE);
+    log = addRebootEvent(log, 'd1', 'Power Off', T0 + 2 * MINUTE);
+    log = addRebootEvent(log, 'd1', 'Reboot Completed', T0 + 3 * MINUTE);
+    expect(log.d1.map(e => e.eventType)).toEqual([AUTO_REBOOT_EVENT, 'Reboot Completed']);
+  });
+
+  it('keeps each device apart, however busy the others are', () => {
+    let log = addRebootEvent({}, 'quiet', AUTO_REBOOT_EVENT, T0);
+    for (let i = 1; i <= 300; i++) log = addRebootEvent(log, 'busy', 'Rebooting', T0 + i * MINUTE);
+    expect(autoRebootTimes(log.quiet)).toEqual([T0]);
+    expect(log.busy).toHaveLength(300);
+  });
+
+  it('ignores duplicates and drops entries past retention', () => {
+    let log = addRebootEvent({}, 'd1', 'Rebooting', T0);
+    expect(addRebootEvent(log, 'd1', 'Rebooting', T0)).toBe(log);
+    log = addRebootEvent(log, 'd1', 'Rebooting', T0 + REBOOT_LOG_RETENTION_MS + MINUTE);
+    expect(log.d1.map(e => e.time)).toEqual([T0 + REBOOT_LOG_RETENTION_MS + MINUTE]);
+  });
+});
+
+describe('pruneRebootLog', () => {
+  it('removes deleted devices', () => {
+    const log = addRebootEvent(addRebootEvent({}, 'a', 'Rebooting', T0), 'b', 'Rebooting', T0);
+    expect(Object.keys(pruneRebootLog(log, ['b']))).toEqual(['b']);
+  });
+});
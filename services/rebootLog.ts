@@ -0,0 +1,37 @@
+import { isAutoRebootEvent } from './rebootPolicy';
+
+// Per-device record of reboots, read by the auto-reboot policy and the reboot
+// alert rules. The reset history shown to the user keeps the newest 100
+// entries across the whole fleet, so a busy fleet pushes a device's reboots
+// out of it within hours; this log keeps each device's own last week.
+
+export const REBOOT_LOG_RETENTION_MS = 7 * 24 * 60 * 60000;
+const MAX_ENTRIES_PER_DEVICE = 500;
+
+export interface RebootLogEntry {
+  time: number;
+  eventType: string; // history label, e.g. "Rebooting" or "Auto-Reboot (high ping)"
+}
+
+export interface RebootLog {
+  [deviceId: string]: RebootLogEntry[];
+}
+
+export const isRebootEvent = (eventType: string) =>
+  eventType === 'Rebooting' || eventType === 'Reboot Completed' || isAutoRebootEvent(eventType);
+
+// Adds a history event if it is a reboot, keeping entries sorted by time.
+export const addRebootEvent = (log: RebootLog, deviceId: string, eventType: string, time: number): RebootLog => {
+  if (!isRebootEvent(eventType)) return log;
+  const entries = log[deviceId] || [];
+  if (entries.some(e => e.time === time && e.eventType === eventType)) return log;
+  const kept = entries.filter(e => e.time > time - REBOOT_LOG_RETENTION_MS);
+  return {
+    ...log,
+    [deviceId]: [...kept, { time, eventType }].sort((a, b) => a.time - b.time).slice(-MAX_ENTRIES_PER_DEVICE),
+  };
+};
+
+// Removes devices that no longer exist.
+export const pruneRebootLog = (log: RebootLog, deviceIds: string[]): RebootLog =>
+  deviceIds.reduce((acc, id) => (log[id] ? { ...acc, [id]: log[id] } : acc), {} as RebootLog);
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { DeviceConfig } from '../types';
+import { DEFAULT_DEVICE_CONFIG } from './deviceConfig';
+import { evaluateRebootPolicy, isInQuietHours } from './rebootPolicy';
+
+const MINUTE = 60000;
+const NOW = Date.UTC(2026, 2, 2, 12);
+const ago = (...minutes: number[]) => minutes.map(m => NOW - m * MINUTE);
+
+// 30 min cooldown, 6 per day, no escalation.
+const config = (fields: Partial<DeviceConfig> = {}): DeviceConfig => ({ ...DEFAULT_DEVICE_CONFIG, autoPingReboot: true, ...fields });
+const evaluate = (fields: Partial<DeviceConfig>, times: number[], now = NOW) => evaluateRebootPolicy(config(fields), times, now, 'UTC');
+
+describe('evaluateRebootPolicy', () => {
+  it('reboots when nothing holds it back', () => {
+    expect(evaluate({}, [])).toEqual({ action: 'reboot', rebootsToday: 0, cooldownUntil: null, inQuietHours: false, streak: 0 });
+  });
+
+  it('still reports the counts when disabled', () => {
+    expect(evaluate({ autoPingReboot: false }, ago(10))).toMatchObject({ action: 'disabled', rebootsToday: 1, cooldownUntil: NOW + 20 * MINUTE });
+  });
+
+  it('holds back inside the cooldown and not at its end', () => {
+    expect(evaluate({}, ago(29))).toMatchObject({ action: 'suppressed', suppressedBy: 'cooldown', cooldownUntil: NOW + MINUTE });
+    expect(evaluate({}, ago(30))).toMatchObject({ action: 'reboot', cooldownUntil: null });
+  });
+
+  it('uses the latest reboot for the cooldown, whatever the order', () => {
+    expect(evaluate({}, ago(5, 300))).toMatchObject({ suppressedBy: 'cooldown', cooldownUntil: NOW + 25 * MINUTE });
+  });
+
+  it('stops at the daily cap and counts only the last 24 hours', () => {
+    const sixToday = ago(60, 200, 400, 600, 800, 1000);
+    expect(evaluate({}, sixToday)).toMatchObject({ action: 'suppressed', suppressedBy: 'daily_cap', rebootsToday: 6 });
+    expect(evaluate({ maxRebootsPerDay: 7 }, sixToday)).toMatchObject({ action: 'reboot' });
+    // The oldest one leaves the window exactly a day later.
+    expect(evaluate({}, ago(60, 200, 400, 600, 800, 1440))).toMatchObject({ action: 'reboot', rebootsToday: 5 });
+  });
+
+  it('ignores reboots after now', () => {
+    expect(evaluate({}, [NOW + MINUTE])).toMatchObject({ action: 'reboot', rebootsToday: 0, cooldownUntil: null });
+  });
+
+  it('puts quiet hours before the cap and the cooldown', () => {
+    const quiet = { quietHoursStart: '11:00', quietHoursEnd: '13:00', maxRebootsPerDay: 1 };
+    expect(evaluate(quiet, ago(5))).toMatchObject({ action: 'suppressed', suppressedBy: 'quiet_hours', inQuietHours: true });
+  });
+
+  it('escalates to a power cycle after a streak of reboots', () => {
+    // Recovery window is max(2 × 30, 60) = 60 minutes between reboots.
+    const escalate = { escalateAfterReboots: 3 };
+    expect(evaluate(escalate, ago(40, 70, 100))).toMatchObject({ action: 'power_cycle', streak: 3 });
+    expect(evaluate(escalate, ago(40, 100, 130))).toMatchObject({ action: 'reboot', streak: 1 });
+    expect(evaluate(escalate, ago(60, 90, 120))).toMatchObject({ action: 'reboot', streak: 0 });
+  });
+});
+
+describe('isInQuietHours', () => {
+  const at = (hour: number, minute = 0) => Date.UTC(2026, 2, 2, hour, minute);
+  const overnight = config({ quietHoursStart: '22:00', quietHoursEnd: '06:00' });
+
+  it('wraps around midnight, including the start and excluding the end', () => {
+    expect(isInQuietHours(overnight, at(22), 'UTC')).toBe(true);
+    expect(isInQuietHours(overnight, at(3), 'UTC')).toBe(true);
+    expect(isInQuietHours(overnight, at(5, 59), 'UTC')).toBe(true);
+    expect(isInQuietHours(overnight, at(6), 'UTC')).toBe(false);
+    expect(isInQuietHours(overnight, at(21, 59), 'UTC')).toBe(false);
+  });
+
+  it('reads the device timezone', () => {
+    // 21:30 UTC is 22:30 in Berlin in winter.
+    expect(isInQuietHours(overnight, at(21, 30), 'Europe/Berlin')).toBe(true);
+  });
+
+  it('is off without both ends', () => {
+    expect(isInQuietHours(config({ quietHoursStart: '22:00' }), at(23), 'UTC')).toBe(false);
+  });
+});
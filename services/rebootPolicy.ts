@@ -0,0 +1,89 @@
+import type { DeviceConfig } from '../types';
+import type { RebootLogEntry } from './rebootLog';
+import { getZonedParts } from './timezone';
+
+// Mirror of the auto-reboot policy the firmware enforces: after enough
+// consecutive pings over the threshold it reboots, unless a cooldown, the daily
+// cap or quiet hours hold it back; a run of reboots that doesn't fix the link
+// escalates to a long power cycle. The app uses this to explain what the device
+// will do next, based on the auto-reboots in the device's reboot log.
+
+export type PolicyAction = 'disabled' | 'reboot' | 'power_cycle' | 'suppressed';
+export type SuppressReason = 'cooldown' | 'daily_cap' | 'quiet_hours';
+
+export interface PolicyStatus {
+  action: PolicyAction; // what the next sustained high ping leads to
+  suppressedBy?: SuppressReason;
+  rebootsToday: number; // auto-reboots and power cycles in the last 24 hours
+  cooldownUntil: number | null;
+  inQuietHours: boolean;
+  streak: number; // auto-reboots in a row without the link recovering
+}
+
+// History labels for what the policy did; matched when reading history back.
+export const AUTO_REBOOT_EVENT = 'Auto-Reboot (high ping)';
+export const AUTO_POWER_CYCLE_EVENT = 'Auto Power Cycle (high ping)';
+export const SUPPRESS_LABELS: { [reason in SuppressReason]: string } = {
+  cooldown: 'cooldown',
+  daily_cap: 'daily limit reached',
+  quiet_hours: 'quiet hours',
+};
+export const describeSuppression = (reason: string) =>
+  `Auto-Reboot skipped (${SUPPRESS_LABELS[reason as SuppressReason] || reason})`;
+export const isSuppressionEvent = (eventType: string) => eventType.startsWith('Auto-Reboot skipped');
+
+export const isAutoRebootEvent = (eventType: string) =>
+  eventType === AUTO_REBOOT_EVENT || eventType === AUTO_POWER_CYCLE_EVENT;
+
+const MINUTE = 60000;
+const DAY = 1440 * MINUTE;
+// The firmware reports a held-back reboot on every failed check; history keeps
+// one per device and reason in this interval so they don't crowd out the rest.
+export const SUPPRESSION_LOG_INTERVAL_MS = 30 * MINUTE;
+// The firmware resets its escalation count once the link has stayed healthy
+// for twice the cooldown, and never sooner than an hour.
+const recoveryWindow = (config: DeviceConfig) => Math.max(2 * config.rebootCooldownMinutes, 60) * MINUTE;
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+// Quiet hours may wrap midnight, e.g. 22:00–06:00. Without a timezone the
+// viewer's clock stands in for the device's.
+export const isInQuietHours = (config: DeviceConfig, now: number, timeZone?: string) => {
+  if (!config.quietHoursStart || !config.quietHoursEnd) return false;
+  const wall = timeZone ? getZonedParts(timeZone, now) : { hour: new Date(now).getHours(), minute: new Date(now).getMinutes() };
+  const minutes = wall.hour * 60 + wall.minute;
+  const start = toMinutes(config.quietHoursStart);
+  const end = toMinutes(config.quietHoursEnd);
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+};
+
+export const autoRebootTimes = (log: RebootLogEntry[]) =>
+  log.filter(entry => isAutoRebootEvent(entry.eventType)).map(entry => entry.time);
+
+export const evaluateRebootPolicy = (config: DeviceConfig, times: number[], now: number, timeZone?: string): PolicyStatus => {
+  const sorted = times.filter(t => t <= now).sort((a, b) => b - a); // newest first
+  const rebootsToday = sorted.filter(t => t > now - DAY).length;
+  const last = sorted[0];
+  const cooldownUntil = last !== undefined && now < last + config.rebootCooldownMinutes * MINUTE
+    ? last + config.rebootCooldownMinutes * MINUTE
+    : null;
+  const inQuietHours = isInQuietHours(config, now, timeZone);
+
+  let streak = 0;
+  const window = recoveryWindow(config);
+  if (last !== undefined && now - last < window) {
+    streak = 1;
+    while (streak < sorted.length && sorted[streak - 1] - sorted[streak] < window) streak++;
+  }
+
+  const status = { rebootsToday, cooldownUntil, inQuietHours, streak };
+  if (!config.autoPingReboot) return { ...status, action: 'disabled' };
+  if (inQuietHours) return { ...status, action: 'suppressed', suppressedBy: 'quiet_hours' };
+  if (rebootsToday >= config.maxRebootsPerDay) return { ...status, action: 'suppressed', suppressedBy: 'daily_cap' };
+  if (cooldownUntil !== null) return { ...status, action: 'suppressed', suppressedBy: 'cooldown' };
+  const escalate = config.escalateAfterReboots > 0 && streak >= config.escalateAfterReboots;
+  return { ...status, action: escalate ? 'power_cycle' : 'reboot' };
+};
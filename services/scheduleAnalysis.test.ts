@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import type { Schedule } from '../types';
+import { analyzeSchedules, expandSchedules } from './scheduleAnalysis';
+
+const schedule = (id: string, fields: Partial<Schedule>): Schedule => ({
+  id,
+  time: '04:00',
+  days: ['Mon'],
+  enabled: true,
+  action: 'REBOOT',
+  ...fields,
+});
+
+const MONDAY = { year: 2026, month: 3, day: 2 };
+
+describe('expandSchedules', () => {
+  it('runs an OFF window that starts before midnight into the next day', () => {
+    const [window] = expandSchedules([schedule('off', { action: 'OFF', time: '23:00', endTime: '02:00' })], MONDAY, 1);
+    expect(window).toEqual({ scheduleId: 'off', action: 'OFF', start: 23 * 60, end: 26 * 60 });
+  });
+
+  it('skips months without the day and finds it in a leap year', () => {
+    const monthly = [schedule('m', { days: [], dayOfMonth: 29 })];
+    expect(expandSchedules(monthly, { year: 2027, month: 2, day: 1 }, 28)).toEqual([]);
+    expect(expandSchedules(monthly, { year: 2028, month: 2, day: 1 }, 29)).toHaveLength(1);
+  });
+
+  it('places a one-time entry on its date only', () => {
+    const once = [schedule('o', { days: [], date: '2026-03-04', time: '10:30' })];
+    expect(expandSchedules(once, MONDAY, 14).map(o => o.start)).toEqual([2 * 1440 + 630]);
+  });
+
+  it('leaves out disabled and invalid schedules', () => {
+    const schedules = [schedule('a', { enabled: false }), schedule('b', { action: 'OFF' }), schedule('c', { time: '25:00' })];
+    expect(expandSchedules(schedules, MONDAY, 7)).toEqual([]);
+  });
+});
+
+describe('analyzeSchedules', () => {
+  it('reports schedules that do the same thing as duplicates', () => {
+    const conflicts = analyzeSchedules([
+      schedule('a', { action: 'OFF', time: '01:00', endTime: '03:00', days: ['Mon', 'Wed'] }),
+      schedule('b', { action: 'OFF', time: '01:00', endTime: '03:00', days: ['Wed', 'Mon'] }),
+    ], MONDAY);
+    // Identical windows overlap too, but that is the same problem told twice.
+    expect(conflicts).toEqual([{ kind: 'duplicate', scheduleIds: ['a', 'b'], firstDate: '' }]);
+  });
+
+  it('finds OFF windows that overlap across midnight', () => {
+    const conflicts = analyzeSchedules([
+      schedule('late', { action: 'OFF', time: '23:00', endTime: '02:00', days: ['Mon'] }),
+      schedule('early', { action: 'OFF', time: '01:00', endTime: '03:00', days: ['Tue'] }),
+    ], MONDAY);
+    expect(conflicts).toEqual([{ kind: 'overlap', scheduleIds: ['late', 'early'], firstDate: '2026-03-03' }]);
+  });
+
+  it('does not count windows that only touch', () => {
+    expect(analyzeSchedules([
+      schedule('a', { action: 'OFF', time: '01:00', endTime: '03:00' }),
+      schedule('b', { action: 'OFF', time: '03:00', endTime: '05:00' }),
+    ], MONDAY)).toEqual([]);
+  });
+
+  it('finds a reboot inside an OFF window that runs past midnight', () => {
+    const off = schedule('off', { action: 'OFF', time: '23:00', endTime: '02:00', days: ['Mon'] });
+    expect(analyzeSchedules([off, schedule('reboot', { time: '01:00', days: ['Tue'] })], MONDAY)).toEqual([
+      { kind: 'reboot_during_off', scheduleIds: ['reboot', 'off'], firstDate: '2026-03-03' },
+    ]);
+    // The window has ended by its end time.
+    expect(analyzeSchedules([off, schedule('reboot', { time: '02:00', days: ['Tue'] })], MONDAY)).toEqual([]);
+  });
+
+  it('dates a monthly clash on day 31 to the first month that has it', () => {
+    const conflicts = analyzeSchedules([
+      schedule('monthly', { action: 'OFF', days: [], dayOfMonth: 31, time: '10:00', endTime: '12:00' }),
+      schedule('weekly', { time: '11:00', days: ['Tue'] }),
+    ], MONDAY);
+    expect(conflicts).toEqual([{ kind: 'reboot_during_off', scheduleIds: ['weekly', 'monthly'], firstDate: '2026-03-31' }]);
+  });
+
+  it('checks one-time entries against repeating ones', () => {
+    const once = schedule('once', { action: 'OFF', days: [], date: '2026-03-10', time: '22:00', endTime: '06:00' });
+    const conflicts = analyzeSchedules([once, schedule('weekly', { time: '05:00', days: ['Wed'] })], MONDAY);
+    expect(conflicts).toEqual([{ kind: 'reboot_during_off', scheduleIds: ['weekly', 'once'], firstDate: '2026-03-11' }]);
+  });
+
+  it('ignores one-time entries before the first day', () => {
+    const past = schedule('past', { action: 'OFF', days: [], date: '2026-03-01', time: '00:00', endTime: '23:00' });
+    expect(analyzeSchedules([past, schedule('daily', { days: ['Sun'] })], MONDAY)).toEqual([]);
+  });
+});
@@ -0,0 +1,110 @@
+import type { Schedule } from '../types';
+import { scheduleRunsOn, scheduleSignature, validateSchedule } from './scheduleCodec';
+
+// Expands schedules onto concrete dates and finds entries that fight each other.
+// Times are device wall-clock minutes counted from the start of the first day.
+
+export interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+export interface ScheduleOccurrence {
+  scheduleId: string;
+  action: 'REBOOT' | 'OFF';
+  start: number;
+  end: number; // equal to start for reboots
+}
+
+export type ScheduleConflictKind = 'duplicate' | 'overlap' | 'reboot_during_off';
+
+export interface ScheduleConflict {
+  kind: ScheduleConflictKind;
+  scheduleIds: [string, string]; // for reboot_during_off: [reboot, off window]
+  firstDate: string; // "YYYY-MM-DD" of the first clash, empty for duplicates
+}
+
+const MINUTES_PER_DAY = 1440;
+
+const toMinutes = (time: string) => {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + minute;
+};
+
+export const addDays = (date: CalendarDate, days: number): CalendarDate => {
+  const d = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+};
+
+const formatCalendarDate = (date: CalendarDate) =>
+  `${date.year}-${date.month.toString().padStart(2, '0')}-${date.day.toString().padStart(2, '0')}`;
+
+// Occurrences of the enabled, valid schedules on `days` days starting at `from`.
+// An OFF window that starts before midnight runs into the following day.
+export const expandSchedules = (schedules: Schedule[], from: CalendarDate, days: number): ScheduleOccurrence[] => {
+  const active = schedules.filter(s => s.enabled && !validateSchedule(s));
+  const occurrences: ScheduleOccurrence[] = [];
+
+  for (let i = 0; i < days; i++) {
+    const date = addDays(from, i);
+    active.forEach(s => {
+      if (!scheduleRunsOn(s, date.year, date.month, date.day)) return;
+      const start = i * MINUTES_PER_DAY + toMinutes(s.time);
+      if (s.action === 'OFF' && s.endTime) {
+        let end = i * MINUTES_PER_DAY + toMinutes(s.endTime);
+        if (end <= start) end += MINUTES_PER_DAY;
+        occurrences.push({ scheduleId: s.id, action: 'OFF', start, end });
+      } else {
+        occurrences.push({ scheduleId: s.id, action: 'REBOOT', start, end: start });
+      }
+    });
+  }
+  return occurrences.sort((a, b) => a.start - b.start);
+};
+
+// A year ahead covers every weekday, day of month and pending one-time date.
+export const analyzeSchedules = (schedules: Schedule[], from: CalendarDate, days: number = 366): ScheduleConflict[] => {
+  const conflicts: ScheduleConflict[] = [];
+  const seen = new Set<string>();
+  const add = (kind: ScheduleConflictKind, a: string, b: string, start: number | null) => {
+    const key = `${kind}|${kind === 'reboot_during_off' ? [a, b].join('|') : [a, b].sort().join('|')}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    const firstDate = start === null ? '' : formatCalendarDate(addDays(from, Math.floor(start / MINUTES_PER_DAY)));
+    conflicts.push({ kind, scheduleIds: [a, b], firstDate });
+  };
+
+  const active = schedules.filter(s => s.enabled && !validateSchedule(s));
+  const bySignature: { [signature: string]: string } = {};
+  active.forEach(s => {
+    const signature = scheduleSignature(s);
+    if (bySignature[signature]) add('duplicate', bySignature[signature], s.id, null);
+    else bySignature[signature] = s.id;
+  });
+  const isDuplicatePair = (a: string, b: string) => seen.has(`duplicate|${[a, b].sort().join('|')}`);
+
+  const occurrences = expandSchedules(active, from, days);
+  const offWindows = occurrences.filter(o => o.action === 'OFF');
+
+  offWindows.forEach((window, index) => {
+    for (let j = index + 1; j < offWindows.length && offWindows[j].start < window.end; j++) {
+      const other = offWindows[j];
+      if (other.scheduleId === window.scheduleId || isDuplicatePair(window.scheduleId, other.scheduleId)) continue;
+      add('overlap', window.scheduleId, other.scheduleId, other.start);
+    }
+  });
+
+  occurrences.filter(o => o.action === 'REBOOT').forEach(reboot => {
+    offWindows.forEach(window => {
+      if (reboot.start >= window.start && reboot.start < window.end) {
+        add('reboot_during_off', reboot.scheduleId, window.scheduleId, reboot.start);
+      }
+    });
+  });
+
+  return conflicts;
+};
+
+export const conflictsFor = (conflicts: ScheduleConflict[], scheduleId: string) =>
+  conflicts.filter(c => c.scheduleIds.includes(scheduleId));
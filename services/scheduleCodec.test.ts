@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import type { Schedule } from '../types';
+import { decodeSchedule, decodeSchedules, encodeSchedule, encodeScheduleSet, encodeSchedules, isWireSchedule, WEEK_DAYS } from './scheduleCodec';
+
+const schedule = (fields: Partial<Schedule>): Schedule => ({
+  id: 'a1b2c3d4-0000-4000-8000-000000000001',
+  time: '04:30',
+  days: ['Mon', 'Wed', 'Fri'],
+  enabled: true,
+  action: 'REBOOT',
+  ...fields,
+});
+
+describe('schedule round trip', () => {
+  it.each<[string, Partial<Schedule>, object]>([
+    ['weekly reboot', {}, { type: 'weekly', hour: 4, minute: 30, days: [1, 3, 5], duration: 0 }],
+    ['daily reboot', { days: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'] }, { type: 'daily', days: [1, 2, 3, 4, 5, 6, 0] }],
+    ['OFF window on the same day', { action: 'OFF', time: '01:00', endTime: '05:15' }, { action: 'OFF', duration: 255 }],
+    ['OFF window across midnight', { action: 'OFF', time: '23:00', endTime: '02:00' }, { action: 'OFF', hour: 23, duration: 180 }],
+    ['OFF window of a full day', { action: 'OFF', time: '06:00', endTime: '06:00' }, { duration: 1440 }],
+    ['monthly reboot', { days: [], dayOfMonth: 31 }, { type: 'monthly', day_of_month: 31, days: [] }],
+    ['monthly OFF across midnight', { days: [], dayOfMonth: 1, action: 'OFF', time: '22:30', endTime: '00:30' }, { type: 'monthly', day_of_month: 1, duration: 120 }],
+    ['one-time reboot', { days: [], date: '2026-12-24', time: '03:00' }, { type: 'once', year: 2026, month: 12, day_of_month: 24 }],
+    ['one-time OFF across midnight', { days: [], date: '2026-12-31', action: 'OFF', time: '23:30', endTime: '01:00' }, { type: 'once', month: 12, day_of_month: 31, duration: 90 }],
+  ])('%s', (_, fields, wire) => {
+    const original = schedule(fields);
+    const encoded = encodeSchedule(original);
+    expect(encoded).toMatchObject({ id: original.id, ...wire });
+    // The wire format is plain JSON; decode what the device would send back.
+    expect(decodeSchedule(JSON.parse(JSON.stringify(encoded)))).toEqual(original);
+  });
+});
+
+// Small seeded generator (mulberry32) so a failing case can be replayed.
+const random = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const randomSchedule = (next: () => number, index: number): Schedule => {
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+  const time = (minutes: number) => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+  const start = int(0, 1439);
+  const off = next() < 0.5;
+  const fields: Partial<Schedule> = {
+    id: `generated-${index}`,
+    time: time(start),
+    action: off ? 'OFF' : 'REBOOT',
+  };
+  // Any end time works: at or before the start means the window runs past midnight.
+  if (off) fields.endTime = time((start + int(1, 1440)) % 1440);
+  const repeat = next();
+  if (repeat < 0.4) {
+    const days = WEEK_DAYS.filter(() => next() < 0.5);
+    fields.days = days.length > 0 ? days : [WEEK_DAYS[int(0, 6)]];
+  } else if (repeat < 0.7) {
+    fields.days = [];
+    fields.dayOfMonth = int(1, 31);
+  } else {
+    const year = int(2025, 2035);
+    const month = int(1, 12);
+    const day = int(1, new Date(Date.UTC(year, month, 0)).getUTCDate());
+    fields.days = [];
+    fields.date = `${year}-${pad(month)}-${pad(day)}`;
+  }
+  return schedule(fields);
+};
+
+describe('generated round trip', () => {
+  it('decodes every random valid schedule back to itself', () => {
+    const next = random(20260301);
+    for (let i = 0; i < 2000; i++) {
+      const original = randomSchedule(next, i);
+      expect(decodeSchedule(JSON.parse(JSON.stringify(encodeSchedule(original)))), `case ${i}`).toEqual(original);
+    }
+  });
+});
+
+describe('isWireSchedule', () => {
+  const once = { type: 'once', hour: 3, minute: 0, year: 2026, month: 12, day_of_month: 24, action: 'RESET', duration: 0, days: [] };
+
+  it.each<[string, object, boolean]>([
+    ['a valid one-time entry', {}, true],
+    ['month 0', { month: 0 }, false],
+    ['month 13', { month: 13 }, false],
+    ['day 0', { day_of_month: 0 }, false],
+    ['day 32', { day_of_month: 32 }, false],
+    ['a missing year', { year: undefined }, false],
+  ])('%s', (_, fields, expected) => {
+    expect(isWireSchedule({ ...once, ...fields })).toBe(expected);
+  });
+});
+
+describe('encodeSchedules', () => {
+  it('leaves disabled schedules out without reporting them', () => {
+    const result = encodeSchedules([schedule({ enabled: false })]);
+    expect(result).toEqual({ entries: [], skipped: [] });
+  });
+
+  it('returns invalid schedules with the reason', () => {
+    const valid = schedule({});
+    const noEnd = schedule({ id: 'b', action: 'OFF' });
+    const badTime = schedule({ id: 'c', time: '25:00' });
+    const { entries, skipped } = encodeSchedules([valid, noEnd, badTime]);
+    expect(entries.map(e => e.id)).toEqual([valid.id]);
+    expect(skipped).toEqual([
+      { schedule: noEnd, reason: 'Power off schedules need an end time.' },
+      { schedule: badTime, reason: 'Invalid time "25:00".' },
+    ]);
+  });
+});
+
+describe('encodeScheduleSet', () => {
+  it('sends the bare array without a timezone', () => {
+    const { payload } = encodeScheduleSet([schedule({})]);
+    expect(Array.isArray(JSON.parse(payload))).toBe(true);
+  });
+
+  it('wraps the schedules with the timezone', () => {
+    const { payload } = encodeScheduleSet([schedule({})], 'Europe/Berlin');
+    const data = JSON.parse(payload);
+    expect(data.timezone).toBe('Europe/Berlin');
+    expect(data.posix).toBe('<+01>-1<+02>,M3.5.0,M10.5.0/3');
+    expect(data.schedules).toHaveLength(1);
+  });
+});
+
+describe('decodeSchedules', () => {
+  it('gives schedules reported without an id a fresh UUID', () => {
+    const { id, ...entry } = encodeSchedule(schedule({}));
+    const [first, second] = decodeSchedules([entry, entry]);
+    expect(first.id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(second.id).not.toBe(first.id);
+  });
+
+  it('drops malformed entries', () => {
+    const good = encodeSchedule(schedule({}));
+    expect(decodeSchedules([{ hour: 30 }, good, null]).map(s => s.id)).toEqual([good.id]);
+  });
+});
@@ -0,0 +1,249 @@
+import type { Schedule } from '../types';
+import { toPosixTimeZone, wallTimeToUtc } from './timezone';
+
+// Encoder/decoder for the ESP32 schedule JSON sent on schedule/set and
+// reported back on schedule/state.
+
+export interface WireSchedule {
+  id?: string;
+  type: string; // 'daily' | 'weekly' | 'monthly' | 'once'
+  hour: number;
+  minute: number;
+  day_of_month: number; // 1-31 for monthly and once, 0 otherwise
+  month?: number; // 1-12, once only
+  year?: number; // once only
+  action: string; // 'RESET' | 'OFF'
+  duration: number; // minutes the relay stays off, 0 for RESET
+  days: number[]; // 0 = Sunday
+}
+
+export const WEEK_DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const DAY_NUMBERS: { [day: string]: number } = {
+  'Sun': 0, 'Mon': 1, 'Tue': 2, 'Wed': 3, 'Thu': 4, 'Fri': 5, 'Sat': 6
+};
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const MINUTES_PER_DAY = 1440;
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const parseTime = (time: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match) return null;
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  if (hour > 23 || minute > 59) return null;
+  return hour * 60 + minute;
+};
+
+const formatTime = (minutes: number) => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+const parseDate = (date: string): { year: number; month: number; day: number } | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  const check = new Date(year, month - 1, day);
+  if (check.getFullYear() !== year || check.getMonth() !== month - 1 || check.getDate() !== day) return null;
+  return { year, month, day };
+};
+
+export type ScheduleRepeat = 'weekly' | 'monthly' | 'once';
+
+export const getScheduleRepeat = (s: Schedule): ScheduleRepeat =>
+  s.date !== undefined ? 'once' : s.dayOfMonth !== undefined ? 'monthly' : 'weekly';
+
+export const describeScheduleDays = (s: Schedule) => {
+  switch (getScheduleRepeat(s)) {
+    case 'once': return `Once on ${s.date}`;
+    case 'monthly': return `Monthly on day ${s.dayOfMonth}`;
+    default: return s.days.length === 7 ? 'Every day' : s.days.join(', ');
+  }
+};
+
+// Whether the schedule fires on a calendar date (in the device's timezone).
+export const scheduleRunsOn = (s: Schedule, year: number, month: number, day: number) => {
+  switch (getScheduleRepeat(s)) {
+    case 'once': return s.date === `${year}-${pad(month)}-${pad(day)}`;
+    case 'monthly': return s.dayOfMonth === day;
+    default: return s.days.includes(DAY_NAMES[new Date(Date.UTC(year, month - 1, day)).getUTCDay()]);
+  }
+};
+
+// A one-time schedule is expired once its action (or its whole OFF window) is in
+// the past. Times are read in the device's timezone when it has one.
+export const isScheduleExpired = (s: Schedule, now: Date = new Date(), timeZone?: string) => {
+  if (s.date === undefined) return false;
+  const date = parseDate(s.date);
+  const start = parseTime(s.time);
+  if (!date || start === null) return false;
+  let minutes = start;
+  if (s.action === 'OFF' && s.endTime) {
+    const end = parseTime(s.endTime);
+    if (end !== null) minutes = end <= start ? end + MINUTES_PER_DAY : end;
+  }
+  const endsAt = timeZone
+    ? wallTimeToUtc(timeZone, date.year, date.month, date.day, minutes)
+    : new Date(date.year, date.month - 1, date.day, 0, minutes).getTime();
+  return endsAt <= now.getTime();
+};
+
+// Schedule ids travel to the device and come back on schedule/state, so they
+// must stay unique across the fleet and never change when a schedule is edited.
+export const createScheduleId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  // randomUUID needs a secure context; fall back to a v4 UUID from getRandomValues.
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+// Returns a human-readable problem, or null when the schedule can be encoded.
+export const validateSchedule = (s: Schedule): string | null => {
+  if (parseTime(s.time) === null) return `Invalid time "${s.time}".`;
+  if (s.action === 'OFF') {
+    if (!s.endTime) return 'Power off schedules need an end time.';
+    if (parseTime(s.endTime) === null) return `Invalid end time "${s.endTime}".`;
+  }
+  const repeat = getScheduleRepeat(s);
+  if (repeat === 'once') {
+    if (!parseDate(s.date as string)) return `Invalid date "${s.date}".`;
+  } else if (repeat === 'monthly') {
+    const day = s.dayOfMonth as number;
+    if (!Number.isInteger(day) || day < 1 || day > 31) {
+      return 'Day of month must be between 1 and 31.';
+    }
+  } else {
+    if (s.days.length === 0) return 'Select at least one day.';
+    const unknown = s.days.find(day => DAY_NUMBERS[day] === undefined);
+    if (unknown) return `Unknown day "${unknown}".`;
+  }
+  return null;
+};
+
+export const isWireSchedule = (entry: any): entry is WireSchedule =>
+  !!entry && typeof entry === 'object' &&
+  Number.isInteger(entry.hour) && entry.hour >= 0 && entry.hour < 24 &&
+  Number.isInteger(entry.minute) && entry.minute >= 0 && entry.minute < 60 &&
+  (entry.action === 'RESET' || entry.action === 'OFF') &&
+  (entry.type !== 'monthly' || (Number.isInteger(entry.day_of_month) && entry.day_of_month >= 1 && entry.day_of_month <= 31)) &&
+  (entry.type !== 'once' || (
+    Number.isInteger(entry.year) &&
+    Number.isInteger(entry.month) && entry.month >= 1 && entry.month <= 12 &&
+    Number.isInteger(entry.day_of_month) && entry.day_of_month >= 1 && entry.day_of_month <= 31
+  )) &&
+  Array.isArray(entry.days) && entry.days.every((d: any) => Number.isInteger(d) && d >= 0 && d <= 6) &&
+  (entry.action !== 'OFF' || (Number.isInteger(entry.duration) && entry.duration > 0 && entry.duration <= MINUTES_PER_DAY));
+
+export const encodeSchedule = (s: Schedule): WireSchedule => {
+  const problem = validateSchedule(s);
+  if (problem) throw new Error(problem);
+
+  const start = parseTime(s.time) as number;
+  const repeat = getScheduleRepeat(s);
+  let duration = 0;
+
+  if (s.action === 'OFF' && s.endTime) {
+    let end = parseTime(s.endTime) as number;
+    // An end time at or before the start means the window runs past midnight.
+    if (end <= start) end += MINUTES_PER_DAY;
+    duration = end - start;
+  }
+
+  const entry: WireSchedule = {
+    id: s.id,
+    type: repeat === 'weekly' ? (s.days.length === 7 ? 'daily' : 'weekly') : repeat,
+    hour: Math.floor(start / 60),
+    minute: start % 60,
+    day_of_month: repeat === 'monthly' ? s.dayOfMonth as number : 0,
+    action: s.action === 'OFF' ? 'OFF' : 'RESET',
+    duration,
+    days: repeat === 'weekly' ? s.days.map(day => DAY_NUMBERS[day]) : [],
+  };
+
+  if (repeat === 'once') {
+    const date = parseDate(s.date as string)!;
+    entry.day_of_month = date.day;
+    entry.month = date.month;
+    entry.year = date.year;
+  }
+  return entry;
+};
+
+export interface SkippedSchedule {
+  schedule: Schedule;
+  reason: string;
+}
+
+export interface EncodedSchedules {
+  entries: WireSchedule[];
+  skipped: SkippedSchedule[]; // enabled but invalid, so left off the device
+}
+
+// Disabled schedules stay in the app only; invalid ones are never sent and are
+// returned with the reason so the caller can show them.
+export const encodeSchedules = (schedules: Schedule[]): EncodedSchedules => {
+  const entries: WireSchedule[] = [];
+  const skipped: SkippedSchedule[] = [];
+  schedules.filter(s => s.enabled).forEach(schedule => {
+    const reason = validateSchedule(schedule);
+    if (reason) skipped.push({ schedule, reason });
+    else entries.push(encodeSchedule(schedule));
+  });
+  return { entries, skipped };
+};
+
+export const describeSkippedSchedule = ({ schedule, reason }: SkippedSchedule) =>
+  `${schedule.time || '--:--'} ${describeScheduleDays(schedule)}: ${reason}`;
+
+// Payload for schedule/set, as a string. Devices without a timezone keep the
+// bare array that older firmware expects; otherwise the zone travels with the
+// schedules.
+export const encodeScheduleSet = (schedules: Schedule[], timeZone?: string): { payload: string; skipped: SkippedSchedule[] } => {
+  const { entries, skipped } = encodeSchedules(schedules);
+  const payload = timeZone ? { timezone: timeZone, posix: toPosixTimeZone(timeZone), schedules: entries } : entries;
+  return { payload: JSON.stringify(payload), skipped };
+};
+
+// Older firmware reports schedules without ids; those get a fresh one.
+export const decodeSchedule = (entry: WireSchedule): Schedule => {
+  if (!isWireSchedule(entry)) throw new Error('Malformed schedule entry.');
+
+  const start = entry.hour * 60 + entry.minute;
+  const schedule: Schedule = {
+    id: entry.id || createScheduleId(),
+    time: formatTime(start),
+    days: entry.type === 'daily'
+      ? [...WEEK_DAYS]
+      : WEEK_DAYS.filter(day => entry.days.includes(DAY_NUMBERS[day])),
+    enabled: true,
+    action: entry.action === 'OFF' ? 'OFF' : 'REBOOT',
+  };
+
+  if (entry.type === 'monthly') {
+    schedule.dayOfMonth = entry.day_of_month;
+    schedule.days = [];
+  } else if (entry.type === 'once') {
+    schedule.date = `${entry.year}-${pad(entry.month as number)}-${pad(entry.day_of_month)}`;
+    schedule.days = [];
+  }
+  if (entry.action === 'OFF') {
+    schedule.endTime = formatTime((start + entry.duration) % MINUTES_PER_DAY);
+  }
+  return schedule;
+};
+
+export const decodeSchedules = (entries: any[]): Schedule[] =>
+  entries.filter(isWireSchedule).map(entry => decodeSchedule(entry));
+
+// Two schedules with the same signature do the same thing on the device; ids
+// and the enabled flag never reach the wire.
+export const scheduleSignature = (s: Schedule) => {
+  const normalized = { ...s, days: WEEK_DAYS.filter(day => s.days.includes(day)) };
+  if (validateSchedule(normalized)) return `invalid|${s.id}`;
+  const { id, ...wire } = encodeSchedule(normalized);
+  return JSON.stringify(wire);
+};
@@ -0,0 +1,43 @@
+import type { Device, Schedule, ScheduleTemplate } from '../types';
+import { createScheduleId } from './scheduleCodec';
+
+// Named schedules kept in a library. A device schedule created from a template
+// carries its templateId, so editing the template can rewrite every copy.
+
+export const createTemplate = (name: string, schedule: ScheduleTemplate['schedule']): ScheduleTemplate => ({
+  id: createScheduleId(),
+  name: name.trim(),
+  schedule,
+  updatedAt: new Date().toISOString(),
+});
+
+// Copies the template's fields onto a schedule, keeping its id and enabled flag.
+const fromTemplate = (template: ScheduleTemplate, id: string, enabled: boolean): Schedule => ({
+  ...template.schedule,
+  id,
+  enabled,
+  templateId: template.id,
+});
+
+export const usesTemplate = (schedules: Schedule[], templateId: string) =>
+  schedules.some(s => s.templateId === templateId);
+
+// Adds the template to a device's schedules, or refreshes the copy it already has.
+export const applyTemplate = (schedules: Schedule[], template: ScheduleTemplate): Schedule[] =>
+  usesTemplate(schedules, template.id)
+    ? propagateTemplate(schedules, template)
+    : [...schedules, fromTemplate(template, createScheduleId(), true)];
+
+export const propagateTemplate = (schedules: Schedule[], template: ScheduleTemplate): Schedule[] =>
+  schedules.map(s => s.templateId === template.id ? fromTemplate(template, s.id, s.enabled) : s);
+
+// Schedules stay on the devices when their template is deleted; they just stop following it.
+export const detachTemplate = (schedules: Schedule[], templateId: string): Schedule[] =>
+  schedules.map(s => {
+    if (s.templateId !== templateId) return s;
+    const { templateId: _, ...rest } = s;
+    return rest;
+  });
+
+export const devicesUsingTemplate = (devices: Device[], templateId: string) =>
+  devices.filter(d => usesTemplate(d.schedules, templateId));
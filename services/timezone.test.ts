@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { wallTimeToUtc } from './timezone';
+
+const at = (iso: string) => new Date(iso).getTime();
+
+describe('wallTimeToUtc', () => {
+  it.each([
+    ['a regular winter time', 'Europe/Berlin', [2026, 1, 15, 4 * 60 + 30], '2026-01-15T03:30:00Z'],
+    ['a regular summer time', 'America/New_York', [2026, 7, 1, 23 * 60], '2026-07-02T03:00:00Z'],
+    ['a time skipped by the spring change, moved forward', 'Europe/Berlin', [2026, 3, 29, 2 * 60 + 30], '2026-03-29T01:30:00Z'],
+    ['a time repeated by the autumn change, first occurrence', 'Europe/Berlin', [2026, 10, 25, 2 * 60 + 30], '2026-10-25T00:30:00Z'],
+    ['a repeated time in New York', 'America/New_York', [2026, 11, 1, 90], '2026-11-01T05:30:00Z'],
+    ['minutes past midnight into the next day', 'UTC', [2026, 5, 10, 1440 + 60], '2026-05-11T01:00:00Z'],
+  ] as const)('%s', (_, zone, [year, month, day, minutes], expected) => {
+    expect(wallTimeToUtc(zone, year, month, day, minutes)).toBe(at(expected));
+  });
+});
@@ -0,0 +1,188 @@
+// IANA timezone helpers built on Intl. Schedule times are wall-clock times in
+// the device's timezone; these convert them for display and find the dates
+// where a DST change skips or repeats them.
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+export interface DstIssue {
+  kind: 'gap' | 'overlap'; // gap: the time is skipped, overlap: it happens twice
+  date: string; // "YYYY-MM-DD" in the device's timezone
+  time: string;
+}
+
+const MINUTE = 60000;
+const DAY = 1440 * MINUTE;
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const formatters: { [timeZone: string]: Intl.DateTimeFormat } = {};
+
+const getFormatter = (timeZone: string) => {
+  if (!formatters[timeZone]) {
+    formatters[timeZone] = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric',
+      hour: 'numeric', minute: 'numeric', second: 'numeric',
+    });
+  }
+  return formatters[timeZone];
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+export const getViewerTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Intl.supportedValuesOf is ES2022, newer than the lib this project targets.
+export const listTimeZones = (): string[] => {
+  if ('supportedValuesOf' in Intl && typeof Intl.supportedValuesOf === 'function') {
+    return Intl.supportedValuesOf('timeZone');
+  }
+  return ['UTC', 'Europe/London', 'Europe/Berlin', 'America/New_York', 'America/Chicago', 'America/Denver', 'America/Los_Angeles', 'Asia/Tokyo', 'Australia/Sydney'];
+};
+
+export const getZonedParts = (timeZone: string, ms: number): ZonedParts => {
+  const values: { [type: string]: number } = {};
+  getFormatter(timeZone).formatToParts(new Date(ms)).forEach(part => {
+    if (part.type !== 'literal') values[part.type] = parseInt(part.value, 10);
+  });
+  return { year: values.year, month: values.month, day: values.day, hour: values.hour, minute: values.minute };
+};
+
+// Minutes to add to UTC to get the wall time in the zone at that instant.
+export const getOffsetMinutes = (timeZone: string, ms: number) => {
+  const p = getZonedParts(timeZone, ms);
+  const wall = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return Math.round((wall - Math.floor(ms / MINUTE) * MINUTE) / MINUTE);
+};
+
+// UTC instant of a wall time. Times skipped by DST resolve forward, repeated
+// times resolve to the first occurrence.
+export const wallTimeToUtc = (timeZone: string, year: number, month: number, day: number, minutes: number) => {
+  const wall = Date.UTC(year, month - 1, day, 0, minutes);
+  // The offsets a day either side cover both sides of a DST change.
+  const candidates = [getOffsetMinutes(timeZone, wall - DAY), getOffsetMinutes(timeZone, wall + DAY)]
+    .map(offset => wall - offset * MINUTE);
+  const matching = candidates.filter(utc => utc + getOffsetMinutes(timeZone, utc) * MINUTE === wall);
+  if (matching.length > 0) return Math.min(...matching);
+  // Skipped: the offset from before the change moves the time past the gap.
+  return candidates[0];
+};
+
+export const formatDate = (p: { year: number; month: number; day: number }) => `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+
+// Converts a device-local "HH:MM" into another zone, for the given device-local date
+// (today by default). dayShift is -1, 0 or 1 when the converted time falls on another day.
+export const convertWallTime = (time: string, fromZone: string, toZone: string, date?: { year: number; month: number; day: number }) => {
+  const [hour, minute] = time.split(':').map(Number);
+  const on = date || getZonedParts(fromZone, Date.now());
+  const utc = wallTimeToUtc(fromZone, on.year, on.month, on.day, hour * 60 + minute);
+  const target = getZonedParts(toZone, utc);
+  const dayShift = Math.round((Date.UTC(target.year, target.month - 1, target.day) - Date.UTC(on.year, on.month - 1, on.day)) / DAY);
+  return { time: `${pad(target.hour)}:${pad(target.minute)}`, dayShift };
+};
+
+interface Transition {
+  at: number; // first instant of the new offset
+  before: number;
+  after: number;
+}
+
+export const findTransitions = (timeZone: string, from: number, to: number): Transition[] => {
+  const transitions: Transition[] = [];
+  from = Math.floor(from / MINUTE) * MINUTE;
+  let previous = getOffsetMinutes(timeZone, from);
+  for (let t = from + DAY; t <= to; t += DAY) {
+    const current = getOffsetMinutes(timeZone, t);
+    if (current === previous) continue;
+    let low = t - DAY;
+    let high = t;
+    while (high - low > MINUTE) {
+      const mid = low + Math.floor((high - low) / 2 / MINUTE) * MINUTE;
+      if (getOffsetMinutes(timeZone, mid) === previous) low = mid;
+      else high = mid;
+    }
+    transitions.push({ at: high, before: previous, after: current });
+    previous = current;
+  }
+  return transitions;
+};
+
+// First date within the next year where one of the "HH:MM" times is skipped or
+// repeated by a DST change. runsOn limits the check to the dates that matter.
+export const findDstIssue = (
+  timeZone: string,
+  times: string[],
+  runsOn: (year: number, month: number, day: number) => boolean,
+  now: number = Date.now()
+): DstIssue | null => {
+  for (const transition of findTransitions(timeZone, now, now + 366 * DAY)) {
+    const delta = Math.abs(transition.after - transition.before);
+    // Wall-clock range that is skipped (clocks forward) or repeated (clocks back).
+    const start = new Date(transition.at + Math.min(transition.before, transition.after) * MINUTE);
+    const date = { year: start.getUTCFullYear(), month: start.getUTCMonth() + 1, day: start.getUTCDate() };
+    if (!runsOn(date.year, date.month, date.day)) continue;
+
+    const startMinutes = start.getUTCHours() * 60 + start.getUTCMinutes();
+    for (const time of times) {
+      const [hour, minute] = time.split(':').map(Number);
+      const minutes = hour * 60 + minute;
+      if (minutes >= startMinutes && minutes < startMinutes + delta) {
+        return { kind: transition.after > transition.before ? 'gap' : 'overlap', date: formatDate(date), time };
+      }
+    }
+  }
+  return null;
+};
+
+const formatPosixOffset = (offsetMinutes: number) => {
+  // POSIX offsets are west-positive: UTC+1 is written "-1".
+  const sign = offsetMinutes > 0 ? '-' : '';
+  const abs = Math.abs(offsetMinutes);
+  return `${sign}${Math.floor(abs / 60)}${abs % 60 ? `:${pad(abs % 60)}` : ''}`;
+};
+
+const formatPosixName = (offsetMinutes: number) => {
+  const abs = Math.abs(offsetMinutes);
+  return `<${offsetMinutes < 0 ? '-' : '+'}${pad(Math.floor(abs / 60))}${abs % 60 ? pad(abs % 60) : ''}>`;
+};
+
+const formatPosixRule = (transition: Transition) => {
+  // Rule times are local time under the offset in effect before the change.
+  const d = new Date(transition.at + transition.before * MINUTE);
+  const day = d.getUTCDate();
+  const daysInMonth = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate();
+  const week = day + 7 > daysInMonth ? 5 : Math.ceil(day / 7);
+  const minutes = d.getUTCHours() * 60 + d.getUTCMinutes();
+  const time = `${Math.floor(minutes / 60)}${minutes % 60 ? `:${pad(minutes % 60)}` : ''}`;
+  return `M${d.getUTCMonth() + 1}.${week}.${d.getUTCDay()}${time === '2' ? '' : `/${time}`}`;
+};
+
+// POSIX TZ string (as used by the ESP32's setenv("TZ")) describing this year's rules.
+export const toPosixTimeZone = (timeZone: string, year: number = new Date().getUTCFullYear()) => {
+  const transitions = findTransitions(timeZone, Date.UTC(year, 0, 1), Date.UTC(year + 1, 0, 1));
+  const offsets = transitions.length ? [transitions[0].before, transitions[0].after] : [getOffsetMinutes(timeZone, Date.UTC(year, 0, 1))];
+  const standard = Math.min(...offsets);
+  const base = `${formatPosixName(standard)}${formatPosixOffset(standard)}`;
+
+  const toDst = transitions.find(t => t.after > t.before);
+  const toStandard = transitions.find(t => t.after < t.before);
+  if (!toDst || !toStandard) return base;
+
+  const dst = toDst.after;
+  const dstOffset = dst - standard === 60 ? '' : formatPosixOffset(dst);
+  return `${base}${formatPosixName(dst)}${dstOffset},${formatPosixRule(toDst)},${formatPosixRule(toStandard)}`;
+};
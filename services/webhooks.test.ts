@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { WebhookDelivery } from '../types';
+import { applyDeliveryResult, isRetryable, postWebhook, renderTemplate, sampleVariables } from './webhooks';
+
+const NOW = Date.UTC(2026, 2, 1, 12);
+
+describe('renderTemplate', () => {
+  const variables = { ...sampleVariables('offline'), custom_name: 'Office "Main" \\ Router', detail: 'line 1\nline 2' };
+
+  it('fills in known placeholders, with or without spaces', () => {
+    expect(renderTemplate('{{device_id}}|{{ event }}', variables)).toBe('test-device|offline');
+  });
+
+  it('escapes values for a JSON string', () => {
+    const rendered = renderTemplate('{"name": "{{custom_name}}", "detail": "{{detail}}"}', variables);
+    expect(JSON.parse(rendered)).toEqual({ name: 'Office "Main" \\ Router', detail: 'line 1\nline 2' });
+  });
+
+  it('leaves unknown and inherited names empty', () => {
+    expect(renderTemplate('[{{nope}}][{{toString}}][{{constructor}}]', variables)).toBe('[][][]');
+  });
+});
+
+describe('isRetryable', () => {
+  it.each<[string, { ok: boolean; status?: number }, boolean]>([
+    ['network error', { ok: false }, true],
+    ['server error', { ok: false, status: 502 }, true],
+    ['rate limit', { ok: false, status: 429 }, true],
+    ['request timeout', { ok: false, status: 408 }, true],
+    ['not found', { ok: false, status: 404 }, false],
+    ['bad request', { ok: false, status: 400 }, false],
+  ])('%s', (_, result, expected) => {
+    expect(isRetryable(result)).toBe(expected);
+  });
+});
+
+describe('applyDeliveryResult', () => {
+  const pending: WebhookDelivery = {
+    id: 'dlv_1',
+    webhookId: 'hook_1',
+    event: 'offline',
+    payload: '{}',
+    state: 'pending',
+    attempts: 0,
+    createdAt: new Date(NOW).toISOString(),
+    nextAttemptAt: new Date(NOW).toISOString(),
+  };
+
+  const failUntilDone = () => {
+    const waits: number[] = [];
+    let delivery = pending;
+    let now = NOW;
+    while (delivery.state === 'pending') {
+      delivery = applyDeliveryResult(delivery, { ok: false, status: 503, error: 'HTTP 503' }, now);
+      if (delivery.nextAttemptAt) {
+        waits.push(new Date(delivery.nextAttemptAt).getTime() - now);
+        now = new Date(delivery.nextAttemptAt).getTime();
+      }
+    }
+    return { delivery, waits };
+  };
+
+  it('backs off between attempts and gives up after five', () => {
+    const { delivery, waits } = failUntilDone();
+    expect(waits).toEqual([30000, 120000, 600000, 1800000]);
+    expect(delivery).toMatchObject({ state: 'failed', attempts: 5, statusCode: 503, nextAttemptAt: undefined });
+  });
+
+  it('fails at once on a response that will not change', () => {
+    const result = applyDeliveryResult(pending, { ok: false, status: 404, error: 'HTTP 404' }, NOW);
+    expect(result).toMatchObject({ state: 'failed', attempts: 1, error: 'HTTP 404' });
+  });
+
+  it('records a delivery and clears the last error', () => {
+    const retried = applyDeliveryResult(pending, { ok: false, error: 'Timed out.' }, NOW);
+    const result = applyDeliveryResult(retried, { ok: true, status: 204 }, NOW + 30000);
+    expect(result).toMatchObject({ state: 'delivered', attempts: 2, statusCode: 204, error: undefined, deliveredAt: new Date(NOW + 30000).toISOString() });
+  });
+});
+
+describe('postWebhook', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const failFetch = (error: unknown) => vi.stubGlobal('fetch', vi.fn(async () => { throw error; }));
+
+  it('reports an aborted request as a timeout', async () => {
+    failFetch(new DOMException('The operation was aborted.', 'AbortError'));
+    expect(await postWebhook('https://hooks.example.com/', '{}')).toEqual({ ok: false, error: 'Timed out.' });
+  });
+
+  it('reports other failures as a network error', async () => {
+    failFetch(new TypeError('Failed to fetch'));
+    expect(await postWebhook('https://hooks.example.com/', '{}')).toMatchObject({ ok: false, error: expect.stringMatching(/^Network error/) });
+  });
+
+  it('passes the status through', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 503 })));
+    expect(await postWebhook('https://hooks.example.com/', '{}')).toEqual({ ok: false, status: 503, error: 'HTTP 503' });
+  });
+});
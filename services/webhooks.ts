@@ -0,0 +1,176 @@
+import type { Webhook, WebhookDelivery, WebhookEventType } from '../types';
+import { NOTIFICATION_EVENT_LABELS } from './notifications';
+
+// Outbound JSON webhooks. Each event becomes one delivery per subscribed
+// webhook; deliveries are persisted and retried with backoff until the
+// endpoint accepts them or the attempts run out.
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = ['offline', 'error', 'reboot_completed', 'ota_failed', 'alert_firing', 'alert_resolved'];
+
+export const WEBHOOK_EVENT_LABELS: { [type in WebhookEventType]: string } = {
+  ...NOTIFICATION_EVENT_LABELS,
+  alert_firing: 'Alert firing',
+  alert_resolved: 'Alert resolved',
+};
+
+export interface WebhookVariables {
+  device_id: string;
+  custom_name: string;
+  event: WebhookEventType;
+  event_label: string;
+  timestamp: string; // ISO 8601
+  detail: string;
+  alert_rule: string; // rule name for alert events, otherwise empty
+}
+
+export const TEMPLATE_VARIABLES: (keyof WebhookVariables)[] = ['device_id', 'custom_name', 'event', 'event_label', 'timestamp', 'detail', 'alert_rule'];
+
+// Not `name in variables`, which would also match inherited names like toString.
+const isTemplateVariable = (name: string): name is keyof WebhookVariables =>
+  (TEMPLATE_VARIABLES as string[]).includes(name);
+
+export const DEFAULT_WEBHOOK_TEMPLATE = `{
+  "device_id": "{{device_id}}",
+  "name": "{{custom_name}}",
+  "event": "{{event}}",
+  "text": "{{custom_name}}: {{event_label}}",
+  "detail": "{{detail}}",
+  "timestamp": "{{timestamp}}"
+}`;
+
+const MAX_ATTEMPTS = 5;
+// Wait after the 1st, 2nd, ... failed attempt.
+const RETRY_DELAYS_MS = [30000, 2 * 60000, 10 * 60000, 30 * 60000];
+const REQUEST_TIMEOUT_MS = 10000;
+const MAX_LOG = 100;
+
+export const createWebhook = (): Webhook => ({
+  id: `hook_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 4)}`,
+  name: '',
+  url: '',
+  enabled: true,
+  events: ['offline', 'reboot_completed'],
+  template: DEFAULT_WEBHOOK_TEMPLATE,
+});
+
+// Placeholders sit inside JSON strings, so values are escaped for that context.
+export const renderTemplate = (template: string, variables: WebhookVariables) =>
+  template.replace(/{{\s*(\w+)\s*}}/g, (_, name: string) => {
+    if (!isTemplateVariable(name)) return '';
+    return JSON.stringify(String(variables[name])).slice(1, -1);
+  });
+
+export const sampleVariables = (event: WebhookEventType = 'offline'): WebhookVariables => ({
+  device_id: 'test-device',
+  custom_name: 'Test Device',
+  event,
+  event_label: WEBHOOK_EVENT_LABELS[event],
+  timestamp: new Date().toISOString(),
+  detail: 'Test delivery from Remote Rebooter',
+  alert_rule: event.startsWith('alert_') ? 'Test rule' : '',
+});
+
+// Plain http is accepted for local stand-ins and intranet receivers.
+export const validateWebhook = (webhook: Webhook): string | null => {
+  if (!webhook.name.trim()) return 'Give the webhook a name.';
+  let url: URL;
+  try {
+    url = new URL(webhook.url.trim());
+  } catch (e) {
+    return 'Enter a full URL, e.g. https://example.com/hook.';
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return 'The URL must start with http:// or https://.';
+  if (webhook.events.length === 0) return 'Pick at least one event.';
+  try {
+    JSON.parse(renderTemplate(webhook.template, sampleVariables()));
+  } catch (e) {
+    return 'The payload template is not valid JSON.';
+  }
+  return null;
+};
+
+export const createDelivery = (webhook: Webhook, variables: WebhookVariables, now: number, test = false): WebhookDelivery => ({
+  id: `dlv_${now.toString(36)}_${Math.random().toString(36).substr(2, 6)}`,
+  webhookId: webhook.id,
+  event: variables.event,
+  deviceId: test ? undefined : variables.device_id,
+  payload: renderTemplate(webhook.template, variables),
+  state: 'pending',
+  attempts: 0,
+  createdAt: new Date(now).toISOString(),
+  nextAttemptAt: new Date(now).toISOString(),
+  test,
+});
+
+// One delivery per enabled webhook subscribed to the event.
+export const deliveriesForEvent = (webhooks: Webhook[], variables: WebhookVariables, now: number) =>
+  webhooks
+    .filter(w => w.enabled && w.events.includes(variables.event))
+    .map(w => createDelivery(w, variables, now));
+
+// New deliveries go first; pending ones are never dropped by the cap.
+export const appendDeliveries = (log: WebhookDelivery[], added: WebhookDelivery[]) => {
+  const all = [...added, ...log];
+  let finishedLeft = Math.max(0, MAX_LOG - all.filter(d => d.state === 'pending').length);
+  return all.filter(d => d.state === 'pending' || finishedLeft-- > 0);
+};
+
+export const isDue = (delivery: WebhookDelivery, now: number) =>
+  delivery.state === 'pending' && (!delivery.nextAttemptAt || new Date(delivery.nextAttemptAt).getTime() <= now);
+
+export interface DeliveryResult {
+  ok: boolean;
+  status?: number;
+  error?: string;
+}
+
+export const postWebhook = async (url: string, payload: string): Promise<DeliveryResult> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: payload,
+      signal: controller.signal,
+    });
+    return response.ok ? { ok: true, status: response.status } : { ok: false, status: response.status, error: `HTTP ${response.status}` };
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') return { ok: false, error: 'Timed out.' };
+    // The browser hides the reason; a missing CORS header looks the same as an unreachable host.
+    return { ok: false, error: 'Network error (unreachable, or the endpoint does not allow cross-origin requests).' };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Server errors, rate limits and network problems are worth retrying; other
+// 4xx responses will fail the same way every time.
+export const isRetryable = (result: DeliveryResult) =>
+  result.status === undefined || result.status >= 500 || result.status === 429 || result.status === 408;
+
+export const applyDeliveryResult = (delivery: WebhookDelivery, result: DeliveryResult, now: number): WebhookDelivery => {
+  const attempts = delivery.attempts + 1;
+  const stamp = new Date(now).toISOString();
+  if (result.ok) {
+    return { ...delivery, attempts, state: 'delivered', deliveredAt: stamp, statusCode: result.status, error: undefined, nextAttemptAt: undefined };
+  }
+  const retry = isRetryable(result) && attempts < MAX_ATTEMPTS;
+  return {
+    ...delivery,
+    attempts,
+    state: retry ? 'pending' : 'failed',
+    statusCode: result.status,
+    error: result.error,
+    nextAttemptAt: retry ? new Date(now + RETRY_DELAYS_MS[Math.min(attempts, RETRY_DELAYS_MS.length) - 1]).toISOString() : undefined,
+  };
+};
+
+// Manual retry of a failed delivery starts a fresh round of attempts.
+export const retryDelivery = (delivery: WebhookDelivery, now: number): WebhookDelivery => ({
+  ...delivery,
+  state: 'pending',
+  attempts: 0,
+  error: undefined,
+  nextAttemptAt: new Date(now).toISOString(),
+});
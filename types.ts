@@ -2,19 +2,28 @@
 export interface Schedule {
   id: string;
   time: string; // e.g., "14:30"
-  days: string[]; // e.g., ["Mon", "Wed", "Fri"]
+  days: string[]; // e.g., ["Mon", "Wed", "Fri"]; empty for monthly and one-time schedules
+  dayOfMonth?: number; // 1-31, makes the schedule monthly instead of weekly
+  date?: string; // e.g., "2026-12-24", makes the schedule run once on that date
+  templateId?: string; // set while the schedule follows a ScheduleTemplate
   enabled: boolean;
   action?: 'REBOOT' | 'OFF';
   endTime?: string; // e.g., "18:30", required if action is OFF
 }
 
+export interface MqttTransport {
+  scheme: 'ws' | 'wss';
+  path: string; // e.g. "/mqtt"
+}
+
 export interface DeviceCredentials {
   device_id: string;
   broker: string;
-  port: number;
+  port: number; // 8884 when missing or out of range
   user: string;
   pass: string;
   pair_token: string;
+  transport?: MqttTransport;
 }
 
 export interface Device extends DeviceCredentials {
@@ -23,10 +32,123 @@ export interface Device extends DeviceCredentials {
   lastSeen?: string;
   autoPingReboot?: boolean;
   pingThreshold?: number;
+  rebootCooldownMinutes?: number; // minimum time between two auto-reboots
+  maxRebootsPerDay?: number;
+  pingTarget?: string; // host the device pings for the auto-reboot check
+  failuresBeforeReboot?: number;
+  quietHoursStart?: string; // "HH:MM" in the device's timezone, empty when unset
+  quietHoursEnd?: string;
+  escalateAfterReboots?: number; // 0 = never escalate to a power cycle
+  powerCycleMinutes?: number;
   isPoweredOff?: boolean;
+  powerOnAt?: string; // set while a timed power cycle is running
   lastAction?: string; // 'Reboot', 'Power Off', 'Power On'
   lastActionTime?: string;
-  firmwareRepo?: string; // e.g. "username/project-name"
+  firmwareRepo?: string; // GitHub "username/project-name" or the URL of a release manifest
+  hardwareRevision?: number; // board revision, matched against a release's supported range
+  tags?: string[]; // lowercase group names, e.g. ["site-a", "customer-x"]
+  timezone?: string; // IANA name, e.g. "Europe/Berlin"; schedule times are in this zone
+}
+
+// Settings the device applies on its own, published to config/ping_reboot
+export interface DeviceConfig {
+  autoPingReboot: boolean;
+  pingThreshold: number; // ms
+  rebootCooldownMinutes: number;
+  maxRebootsPerDay: number; // in any 24 hours
+  pingTarget: string;
+  failuresBeforeReboot: number; // consecutive pings over the threshold
+  quietHoursStart: string; // "HH:MM", '' = no quiet hours
+  quietHoursEnd: string;
+  escalateAfterReboots: number; // auto-reboots in a row before a power cycle, 0 = never
+  powerCycleMinutes: number;
+}
+
+export interface ScheduleTemplate {
+  id: string;
+  name: string; // e.g., "Nightly 4am reboot"
+  schedule: Omit<Schedule, 'id' | 'enabled' | 'templateId'>;
+  updatedAt: string;
+}
+
+// The image an OTA update installs, as sent with ota/start
+export interface FirmwareAsset {
+  url: string;
+  version: string;
+  size?: number;
+  sha256?: string;
+}
+
+export interface FirmwareHistoryEntry {
+  id: string;
+  deviceId: string;
+  startedAt: string;
+  finishedAt?: string;
+  fromVersion?: string; // version reported before the update
+  toVersion?: string; // target, then the version the device reported afterwards
+  outcome: 'in_progress' | 'succeeded' | 'failed';
+  flashed?: boolean; // the device reported the image written; the next version report closes the update
+  error?: string;
+  asset?: FirmwareAsset; // known when the update was started from this app
+}
+
+export type AlertRuleKind = 'offline' | 'reboots' | 'ping' | 'firmware';
+
+// An operator-defined condition checked against every device in scope.
+// Which fields apply depends on the kind:
+//   offline  – offline or unreachable for `minutes`
+//   reboots  – more than `count` reboots in `hours`
+//   ping     – average ping above `threshold` ms for `minutes`
+//   firmware – version older than `version`
+export interface AlertRule {
+  id: string;
+  name: string;
+  kind: AlertRuleKind;
+  enabled: boolean;
+  tag?: string; // only devices in this group; all devices when unset
+  minutes?: number;
+  count?: number;
+  hours?: number;
+  threshold?: number;
+  version?: string;
+}
+
+export interface AlertRecord {
+  id: string;
+  ruleId: string;
+  deviceId: string;
+  state: 'firing' | 'resolved';
+  firedAt: string;
+  resolvedAt?: string;
+  detail: string; // what was observed when it fired
+}
+
+export type WebhookEventType = 'offline' | 'error' | 'reboot_completed' | 'ota_failed' | 'alert_firing' | 'alert_resolved';
+
+// Outbound JSON webhook. `template` is JSON with {{placeholders}}, see services/webhooks.
+export interface Webhook {
+  id: string;
+  name: string;
+  url: string;
+  enabled: boolean;
+  events: WebhookEventType[];
+  template: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEventType;
+  deviceId?: string;
+  payload: string;
+  state: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt?: string; // while pending
+  deliveredAt?: string;
+  statusCode?: number; // HTTP status of the last attempt
+  error?: string;
+  test?: boolean;
 }
 
 export interface ResetHistoryEntry {
@@ -9,6 +9,10 @@ export default defineConfig({
     react(),
     VitePWA({
       registerType: 'autoUpdate',
+      workbox: {
+        // Notification click handling (hooks/useNotifications)
+        importScripts: ['notification-sw.js'],
+      },
       includeAssets: ['favicon.ico', 'apple-touch-icon.png', 'pwa-icon.png', 'splash-logo.png'],
       manifest: {
         name: 'Remote rebooter app',
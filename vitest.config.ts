@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config'
+
+// Kept apart from vite.config.ts so the browser-only defines and the PWA
+// plugin stay out of unit tests.
+export default defineConfig({
+  test: {
+    environment: 'node',
+  },
+})